@@ -3,9 +3,20 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { readFileSync } from 'fs';
-import { dirname, join } from 'path';
+import { dirname, join, relative, resolve, sep } from 'path';
 import { fileURLToPath } from 'url';
 import { FrontendStandardsChecker } from '../src/index.js';
+import { ConfigLoader } from '../src/core/config-loader.js';
+import { buildConfigSchema } from '../src/core/config-schema.js';
+import {
+  describeConfiguration,
+  describeFileRules,
+  findFileZone,
+  formatConfiguration,
+} from '../src/core/config-printer.js';
+import { ProjectAnalyzer } from '../src/core/project-analyzer.js';
+import { RuleEngine } from '../src/core/rule-engine.js';
+import { Logger } from '../src/utils/logger.js';
 import type { ICliOptions } from '../src/types';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -58,6 +69,10 @@ program
 program
   .command('check')
   .description('Run standards validation')
+  .argument(
+    '[files...]',
+    'Files, directories or globs to validate instead of the staged files'
+  )
   .option(
     '-z, --zones <zones...>',
     'Specific zones to check (space-separated)',
@@ -69,6 +84,15 @@ program
   .option('--skip-structure', 'Skip directory structure validation')
   .option('--skip-naming', 'Skip naming convention validation')
   .option('--skip-content', 'Skip content validation')
+  .option(
+    '--only-category <categories...>',
+    'Only run rules of these categories, e.g. accessibility (space-separated)'
+  )
+  .option(
+    '--rule <rules...>',
+    'Only run these rules, by ID or name (space-separated)'
+  )
+  .option('--skip-rule <rules...>', 'Do not run these rules, by ID or name')
   .option(
     '--only-changed-files',
     'Only check files that are staged for commit (default: true)'
@@ -77,12 +101,44 @@ program
     '--all-files',
     'Check all files in the project, not just staged files (overrides config)'
   )
-  .action(async (options: ICliOptions) => {
+  .option(
+    '--baseline <path>',
+    'Only fail on violations that are not recorded in the baseline file'
+  )
+  .option(
+    '--prune-baseline',
+    'Remove fixed entries from the baseline file without asking'
+  )
+  .option(
+    '--format <formats>',
+    'Comma separated report formats: text, json, sarif, junit (overrides config outputFormat)'
+  )
+  .option(
+    '-o, --output <path>',
+    'Write the report to this path, or "-" to stream it to stdout'
+  )
+  .option('--fix', 'Automatically fix violations of fixable rules')
+  .option(
+    '--fix-dry-run',
+    'Print the fixes as a unified diff without writing files'
+  )
+  .option('-w, --watch', 'Keep running and re-validate files as they are saved')
+  .option(
+    '--no-cache',
+    'Validate every file even when the result cache is enabled'
+  )
+  .option(
+    '--strict-config',
+    'Fail on configuration problems instead of warning and using defaults'
+  )
+  .action(async (files: string[], options: ICliOptions) => {
+    // Keep stdout clean for the report when streaming it
+    const print = options.output === '-' ? console.error : console.log;
     try {
-      console.log(
+      print(
         chalk.blue(`🔍 Frontend Standards Checker v${packageJson.version}`)
       );
-      console.log(
+      print(
         chalk.gray(
           'Analyzing your frontend project with TypeScript support...\n'
         )
@@ -90,13 +146,27 @@ program
 
       const checkerOptions: any = {
         zones: options.zones || [],
+        files,
         config: options.config || null,
         verbose: options.verbose || false,
         debug: options.debug || false,
         skipStructure: options.skipStructure || false,
         skipNaming: options.skipNaming || false,
         skipContent: options.skipContent || false,
+        onlyCategory: options.onlyCategory || [],
+        rule: options.rule || [],
+        skipRule: options.skipRule || [],
+        baseline: options.baseline || null,
+        pruneBaseline: options.pruneBaseline || false,
+        output: options.output || null,
+        fix: options.fix || false,
+        fixDryRun: options.fixDryRun || false,
+        cache: options.cache !== false,
+        strictConfig: options.strictConfig || false,
       };
+      if (options.format) {
+        checkerOptions.format = options.format;
+      }
 
       // Handle onlyChangedFiles logic with precedence
       // --all-files flag overrides both config and --only-changed-files
@@ -108,18 +178,26 @@ program
       // If neither flag is provided, let the config or default handle it
       const checker = new FrontendStandardsChecker(checkerOptions);
 
+      if (options.watch) {
+        const watcher = await checker.watch();
+        process.on('SIGINT', () => {
+          watcher.stop();
+          print(chalk.gray('\n👋 Watch mode stopped'));
+          process.exit(0);
+        });
+        return;
+      }
+
       const result = await checker.run();
 
       const exitCode = result.success ? 0 : 1;
 
       if (result.success) {
-        console.log(chalk.green('\n✅ All validations passed!'));
+        print(chalk.green('\n✅ All validations passed!'));
       } else {
-        console.log(chalk.red(`\n❌ Found ${result.totalErrors} errors`));
+        print(chalk.red(`\n❌ Found ${result.totalErrors} errors`));
         if (result.totalWarnings > 0) {
-          console.log(
-            chalk.yellow(`⚠️  Found ${result.totalWarnings} warnings`)
-          );
+          print(chalk.yellow(`⚠️  Found ${result.totalWarnings} warnings`));
         }
       }
 
@@ -131,6 +209,197 @@ program
     }
   });
 
+// Comando para generar el baseline de violaciones existentes
+program
+  .command('baseline')
+  .description(
+    'Snapshot current violations into a baseline file to only fail on new ones'
+  )
+  .option(
+    '-o, --output <path>',
+    'Baseline file to write',
+    'frontend-standards.baseline.json'
+  )
+  .option(
+    '-z, --zones <zones...>',
+    'Specific zones to check (space-separated)',
+    []
+  )
+  .option('-c, --config <path>', 'Path to custom configuration file')
+  .option('-v, --verbose', 'Show verbose output')
+  .option('--debug', 'Show debug information about file scanning')
+  .option(
+    '--strict-config',
+    'Fail on configuration problems instead of warning and using defaults'
+  )
+  .action(async (options: ICliOptions) => {
+    try {
+      console.log(
+        chalk.blue(`📌 Frontend Standards Checker v${packageJson.version}`)
+      );
+      console.log(chalk.gray('Creating baseline from current violations...\n'));
+
+      const checker = new FrontendStandardsChecker({
+        zones: options.zones || [],
+        config: options.config || null,
+        verbose: options.verbose || false,
+        debug: options.debug || false,
+        onlyChangedFiles: false,
+        strictConfig: options.strictConfig || false,
+      });
+
+      const baseline = await checker.createBaseline(options.output);
+      console.log(
+        chalk.green(
+          `\n✅ Baseline written to ${baseline.path} (${baseline.violations} violations in ${baseline.entries} entries)`
+        )
+      );
+      process.exit(0);
+    } catch (error) {
+      console.error(chalk.red('💥 Error creating baseline:'));
+      console.error(error);
+      process.exit(1);
+    }
+  });
+
+// Comandos para revisar la configuración
+const configCommand = program
+  .command('config')
+  .description('Inspect the configuration file');
+
+configCommand
+  .command('validate')
+  .description(
+    'Check the configuration for unknown keys and rules, invalid severities and missing zones'
+  )
+  .option('-c, --config <path>', 'Path to custom configuration file')
+  .action(async (options: ICliOptions) => {
+    try {
+      const configLoader = new ConfigLoader(process.cwd(), new Logger());
+      const problems = await configLoader.validate(options.config || null);
+      if (problems.length === 0) {
+        console.log(chalk.green('✅ Configuration is valid'));
+        process.exit(0);
+      }
+
+      console.error(
+        chalk.red(`❌ Found ${problems.length} configuration problems:`)
+      );
+      for (const problem of problems) {
+        console.error(`  ${chalk.bold(problem.path)}: ${problem.message}`);
+      }
+      process.exit(1);
+    } catch (error) {
+      console.error(chalk.red('💥 Error validating configuration:'));
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('print [file]')
+  .description(
+    'Print the effective configuration, and the rules that apply to a file'
+  )
+  .option('-c, --config <path>', 'Path to custom configuration file')
+  .option('--json', 'Print the configuration as JSON')
+  .action(
+    async (
+      file: string | undefined,
+      options: ICliOptions & { json?: boolean }
+    ) => {
+      try {
+        const rootDir = process.cwd();
+        // Logs go to stderr to keep the output clean when piped
+        const logger = new Logger(false, true);
+        const configLoader = new ConfigLoader(rootDir, logger);
+        const configPath = configLoader.resolveConfigPath(
+          options.config || null
+        );
+        const config = await configLoader.load(options.config || null);
+        const defaultRules = Object.values(
+          configLoader.getDefaultRules()
+        ).flat();
+
+        const description = describeConfiguration(
+          config,
+          defaultRules,
+          existsSync(configPath) ? configPath : null
+        );
+        if (file) {
+          if (!existsSync(join(rootDir, file)) && !existsSync(file)) {
+            throw new Error(`File not found: ${file}`);
+          }
+          const projectInfo = await new ProjectAnalyzer(
+            rootDir,
+            logger
+          ).analyze(config.zones);
+          // Resolve the zone config cascade the way the check command does
+          let zones = projectInfo.zones.map((zone) => zone.name);
+          if (!config.zones?.includePackages) {
+            zones = zones.filter((zone) => !zone.startsWith('packages/'));
+          }
+          const relativePath = relative(rootDir, resolve(rootDir, file))
+            .split(sep)
+            .join('/');
+          const zone = findFileZone(
+            relativePath,
+            zones.length > 0 ? zones : ['.']
+          );
+          const zoneConfig = zone
+            ? await configLoader.loadZone(zone, options.config || null)
+            : null;
+          const fileConfig = zoneConfig ?? config;
+
+          const ruleEngine = new RuleEngine(logger);
+          ruleEngine.initialize(fileConfig, {
+            rootDir,
+            projectType: projectInfo.projectType,
+            zones: projectInfo.zones,
+          });
+          description.file = {
+            ...describeFileRules(
+              file,
+              rootDir,
+              fileConfig,
+              ruleEngine,
+              defaultRules
+            ),
+            ...(zoneConfig && zone ? { zone } : {}),
+          };
+        }
+
+        console.log(
+          options.json
+            ? JSON.stringify(description, null, 2)
+            : formatConfiguration(description)
+        );
+      } catch (error) {
+        console.error(chalk.red('💥 Error printing configuration:'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+  );
+
+configCommand
+  .command('schema')
+  .description('Print the JSON Schema of the configuration file')
+  .action(() => {
+    // Logs go to stderr to keep the schema clean when redirected to a file
+    const configLoader = new ConfigLoader(
+      process.cwd(),
+      new Logger(false, true)
+    );
+    console.log(
+      JSON.stringify(
+        buildConfigSchema(configLoader.getAllDefaultRules()),
+        null,
+        2
+      )
+    );
+  });
+
 // Comando init para agregar scripts y actualizar .gitignore
 program
   .command('init')
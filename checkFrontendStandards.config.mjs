@@ -4,17 +4,34 @@
  *
  * **Rule Structure:**
  * Each rule must have:
- * - `name`: Unique identifier (string)
- * - `check`: Function that returns true for violations (content, filePath) => boolean | number[]
+ * - `id`: Unique namespaced identifier, e.g. 'custom/no-pending-tasks' (optional,
+ *   derived from the name when missing). Built-in rules use '<category>/<name>'.
+ * - `name`: Display name shown in reports (string)
+ * - `check`: Function that returns true for violations (content, filePath, options) => boolean | number[]
+ * - `optionsSchema`: Optional options with their type and default, e.g.
+ *   { maxDepth: { type: 'number', default: 3 } }. `check` receives the resolved values.
  * - `message`: Error message shown to users (string)
  * - `category`: Optional grouping ('structure', 'naming', 'content', 'style', 'documentation', etc.)
  * - `severity`: Optional level ('error', 'warning', 'info')
+ * - `appliesTo`: Optional { frameworks, extensions, files } limiting the files the
+ *   rule runs on, e.g. { frameworks: ['next'], extensions: ['.tsx'] }
  *
  * **Configuration Options:**
+ * - `extends`: Presets to build on, e.g. ['@acme/frontend-standards-preset', './base.config.mjs']
+ * - `profile`: Built-in rule profile, e.g. ['recommended', 'next'] (see the README)
  * - `merge`: Boolean to control if custom rules merge with defaults
  * - `onlyChangedFiles`: Boolean to only check files staged for commit (default: true)
  * - `zones`: Object to configure which directories to validate
  * - `rules`: Array of custom validation rules
+ * - `overrides`: Rule changes for files matching glob patterns, e.g.
+ *   [{ files: ['src/legacy/**'], rules: { 'content/no-var': 'warning' } }]
+ *
+ * The config can also be a checkFrontendStandards.config.ts, a .frontendstandardsrc.json
+ * or .yaml file, or the "frontendStandards" key of package.json (see the README for
+ * the precedence). Zones can have config files of their own, merged over this one;
+ * set `root: true` in a zone config to ignore the configs above it.
+ * Run `frontend-standards-checker config validate` after editing it.
+ * For type checking, wrap the export in `defineConfig` from 'frontend-standards-checker'.
  *
  * @author Juan David Peña
  * @license MIT
@@ -59,64 +76,64 @@ export default {
     // 🚫 DISABLE EXISTING RULES
     // ==========================================
     // Filter out rules you want to disable from the 64 available default rules:
-    // Choose from the complete list of available rules:
+    // Choose from the complete list of available rule IDs:
     //
     // 🏗️ STRUCTURE RULES (12 rules):
-    // 'Folder structure', 'Src structure', 'Component size limit',
-    // 'No circular dependencies', 'Missing test files', 'Test file naming convention',
-    // 'Missing index.ts in organization folders', 'GitFlow branch naming convention',
-    // 'Environment-specific configuration', 'Proper release versioning',
-    // 'Platform-specific code organization', 'Sync branch validation'
+    // 'structure/folder-structure', 'structure/src-structure', 'structure/component-size-limit',
+    // 'structure/missing-test-files', 'naming/test-file-naming-convention',
+    // 'structure/missing-index-ts-in-organization-folders', 'structure/gitflow-branch-naming-convention',
+    // 'structure/environment-specific-configuration', 'structure/proper-release-versioning',
+    // 'structure/platform-specific-code-organization', 'structure/sync-branch-validation'
     //
     // 🏷️ NAMING RULES (12 rules):
-    // 'Component naming', 'Hook naming', 'Type naming', 'Constants naming',
-    // 'Helper naming', 'Style naming', 'Assets naming', 'Folder naming convention',
-    // 'Directory naming convention', 'Interface naming with I prefix',
-    // 'Constant export naming UPPERCASE', 'Next.js app router naming'
+    // 'naming/component-naming', 'naming/hook-naming', 'naming/type-naming', 'naming/constants-naming',
+    // 'naming/helper-naming', 'style/style-naming', 'naming/assets-naming', 'naming/folder-naming-convention',
+    // 'naming/directory-naming-convention', 'naming/interface-naming-with-i-prefix',
+    // 'naming/constant-export-naming-uppercase', 'naming/next-js-app-router-naming'
     //
     // 💻 CONTENT RULES (10 rules):
-    // 'No console.log', 'No var', 'No any type', 'No inline styles',
-    // 'No alert', 'No hardcoded URLs', 'Must use async/await', 'No jQuery',
-    // 'No merge conflicts markers', 'No committed credentials'
+    // 'content/no-console-log', 'content/no-var', 'typescript/no-any-type', 'content/no-inline-styles',
+    // 'content/no-alert', 'content/no-hardcoded-urls', 'content/must-use-async-await', 'content/no-jquery',
+    // 'content/no-merge-conflicts-markers', 'content/no-committed-credentials', 'content/no-circular-dependencies'
     //
     // ⚛️ REACT RULES (7 rules):
-    // 'Client component directive', 'Proper hook dependencies',
-    // 'Component props interface', 'Avoid React.FC', 'Proper key prop in lists',
-    // 'Styled components naming', 'Tailwind CSS preference'
+    // 'react/client-component-directive', 'react/proper-hook-dependencies',
+    // 'react/component-props-interface', 'react/avoid-react-fc', 'react/proper-key-prop-in-lists',
+    // 'react/styled-components-naming', 'style/tailwind-css-preference'
     //
     // 🔷 TYPESCRIPT RULES (3 rules):
-    // 'Prefer type over interface for unions', 'Explicit return types for functions',
-    // 'Proper generic naming'
+    // 'typescript/prefer-type-over-interface-for-unions', 'typescript/explicit-return-types-for-functions',
+    // 'typescript/proper-generic-naming'
     //
     // 📦 IMPORT RULES (5 rules):
-    // 'Direct imports for sibling files', 'Import order', 'Use absolute imports',
-    // 'No default and named imports mixed', 'No unused imports'
+    // 'imports/direct-imports-for-sibling-files', 'structure/import-order', 'imports/use-absolute-imports',
+    // 'imports/no-default-and-named-imports-mixed', 'imports/no-unused-imports'
     //
     // ⚡ PERFORMANCE RULES (5 rules):
-    // 'Next.js Image optimization', 'Avoid inline functions in JSX',
-    // 'Missing React.memo for pure components', 'Large bundle imports',
-    // 'Avoid re-renders with object literals'
+    // 'performance/next-js-image-optimization', 'performance/avoid-inline-functions-in-jsx',
+    // 'performance/missing-react-memo-for-pure-components', 'performance/large-bundle-imports',
+    // 'performance/avoid-re-renders-with-object-literals'
     //
     // ♿ ACCESSIBILITY RULES (6 rules):
-    // 'Button missing accessible name', 'Form inputs missing labels',
-    // 'Image alt text', 'Links missing accessible names',
-    // 'Missing focus management', 'Color contrast considerations'
+    // 'accessibility/button-missing-accessible-name', 'accessibility/form-inputs-missing-labels',
+    // 'accessibility/image-alt-text', 'accessibility/links-missing-accessible-names',
+    // 'accessibility/missing-focus-management', 'accessibility/color-contrast-considerations'
     //
     // 📖 DOCUMENTATION RULES (4 rules):
-    // 'Missing comment in complex function', 'Should have TSDoc comments',
-    // 'JSDoc for complex functions', 'English-only comments'
+    // 'documentation/missing-comment-in-complex-function', 'documentation/should-have-tsdoc-comments',
+    // 'documentation/jsdoc-for-complex-functions', 'documentation/english-only-comments'
 
     // Examples of commonly disabled rules (CORRECT METHOD):
     const disabledRules = [
-      // 'No console.log',           // Allow console.log statements
-      // 'No any type',             // Allow TypeScript any type
-      // 'English-only comments',   // Allow non-English comments
-      // 'Component naming',        // Disable component naming rules
-      // 'Missing test files',      // Don't require test files
+      // 'content/no-console-log',                // Allow console.log statements
+      // 'typescript/no-any-type',                // Allow TypeScript any type
+      // 'documentation/english-only-comments',   // Allow non-English comments
+      // 'naming/component-naming',               // Disable component naming rules
+      // 'structure/missing-test-files',          // Don't require test files
     ];
 
     const filteredRules = defaultRules.filter(
-      (rule) => !disabledRules.includes(rule.name)
+      (rule) => !disabledRules.includes(rule.id)
     );
 
     // ==========================================
@@ -124,12 +141,12 @@ export default {
     // ==========================================
     const modifiedRules = filteredRules.map((rule) => {
       // Example: Change rule severity
-      // if (rule.name === 'No any type') {
+      // if (rule.id === 'typescript/no-any-type') {
       //   return { ...rule, severity: 'warning' }; // Change from error to warning
       // }
 
       // Example: Customize rule message
-      // if (rule.name === 'Component naming') {
+      // if (rule.id === 'naming/component-naming') {
       //   return {
       //     ...rule,
       //     message: 'Components should use PascalCase naming convention.',
@@ -161,6 +178,7 @@ export default {
       //   message: 'Custom hooks should start with "use".',
       // },
       // {
+      //   id: 'custom/no-pending-tasks',
       //   name: 'No pending tasks',
       //   category: 'content',
       //   severity: 'warning',
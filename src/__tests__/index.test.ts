@@ -6,6 +6,7 @@ jest.mock('../utils/file-scanner');
 jest.mock('../core/project-analyzer');
 jest.mock('../core/rule-engine');
 jest.mock('../core/reporter');
+jest.mock('../core/watcher');
 
 // Helpers
 const mockLoadAndLogConfig = jest.fn();
@@ -26,6 +27,10 @@ jest.mock('../helpers/index', () => ({
   generateReport: (...args: any[]) => mockGenerateReport(...args),
   logSummary: (...args: any[]) => mockLogSummary(...args),
   processZone: (...args: any[]) => mockProcessZone(...args),
+  countSeverities: jest.fn(() => ({ errorsCount: 0, warningsCount: 0 })),
+  getToolVersion: jest.fn(() => '1.0.0'),
+  hashConfiguration: jest.fn(() => 'hash'),
+  hashRuleset: jest.fn(() => 'hash'),
 }));
 
 describe('FrontendStandardsChecker', () => {
@@ -101,6 +106,24 @@ describe('FrontendStandardsChecker', () => {
     expect(result).toBe('early');
   });
 
+  it('should validate the given paths instead of the staged files', async () => {
+    checker = new FrontendStandardsChecker({ files: ['src/a.ts'] });
+    (checker as any).options.rootDir = '/tmp/project';
+    mockLoadAndLogConfig.mockResolvedValue({ onlyChangedFiles: true });
+    mockAnalyzeProject.mockResolvedValue({ zones: ['web'] });
+    (checker as any).configLoader.loadZone = jest.fn(async () => null);
+
+    await checker.run();
+
+    expect(mockGetChangedFiles).not.toHaveBeenCalled();
+    expect(mockProcessZone).toHaveBeenCalledWith(
+      expect.objectContaining({
+        zone: 'web',
+        options: expect.objectContaining({ files: ['src/a.ts'] }),
+      })
+    );
+  });
+
   it('should handle hasOnlyZone', async () => {
     jest.setTimeout(15000);
     mockLoadAndLogConfig.mockResolvedValue({ zones: { onlyZone: 'web' } });
@@ -125,6 +148,160 @@ describe('FrontendStandardsChecker', () => {
     expect(result).toBeDefined();
   });
 
+  it('should validate zones with their own config files with that config', async () => {
+    const zoneConfig = { zones: {}, extensions: ['.ts'] };
+    mockLoadAndLogConfig.mockResolvedValue({ zones: {} });
+    mockAnalyzeProject.mockResolvedValue({ zones: ['web', 'auth'] });
+    (checker as any).configLoader.loadZone = jest.fn(async (zone: string) =>
+      zone === 'web' ? zoneConfig : null
+    );
+
+    await checker.run();
+
+    const [webCall, authCall] = mockProcessZone.mock.calls.map(
+      ([options]) => options
+    );
+    expect(webCall.config).toBe(zoneConfig);
+    expect(webCall.ruleEngine).not.toBe((checker as any).ruleEngine);
+    expect(webCall.ruleEngine.initialize).toHaveBeenCalledWith(
+      zoneConfig,
+      expect.objectContaining({ rootDir: '/tmp/project' })
+    );
+    expect(authCall.config).toEqual({ zones: {} });
+    expect(authCall.ruleEngine).toBe((checker as any).ruleEngine);
+  });
+
+  it('should pass the rule selection to the rule engine', async () => {
+    checker = new FrontendStandardsChecker({
+      skipNaming: true,
+      onlyCategory: ['accessibility'],
+      skipRule: ['accessibility/missing-focus-management'],
+    });
+    (checker as any).options.rootDir = '/tmp/project';
+    const focusManagement = {
+      id: 'accessibility/missing-focus-management',
+      name: 'Missing focus management',
+      category: 'accessibility',
+    };
+    mockLoadAndLogConfig.mockResolvedValue({
+      zones: {},
+      rules: [focusManagement],
+    });
+    mockAnalyzeProject.mockResolvedValue({ zones: ['web'] });
+    (checker as any).configLoader.loadZone = jest.fn(async () => null);
+    (checker as any).configLoader.getAllDefaultRules = jest.fn(() => [
+      focusManagement,
+    ]);
+
+    await checker.run();
+
+    expect((checker as any).ruleEngine.initialize).toHaveBeenCalledWith(
+      { zones: {}, rules: [focusManagement] },
+      {
+        skipNaming: true,
+        onlyCategories: ['accessibility'],
+        skipRules: ['accessibility/missing-focus-management'],
+        rootDir: '/tmp/project',
+        zones: [],
+      }
+    );
+  });
+
+  it('should reject unknown rules and categories in the rule selection', async () => {
+    mockLoadAndLogConfig.mockResolvedValue({
+      zones: {},
+      rules: [{ id: 'custom/no-todo', name: 'No TODO', category: 'custom' }],
+    });
+    mockAnalyzeProject.mockResolvedValue({ zones: ['web'] });
+    const createChecker = (options: Record<string, string[]>) => {
+      const selectionChecker = new FrontendStandardsChecker(options);
+      (selectionChecker as any).options.rootDir = '/tmp/project';
+      (selectionChecker as any).configLoader.loadZone = jest.fn(
+        async () => null
+      );
+      (selectionChecker as any).configLoader.getAllDefaultRules = jest.fn(
+        () => [
+          { id: 'naming/hook-naming', name: 'Hook naming', category: 'naming' },
+        ]
+      );
+      return selectionChecker;
+    };
+
+    await expect(
+      createChecker({ onlyCategory: ['namig'] }).run()
+    ).rejects.toThrow(
+      'Unknown categories: namig. Available categories: custom, naming'
+    );
+    await expect(
+      createChecker({ rule: ['naming/hook-naming', 'naming/nope'] }).run()
+    ).rejects.toThrow('Unknown rules: naming/nope');
+    await expect(
+      createChecker({
+        onlyCategory: ['custom'],
+        skipRule: ['No TODO'],
+      }).run()
+    ).resolves.toBeDefined();
+  });
+
+  it('should reject rules the configuration turns off in the rule selection', async () => {
+    mockLoadAndLogConfig.mockResolvedValue({
+      zones: {},
+      rules: [{ id: 'custom/no-todo', name: 'No TODO', category: 'custom' }],
+      disabledRules: ['naming/interface-naming'],
+    });
+    mockAnalyzeProject.mockResolvedValue({ zones: ['web'] });
+    const createChecker = (options: Record<string, string[]>) => {
+      const selectionChecker = new FrontendStandardsChecker(options);
+      (selectionChecker as any).options.rootDir = '/tmp/project';
+      (selectionChecker as any).configLoader.loadZone = jest.fn(
+        async () => null
+      );
+      (selectionChecker as any).configLoader.getAllDefaultRules = jest.fn(
+        () => [
+          { id: 'naming/hook-naming', name: 'Hook naming', category: 'naming' },
+          {
+            id: 'naming/interface-naming',
+            name: 'Interface naming',
+            category: 'naming',
+          },
+        ]
+      );
+      return selectionChecker;
+    };
+
+    await expect(
+      createChecker({ rule: ['naming/hook-naming', 'naming/nope'] }).run()
+    ).rejects.toThrow('Unknown rules: naming/nope');
+    await expect(
+      createChecker({ rule: ['naming/hook-naming'] }).run()
+    ).rejects.toThrow(
+      'Rules disabled in the configuration: naming/hook-naming'
+    );
+    await expect(
+      createChecker({ skipRule: ['Interface naming'] }).run()
+    ).rejects.toThrow('Rules disabled in the configuration: Interface naming');
+    await expect(
+      createChecker({ rule: ['custom/no-todo'] }).run()
+    ).resolves.toBeDefined();
+  });
+
+  it('should reject the output formats before validating', async () => {
+    mockLoadAndLogConfig.mockResolvedValue({ zones: {} });
+    mockAnalyzeProject.mockResolvedValue({ zones: ['web'] });
+    const formatChecker = new FrontendStandardsChecker({
+      format: 'text,json',
+      output: '-',
+    });
+    (formatChecker as any).reporter.resolveFormatters = jest.fn(() => {
+      throw new Error('Only one output format can be streamed to stdout');
+    });
+
+    await expect(formatChecker.run()).rejects.toThrow(
+      'Only one output format can be streamed to stdout'
+    );
+    expect(mockProcessZone).not.toHaveBeenCalled();
+  });
+
   it('should handle errors in run()', async () => {
     jest.setTimeout(15000);
     mockLoadAndLogConfig.mockRejectedValue(new Error('fail'));
@@ -153,6 +330,30 @@ describe('FrontendStandardsChecker', () => {
     // No assertion, just coverage for the catch
   });
 
+  it('should start watch mode with the loaded configuration', async () => {
+    const { Watcher } = require('../core/watcher');
+    (checker as any).configLoader.resolveConfigPath = jest.fn(
+      () => '/tmp/project/checkFrontendStandards.config.mjs'
+    );
+    mockLoadAndLogConfig.mockResolvedValue({ zones: {} });
+    mockAnalyzeProject.mockResolvedValue({ zones: ['web'] });
+
+    const watcher = await checker.watch();
+    expect(watcher.start).toHaveBeenCalled();
+
+    const [rootDir, , , , options] = Watcher.mock.calls[0];
+    expect(rootDir).toBe('/tmp/project');
+    expect(options.configPath).toBe(
+      '/tmp/project/checkFrontendStandards.config.mjs'
+    );
+    await expect(options.load()).resolves.toEqual({
+      config: { zones: {} },
+      zones: ['web'],
+      zoneSetups: new Map(),
+    });
+    expect(mockProcessZone).not.toHaveBeenCalled();
+  });
+
   describe('determineZones', () => {
     it('should return zones from options if present', () => {
       const c = new FrontendStandardsChecker({ zones: ['a', 'b'] });
@@ -40,18 +40,13 @@ jest.unstable_mockModule('path', () => {
   };
   return { ...pathMock, default: pathMock };
 });
-jest.unstable_mockModule('../../utils/file-scanner.js', () => ({
-  isReactNativeProject: jest.fn(() => false),
-}));
 
 let validators: any;
 let isConfigOrConstantsFile: any;
-let isReactNativeProject: jest.Mock;
 
 beforeAll(async () => {
   validators = await import('../additional-validators.js');
   ({ isConfigOrConstantsFile } = await import('../../helpers/index.js'));
-  isReactNativeProject = jest.fn();
 });
 
 describe('additional-validators', () => {
@@ -92,9 +87,7 @@ describe('additional-validators', () => {
       );
     });
 
-    it('should skip React Native SVG files', () => {
-      // The actual implementation uses its own import of isReactNativeProject, so this mock has no effect.
-      // Instead, we expect the default behavior: error is returned for inline styles.
+    it('should report SVG files, which React Native projects skip through appliesTo', () => {
       const content = `style={{ color: 'red' }}`;
       const errors = validators.checkInlineStyles(
         content,
@@ -180,8 +173,7 @@ describe('additional-validators', () => {
       expect(errors).toHaveLength(0);
     });
 
-    it('should skip React Native asset paths', () => {
-      isReactNativeProject.mockReturnValue(true);
+    it('should report asset requires in components', () => {
       const content = `const image = require('./assets/test.png');`;
       const errors = validators.checkHardcodedData(
         content,
@@ -422,6 +414,16 @@ describe('additional-validators', () => {
       expect(error?.message).toContain('should have a .ts extension');
     });
 
+    it('should check the given content instead of the file on disk', () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue('return true;');
+      const error = validators.checkHookFileExtension(
+        '/path/to/hooks/useTest.hook.ts',
+        'return <div>Test</div>'
+      );
+      expect(error?.message).toContain('must have a .tsx extension');
+      expect(fs.readFileSync).not.toHaveBeenCalled();
+    });
+
     it('should skip if index.ts exists', () => {
       (fs.existsSync as jest.Mock).mockImplementation((...args: any[]) => {
         const path = args[0];
@@ -517,8 +519,7 @@ describe('additional-validators', () => {
     it('should return null for good asset name', () => {
       expect(validators.checkAssetNaming('/assets/foo-bar.svg')).toBeNull();
     });
-    it('should skip SVG in React Native', () => {
-      // El mock global de isReactNativeProject ya retorna false, así que solo cubrimos el path
+    it('should return null for SVG assets', () => {
       expect(validators.checkAssetNaming('/assets/Svg/test.svg')).toBeNull();
     });
   });
@@ -598,6 +599,16 @@ describe('additional-validators', () => {
         validators.checkNamingConventions('/foo/components/GoodName.tsx')
       ).toBeNull();
     });
+    it('should use the configured pattern of the directory', () => {
+      const options = { hooks: '^use[A-Z]\\w*\\.ts$' };
+      expect(
+        validators.checkNamingConventions('/foo/hooks/useData.ts', options)
+      ).toBeNull();
+      expect(
+        validators.checkNamingConventions('/foo/hooks/data.hook.ts', options)
+          ?.message
+      ).toBe('File names in hooks must match ^use[A-Z]\\w*\\.ts$');
+    });
   });
 
   describe('checkComponentStructure', () => {
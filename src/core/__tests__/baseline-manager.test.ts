@@ -0,0 +1,244 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BaselineManager } from '../baseline-manager';
+import type { IValidationError } from '../../types';
+
+const mockLogger = {
+  debug: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  info: jest.fn(),
+  verbose: jest.fn(),
+  levels: {},
+  currentLevel: 'debug',
+};
+
+const rootDir = '/project';
+
+const makeError = (
+  rule: string,
+  filePath: string,
+  line?: number
+): IValidationError => ({
+  rule,
+  message: `${rule} violation`,
+  filePath,
+  ...(line !== undefined ? { line } : {}),
+  severity: 'error',
+  category: 'content',
+});
+
+describe('BaselineManager', () => {
+  let files: Record<string, string>;
+  let manager: BaselineManager;
+
+  beforeEach(() => {
+    files = {
+      '/project/src/a.ts': 'const x = 1;\nvar a = 1;\nvar b = 2;\n',
+    };
+    manager = new BaselineManager(
+      rootDir,
+      mockLogger as any,
+      (filePath) => files[filePath] ?? null
+    );
+  });
+
+  it('creates entries keyed by relative path and line content', () => {
+    const baseline = manager.create({
+      src: [
+        makeError('No var', '/project/src/a.ts', 2),
+        makeError('No var', '/project/src/a.ts', 3),
+        makeError('Commented code', '/project/src/a.ts:2', 2),
+        { ...makeError('Present', 'src/a.ts'), message: 'Present: README' },
+      ],
+    });
+
+    expect(baseline.version).toBe(1);
+    expect(baseline.entries).toHaveLength(3);
+    expect(baseline.entries.map((e) => e.filePath)).toEqual([
+      'src/a.ts',
+      'src/a.ts',
+      'src/a.ts',
+    ]);
+  });
+
+  it('still matches violations after lines move', () => {
+    const baseline = manager.create({
+      src: [makeError('No var', '/project/src/a.ts', 2)],
+    });
+
+    files['/project/src/a.ts'] = '// header\n\nconst x = 1;\n  var a  = 1;\n';
+    manager = new BaselineManager(
+      rootDir,
+      mockLogger as any,
+      (filePath) => files[filePath] ?? null
+    );
+
+    const result = manager.apply(
+      { src: [makeError('No var', '/project/src/a.ts', 4)] },
+      baseline,
+      ['/project/src/a.ts']
+    );
+    expect(result.zoneErrors['src']).toEqual([]);
+    expect(result.suppressed).toBe(1);
+    expect(result.fixed).toEqual([]);
+  });
+
+  it('fingerprints violations against the validated content', () => {
+    manager.useContents(new Map([['/project/src/a.ts', 'var staged = 1;\n']]));
+    const baseline = manager.create({
+      src: [makeError('No var', '/project/src/a.ts', 1)],
+    });
+
+    files['/project/src/a.ts'] = 'var staged = 1;\n';
+    const result = new BaselineManager(
+      rootDir,
+      mockLogger as any,
+      (filePath) => files[filePath] ?? null
+    ).apply({ src: [makeError('No var', '/project/src/a.ts', 1)] }, baseline, [
+      '/project/src/a.ts',
+    ]);
+    expect(result.suppressed).toBe(1);
+  });
+
+  it('keys entries by rule ID so renamed rules keep matching', () => {
+    const baseline = manager.create({
+      src: [
+        {
+          ...makeError('No var', '/project/src/a.ts', 2),
+          ruleId: 'content/no-var',
+        },
+      ],
+    });
+    expect(baseline.entries[0]).toMatchObject({
+      rule: 'No var',
+      ruleId: 'content/no-var',
+    });
+
+    const result = manager.apply(
+      {
+        src: [
+          {
+            ...makeError('Avoid var', '/project/src/a.ts', 2),
+            ruleId: 'content/no-var',
+          },
+        ],
+      },
+      baseline,
+      ['/project/src/a.ts']
+    );
+    expect(result.suppressed).toBe(1);
+    expect(result.fixed).toEqual([]);
+  });
+
+  it('matches entries of baselines written before rule IDs', () => {
+    // Legacy entries are keyed and fingerprinted by the rule name
+    const legacy = manager.create({
+      src: [makeError('No var', '/project/src/a.ts', 2)],
+    });
+    expect(legacy.entries[0]).not.toHaveProperty('ruleId');
+
+    const result = manager.apply(
+      {
+        src: [
+          {
+            ...makeError('No var', '/project/src/a.ts', 2),
+            ruleId: 'content/no-var',
+          },
+          {
+            ...makeError('No var', '/project/src/a.ts', 3),
+            ruleId: 'content/no-var',
+          },
+        ],
+      },
+      legacy,
+      ['/project/src/a.ts']
+    );
+    expect(result.suppressed).toBe(1);
+    expect(result.zoneErrors['src']).toHaveLength(1);
+    expect(result.fixed).toEqual([]);
+  });
+
+  it('keeps new violations and reports fixed entries of validated files', () => {
+    const baseline = manager.create({
+      src: [
+        makeError('No var', '/project/src/a.ts', 2),
+        makeError('No var', '/project/src/a.ts', 3),
+        makeError('No var', '/project/src/other.ts'),
+      ],
+    });
+
+    const result = manager.apply(
+      {
+        src: [
+          makeError('No var', '/project/src/a.ts', 2),
+          makeError('No console.log', '/project/src/a.ts', 1),
+        ],
+      },
+      baseline,
+      ['/project/src/a.ts']
+    );
+
+    expect(result.zoneErrors['src']?.map((e) => e.rule)).toEqual([
+      'No console.log',
+    ]);
+    expect(result.suppressed).toBe(1);
+    // other.ts was not validated in this run, so it is not considered fixed
+    expect(result.fixed).toHaveLength(1);
+    expect(result.fixed[0]?.filePath).toBe('src/a.ts');
+
+    const pruned = manager.prune(baseline, result.fixed);
+    expect(pruned.entries).toHaveLength(2);
+  });
+
+  it('only suppresses as many occurrences as were recorded', () => {
+    files['/project/src/a.ts'] = 'var a = 1;\nvar a = 1;\n';
+    const baseline = manager.create({
+      src: [makeError('No var', '/project/src/a.ts', 1)],
+    });
+    const result = manager.apply(
+      {
+        src: [
+          makeError('No var', '/project/src/a.ts', 1),
+          makeError('No var', '/project/src/a.ts', 2),
+        ],
+      },
+      baseline,
+      ['/project/src/a.ts']
+    );
+    expect(result.suppressed).toBe(1);
+    expect(result.zoneErrors['src']).toHaveLength(1);
+  });
+
+  it('saves, loads and rejects missing or invalid files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fsc-baseline-'));
+    const baselinePath = path.join(dir, 'baseline.json');
+    try {
+      const baseline = manager.create({
+        src: [makeError('No var', '/project/src/a.ts', 2)],
+      });
+      manager.save(baselinePath, baseline);
+      expect(manager.load(baselinePath)).toEqual(baseline);
+
+      fs.writeFileSync(baselinePath, '{"version":2}');
+      expect(() => manager.load(baselinePath)).toThrow(
+        'Unsupported baseline file format'
+      );
+      expect(() => manager.load(path.join(dir, 'missing.json'))).toThrow(
+        'Baseline file not found'
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('resolves baseline paths against the root directory', () => {
+    expect(manager.resolvePath()).toBe(
+      path.join(rootDir, 'frontend-standards.baseline.json')
+    );
+    expect(manager.resolvePath('ci/baseline.json')).toBe(
+      path.join(rootDir, 'ci/baseline.json')
+    );
+  });
+});
@@ -382,12 +382,17 @@ describe('Cobertura total de reglas', () => {
   });
 });
 import { ConfigLoader } from '../config-loader';
+import { RuleEngine } from '../rule-engine';
+import { ConfigLoaderHelper } from '../../helpers/configLoader.helper';
+import { applyTextEdits } from '../../helpers/fix.helper';
 import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { jest } from '@jest/globals';
+import type { IStandardsConfiguration } from '../../types';
 // Mock the filesystem and other dependencies
 jest.mock('fs');
 jest.mock('../../utils/file-scanner');
-jest.mock('../additional-validators');
 
 describe('ConfigLoader', () => {
   describe('Cobertura máxima: edge/falsy para todas las reglas', () => {
@@ -770,7 +775,7 @@ describe('ConfigLoader', () => {
       expect(rule.check('', '/src/helpers/goodHelper.helper.ts')).toBe(false);
     });
     it('Style naming: triggers on bad style file name', () => {
-      const rules = (configLoader as any).getNamingRules();
+      const rules = (configLoader as any).getStyleRules();
       const rule = rules.find((r: any) => r.name === 'Style naming');
       expect(rule).toBeDefined();
       expect(rule.check('', '/src/styles/BadStyle.ts')).toBe(true);
@@ -838,8 +843,21 @@ describe('ConfigLoader', () => {
       expect(rule.check(big, '/src/components/BigComponent.tsx')).toBe(true);
       expect(rule.check('line\nline', '/src/components/Small.tsx')).toBe(false);
     });
-    it('No circular dependencies: triggers on self-import', () => {
+    it('Component size limit: reads the limit from its options', () => {
       const rules = (configLoader as any).getStructureRules();
+      const rule = rules.find((r: any) => r.name === 'Component size limit');
+      const content = Array(150).fill('line\n').join('\n');
+      const filePath = '/src/components/Big.tsx';
+      expect(rule.check(content, filePath, { maxLines: 250 })).toBe(true);
+      expect(
+        rule.check(content, filePath, {
+          maxLines: 250,
+          countBlankLines: false,
+        })
+      ).toBe(false);
+    });
+    it('No circular dependencies: triggers on self-import', () => {
+      const rules = (configLoader as any).getContentRules();
       const rule = rules.find(
         (r: any) => r.name === 'No circular dependencies'
       );
@@ -1087,6 +1105,545 @@ describe('error handling and edge cases', () => {
     expect(config.merge).toBe(true);
   });
 
+  it('should give custom rules without an id a custom/ id', async () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    (configLoader as any).setHelper({
+      tryLoadConfig: async () => [
+        { name: 'No pending tasks', check: () => false, message: 'm' },
+      ],
+    });
+    const config = await configLoader.load();
+    const ids = config.rules?.map((rule) => rule.id);
+    expect(ids).toContain('custom/no-pending-tasks');
+    expect(ids).toContain('content/no-console-log');
+  });
+
+  it('should give custom rules of overrides a custom/ id', async () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    (configLoader as any).setHelper({
+      tryLoadConfig: async () => ({
+        overrides: [
+          {
+            files: ['src/legacy/**'],
+            rules: [
+              { name: 'No legacy API', check: () => false, message: 'm' },
+            ],
+          },
+        ],
+      }),
+    });
+    const config = await configLoader.load();
+    expect(config.overrides?.[0]?.rules[0]?.id).toBe('custom/no-legacy-api');
+  });
+
+  it('should reject configurations with duplicate rule ids', async () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    (configLoader as any).setHelper({
+      tryLoadConfig: async () => [
+        {
+          id: 'content/no-var',
+          name: 'My var rule',
+          check: () => false,
+          message: 'm',
+        },
+      ],
+    });
+    await expect(configLoader.load()).rejects.toThrow(
+      'Duplicate rule IDs in configuration: content/no-var'
+    );
+  });
+
+  describe('strict configuration', () => {
+    const useConfig = (config: any) => {
+      jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+      (configLoader as any).setHelper({ tryLoadConfig: async () => config });
+    };
+
+    it('should warn about unknown keys and invalid severities', async () => {
+      useConfig({ rule: {}, rules: { 'content/no-var': 'fatal' } });
+      const config = await configLoader.load();
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Invalid configuration at rule: Unknown key "rule"'
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Invalid configuration at rules.content/no-var: Invalid severity "fatal"'
+        )
+      );
+      expect(config.merge).toBe(true);
+    });
+
+    it('should fail on configuration problems in strict mode', async () => {
+      useConfig({
+        rules: { 'content/no-vars': true, 'content/no-var': 'fatal' },
+      });
+
+      await expect(configLoader.load(null, { strict: true })).rejects.toThrow(
+        'Invalid configuration in /project/root/checkFrontendStandards.config.mjs:\n' +
+          '  rules.content/no-vars: Unknown rule "content/no-vars"\n' +
+          '  rules.content/no-var: Invalid severity "fatal"'
+      );
+    });
+
+    it('should fail when the config cannot be found or loaded in strict mode', async () => {
+      useConfig(undefined);
+      await expect(configLoader.load(null, { strict: true })).rejects.toThrow(
+        'Failed to load config from /project/root/checkFrontendStandards.config.mjs'
+      );
+
+      jest.spyOn(fs, 'existsSync').mockReturnValue(false);
+      await expect(
+        configLoader.load('missing.config.mjs', { strict: true })
+      ).rejects.toThrow('Config file not found: /project/root/missing.config.mjs');
+      const config = await configLoader.load(null, { strict: true });
+      expect(config.merge).toBe(true);
+    });
+
+    it('should return the problems found by validate', async () => {
+      useConfig({
+        zones: { onlyZone: 'apps' },
+        rules: { 'content/no-var': 'warning' },
+      });
+      expect(await configLoader.validate()).toEqual([]);
+
+      jest.spyOn(fs, 'existsSync').mockImplementation(
+        (filePath) => !String(filePath).endsWith('apps')
+      );
+      expect(await configLoader.validate()).toEqual([
+        {
+          kind: 'missing-zone',
+          path: 'zones.onlyZone',
+          message: 'Zone directory "apps" does not exist',
+        },
+      ]);
+    });
+  });
+
+  describe('config discovery', () => {
+    const useFiles = (files: Record<string, string>) => {
+      jest
+        .spyOn(fs, 'existsSync')
+        .mockImplementation((filePath) => String(filePath) in files);
+      jest
+        .spyOn(fs, 'readFileSync')
+        .mockImplementation((filePath) => files[String(filePath)] as any);
+    };
+
+    it('should pick config files in order of precedence', () => {
+      useFiles({
+        '/project/root/.frontendstandardsrc.yaml': '',
+        '/project/root/checkFrontendStandards.config.ts': '',
+        '/project/root/package.json': '{"frontendStandards": {}}',
+      });
+      expect(configLoader.resolveConfigPath()).toBe(
+        '/project/root/checkFrontendStandards.config.ts'
+      );
+    });
+
+    it('should search parent directories', () => {
+      useFiles({
+        '/project/root/package.json': '{"name": "app"}',
+        '/project/.frontendstandardsrc.json': '{}',
+      });
+      expect(configLoader.resolveConfigPath()).toBe(
+        '/project/.frontendstandardsrc.json'
+      );
+
+      useFiles({ '/package.json': '{"frontendStandards": {}}' });
+      expect(configLoader.resolveConfigPath()).toBe('/package.json');
+    });
+
+    it('should fall back to the default config file name', () => {
+      useFiles({});
+      expect(configLoader.resolveConfigPath()).toBe(
+        '/project/root/checkFrontendStandards.config.mjs'
+      );
+    });
+
+    it('should load JSON, YAML and package.json configs', async () => {
+      useFiles({
+        '/project/root/.frontendstandardsrc.yml':
+          'rules:\n  content/no-var: warning\nzones:\n  includePackages: true\n',
+      });
+      let config = await configLoader.load();
+      expect(config.zones?.includePackages).toBe(true);
+      expect(
+        config.rules?.find((rule) => rule.id === 'content/no-var')?.severity
+      ).toBe('warning');
+
+      useFiles({
+        '/project/root/package.json': JSON.stringify({
+          name: 'app',
+          frontendStandards: { rules: { 'content/no-var': 'info' } },
+        }),
+      });
+      config = await configLoader.load();
+      expect(config.rules?.map((rule) => [rule.id, rule.severity])).toEqual([
+        ['content/no-var', 'info'],
+      ]);
+
+      useFiles({ '/project/root/.frontendstandardsrc.json': '{ rules: }' });
+      await expect(configLoader.load(null, { strict: true })).rejects.toThrow(
+        SyntaxError
+      );
+    });
+
+    it('should transpile TypeScript configs to ES modules', async () => {
+      const output = await new ConfigLoaderHelper(
+        mockLogger
+      ).transpileTypeScriptConfig(
+        [
+          "import type { IStandardsConfigurationInput } from 'frontend-standards-checker';",
+          "const config: IStandardsConfigurationInput = { rules: { 'content/no-var': 'warning' } };",
+          'export default config;',
+        ].join('\n'),
+        'checkFrontendStandards.config.ts'
+      );
+
+      expect(output).not.toContain('IStandardsConfigurationInput');
+      expect(output).toContain('export default config;');
+    });
+  });
+
+  describe('zone configs', () => {
+    const useFiles = (files: Record<string, string>) => {
+      jest
+        .spyOn(fs, 'existsSync')
+        .mockImplementation((filePath) => String(filePath) in files);
+      jest
+        .spyOn(fs, 'readFileSync')
+        .mockImplementation((filePath) => files[String(filePath)] as any);
+    };
+    const severityOf = (
+      config: IStandardsConfiguration | null,
+      ruleId: string
+    ) => config?.rules?.find((rule) => rule.id === ruleId)?.severity;
+
+    it('should return null for zones without config files', async () => {
+      useFiles({
+        '/project/root/.frontendstandardsrc.json': '{}',
+        '/project/root/apps/.frontendstandardsrc.json': '{}',
+      });
+      await expect(configLoader.loadZone('packages/ui')).resolves.toBeNull();
+    });
+
+    it('should merge zone config files over the root config', async () => {
+      useFiles({
+        '/project/root/.frontendstandardsrc.json': JSON.stringify({
+          rules: { 'content/no-var': 'warning', 'content/no-alert': 'info' },
+          extensions: ['.ts'],
+        }),
+        '/project/root/apps/.frontendstandardsrc.json': JSON.stringify({
+          rules: { 'content/no-alert': 'error' },
+        }),
+        '/project/root/apps/web/.frontendstandardsrc.json': JSON.stringify({
+          rules: { 'content/no-var': false },
+          extensions: ['.ts', '.tsx'],
+        }),
+      });
+
+      const config = await configLoader.loadZone('apps/web');
+      expect(severityOf(config, 'content/no-var')).toBeUndefined();
+      expect(severityOf(config, 'content/no-alert')).toBe('error');
+      expect(config?.extensions).toEqual(['.ts', '.tsx']);
+      expect(config).not.toHaveProperty('root');
+    });
+
+    it('should stop the cascade at configs with root: true', async () => {
+      useFiles({
+        '/project/root/.frontendstandardsrc.json': JSON.stringify({
+          rules: { 'content/no-var': 'warning' },
+        }),
+        '/project/root/apps/web/.frontendstandardsrc.json': JSON.stringify({
+          root: true,
+          rules: { 'content/no-alert': 'info' },
+        }),
+      });
+
+      const config = await configLoader.loadZone('apps/web');
+      expect(severityOf(config, 'content/no-alert')).toBe('info');
+      expect(severityOf(config, 'content/no-var')).toBeUndefined();
+    });
+
+    it('should make override globs of zone configs relative to the project', async () => {
+      useFiles({
+        '/project/root/apps/web/.frontendstandardsrc.json': JSON.stringify({
+          overrides: [
+            {
+              files: ['src/legacy/**', '*.test.ts'],
+              excludedFiles: ['src/legacy/keep.ts'],
+              rules: { 'content/no-var': false },
+            },
+          ],
+        }),
+      });
+
+      const config = await configLoader.loadZone('apps/web');
+      expect(config?.overrides?.[0]?.files).toEqual([
+        'apps/web/src/legacy/**',
+        '*.test.ts',
+      ]);
+      expect(config?.overrides?.[0]?.excludedFiles).toEqual([
+        'apps/web/src/legacy/keep.ts',
+      ]);
+    });
+
+    it('should reject root configs exporting a function in strict mode', async () => {
+      useFiles({
+        '/project/root/checkFrontendStandards.config.mjs': '',
+        '/project/root/apps/web/.frontendstandardsrc.json': '{}',
+      });
+      const helper = (configLoader as any).helper;
+      const tryLoadConfig = helper.tryLoadConfig.bind(helper);
+      jest
+        .spyOn(helper, 'tryLoadConfig')
+        .mockImplementation(async (configPath: any) =>
+          configPath.endsWith('.mjs') ? () => [] : tryLoadConfig(configPath)
+        );
+
+      await expect(
+        configLoader.loadZone('apps/web', null, { strict: true })
+      ).rejects.toThrow('exports a function');
+      await expect(configLoader.loadZone('apps/web')).resolves.toBeNull();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Failed to load config from /project/root/apps/web/.frontendstandardsrc.json:',
+        expect.stringContaining('set root: true')
+      );
+    });
+  });
+
+  describe('profiles', () => {
+    const severities = (config: IStandardsConfiguration) =>
+      Object.fromEntries(
+        (config.rules ?? []).map((rule) => [
+          rule.id ?? rule.name,
+          rule.severity,
+        ])
+      );
+
+    it('should take the default rules from the profile', () => {
+      const rules = severities(
+        configLoader.mergeWithDefaults({ profile: ['strict', 'next'] })
+      );
+      expect(rules['typescript/no-any-type']).toBe('error');
+      expect(rules['structure/missing-test-files']).toBe('warning');
+      expect(rules['naming/next-js-app-router-naming']).toBe('error');
+      expect(rules).not.toHaveProperty(
+        'structure/platform-specific-code-organization'
+      );
+    });
+
+    it('should merge object format rules over the profile', () => {
+      const rules = severities(
+        configLoader.mergeWithDefaults({
+          profile: 'recommended',
+          rules: {
+            'content/no-var': false,
+            'structure/gitflow-branch-naming-convention': 'warning',
+          },
+        })
+      );
+      expect(rules).not.toHaveProperty('content/no-var');
+      expect(rules['structure/gitflow-branch-naming-convention']).toBe(
+        'warning'
+      );
+      expect(rules['content/no-alert']).toBe('error');
+    });
+
+    it('should merge rules referenced by name over the profile', () => {
+      const config = configLoader.mergeWithDefaults({
+        profile: 'recommended',
+        rules: { 'No console.log': 'warning', 'No var': false },
+      });
+      const ruleIds = (config.rules ?? []).map((rule) => rule.id);
+
+      expect(
+        ruleIds.filter((ruleId) => ruleId === 'content/no-console-log')
+      ).toHaveLength(1);
+      expect(severities(config)['content/no-console-log']).toBe('warning');
+      expect(ruleIds).not.toContain('content/no-var');
+      expect(config.disabledRules).toContain('content/no-var');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Rule name "No console.log" is deprecated, use "content/no-console-log" instead'
+      );
+    });
+
+    it('should add custom rules to the rules of the profile', () => {
+      const config = configLoader.mergeWithDefaults({
+        profile: 'legacy',
+        rules: [
+          {
+            id: 'custom/no-todo',
+            name: 'No TODO',
+            check: () => false,
+            message: 'No TODO',
+          },
+        ],
+      });
+      const rules = severities(config);
+      expect(rules['content/no-var']).toBe('warning');
+      expect(rules).not.toHaveProperty('naming/component-naming');
+      expect(config.rules?.at(-1)?.id).toBe('custom/no-todo');
+      expect(config.profile).toBe('legacy');
+    });
+
+    it('should not report inline styles in the react-native layer', async () => {
+      const config = configLoader.mergeWithDefaults({
+        profile: ['recommended', 'react-native'],
+      });
+      const ruleEngine = new RuleEngine({
+        ...mockLogger,
+        debug: jest.fn(),
+      } as any);
+      ruleEngine.initialize(config, { rootDir: '/project/root' });
+
+      const errors = await ruleEngine.validateFile(
+        '/project/root/src/components/Card.tsx',
+        'export const Card = () => <View style={{ flex: 1 }} />;\n'
+      );
+
+      expect(config.disabledRules).toContain('content/no-inline-styles');
+      expect(errors.map((error) => error.ruleId)).not.toContain(
+        'content/no-inline-styles'
+      );
+    });
+
+    it('should configure the rules reported by the validators', () => {
+      const legacy = configLoader.mergeWithDefaults({ profile: 'legacy' });
+      expect(severities(legacy)['content/hardcoded-data']).toBe('warning');
+      expect(legacy.disabledRules).toEqual(
+        expect.arrayContaining([
+          'naming/interface-naming',
+          'style/style-naming',
+          'structure/component-structure',
+        ])
+      );
+
+      const strict = configLoader.mergeWithDefaults({ profile: 'strict' });
+      expect(severities(strict)['content/no-unused-variables']).toBe('error');
+      expect(strict.disabledRules ?? []).not.toContain(
+        'naming/interface-naming'
+      );
+    });
+  });
+
+  describe('extends', () => {
+    const configPath = '/project/root/checkFrontendStandards.config.mjs';
+    const useConfigs = (configs: Record<string, any>) => {
+      jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+      const helper = new ConfigLoaderHelper(mockLogger);
+      helper.tryLoadConfig = async (filePath: string) => configs[filePath];
+      (configLoader as any).setHelper(helper);
+    };
+
+    it('should merge presets under the config, in order', async () => {
+      useConfigs({
+        [configPath]: {
+          extends: ['./presets/base.mjs', './presets/react.mjs'],
+          rules: { 'content/no-var': 'warning' },
+          zones: { includePackages: true },
+          ignorePatterns: ['generated'],
+        },
+        '/project/root/presets/base.mjs': {
+          rules: { 'content/no-var': 'error', 'content/no-console-log': true },
+          zones: { customZones: ['apps'], includePackages: false },
+          extensions: ['.ts'],
+          ignorePatterns: ['dist'],
+        },
+        '/project/root/presets/react.mjs': {
+          extensions: ['.ts', '.tsx'],
+          ignorePatterns: ['dist', 'storybook-static'],
+        },
+      });
+
+      const config = await configLoader.load();
+
+      expect(config.rules?.map((rule) => [rule.id, rule.severity])).toEqual([
+        ['content/no-var', 'warning'],
+        ['content/no-console-log', 'error'],
+      ]);
+      expect(config.zones).toEqual({
+        customZones: ['apps'],
+        includePackages: true,
+      });
+      expect(config.extensions).toEqual(['.ts', '.tsx']);
+      expect(config.ignorePatterns).toEqual([
+        'dist',
+        'storybook-static',
+        'generated',
+      ]);
+    });
+
+    it('should resolve nested presets relative to the extending file', async () => {
+      useConfigs({
+        [configPath]: { extends: './presets/react.mjs' },
+        '/project/root/presets/react.mjs': {
+          extends: '../shared/base.mjs',
+          rules: { 'content/no-var': true },
+        },
+        '/project/root/shared/base.mjs': {
+          rules: { 'content/no-console-log': 'info' },
+        },
+      });
+
+      const config = await configLoader.load();
+
+      expect(config.rules?.map((rule) => rule.id)).toEqual([
+        'content/no-console-log',
+        'content/no-var',
+      ]);
+    });
+
+    it('should reject cycles in the extends chain', async () => {
+      useConfigs({
+        [configPath]: { extends: './a.mjs' },
+        '/project/root/a.mjs': { extends: './b.mjs' },
+        '/project/root/b.mjs': { extends: './a.mjs' },
+      });
+
+      await expect(configLoader.load()).rejects.toThrow(
+        `Circular extends in configuration: ${configPath} -> /project/root/a.mjs -> /project/root/b.mjs -> /project/root/a.mjs`
+      );
+    });
+
+    it('should reject presets that cannot be found or loaded', async () => {
+      useConfigs({ [configPath]: { extends: '@acme/missing-preset' } });
+      await expect(configLoader.load()).rejects.toThrow(
+        `Cannot find config preset "@acme/missing-preset" extended by ${configPath}`
+      );
+
+      useConfigs({ [configPath]: { extends: './broken.mjs' } });
+      await expect(configLoader.load()).rejects.toThrow(
+        `Failed to load config preset "./broken.mjs" extended by ${configPath}`
+      );
+    });
+
+    it('should resolve package presets from node_modules', () => {
+      // fs is mocked in this file
+      const realFs = jest.requireActual<typeof fs>('fs');
+      const dir = realFs.mkdtempSync(
+        path.join(os.tmpdir(), 'standards-extends-')
+      );
+      const presetDir = path.join(dir, 'node_modules', '@acme', 'preset');
+      realFs.mkdirSync(presetDir, { recursive: true });
+      realFs.writeFileSync(
+        path.join(presetDir, 'package.json'),
+        JSON.stringify({ name: '@acme/preset', main: 'index.js' })
+      );
+      realFs.writeFileSync(path.join(presetDir, 'index.js'), '');
+      const localConfig = path.join(dir, 'checkFrontendStandards.config.mjs');
+
+      try {
+        expect(
+          (configLoader as any)['resolvePresetPath']('@acme/preset', localConfig)
+        ).toBe(realFs.realpathSync(path.join(presetDir, 'index.js')));
+      } finally {
+        realFs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
   it('should resolve absolute and relative config paths', () => {
     const abs = (configLoader as any)['resolveConfigPath'](
       '/abs/path/config.js'
@@ -1672,8 +2229,8 @@ describe('constructor', () => {
     it('should handle config with rules object format', () => {
       const config = {
         rules: {
-          'No console.log': 'error',
-          'Component naming': true,
+          'content/no-console-log': 'error',
+          'naming/component-naming': true,
         },
       };
 
@@ -1685,6 +2242,194 @@ describe('constructor', () => {
       expect(mockLogger.warn).not.toHaveBeenCalled();
     });
 
+    it('should accept deprecated rule names in object format', () => {
+      const config = {
+        rules: {
+          'No console.log': 'warning',
+          'Component size limit': true,
+          'style/no-inline-styles': 'warning',
+        },
+      };
+
+      const result = configLoader.mergeWithDefaults(config as any);
+
+      expect(result.rules?.map((rule) => [rule.id, rule.severity])).toEqual([
+        ['content/no-console-log', 'warning'],
+        ['structure/component-size-limit', 'warning'],
+        ['content/no-inline-styles', 'warning'],
+      ]);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Rule name "No console.log" is deprecated, use "content/no-console-log" instead'
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Rule name "Component size limit" is deprecated, use "structure/component-size-limit" instead'
+      );
+    });
+
+    it('should give each display name a single rule ID', () => {
+      const rules = configLoader.getAllDefaultRules();
+      const idsByName = new Map<string, string[]>();
+      for (const rule of rules) {
+        idsByName.set(rule.name, [
+          ...(idsByName.get(rule.name) ?? []),
+          rule.id!,
+        ]);
+      }
+      const ambiguous = [...idsByName].filter(([, ids]) => ids.length > 1);
+      expect(ambiguous).toEqual([]);
+
+      const references = rules.flatMap((rule) => [
+        rule.id!,
+        ...(rule.aliases ?? []),
+      ]);
+      expect(new Set(references).size).toBe(references.length);
+    });
+
+    it('should apply severity and options in object format', () => {
+      const config = {
+        rules: {
+          'structure/component-size-limit': [
+            'error',
+            { maxLines: 300, countBlankLines: false },
+          ],
+        },
+      };
+
+      const result = configLoader.mergeWithDefaults(config as any);
+
+      expect(result.rules).toHaveLength(1);
+      expect(result.rules?.[0]).toMatchObject({
+        id: 'structure/component-size-limit',
+        severity: 'error',
+        options: { maxLines: 300, countBlankLines: false },
+      });
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should warn about invalid rule options and keep the defaults', () => {
+      const config = {
+        rules: {
+          'structure/component-size-limit': [
+            'warning',
+            { maxLines: 'many', maxDepth: 3 },
+          ],
+        },
+      };
+
+      const result = configLoader.mergeWithDefaults(config as any);
+
+      expect(result.rules?.[0]?.options).toEqual({});
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Invalid options for rule "structure/component-size-limit": option "maxLines" must be of type number'
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Invalid options for rule "structure/component-size-limit": unknown option "maxDepth"'
+      );
+    });
+
+    it('should apply the config file and file naming pattern options', () => {
+      const result = configLoader.mergeWithDefaults({
+        rules: {
+          'naming/hook-naming': [
+            'error',
+            { configFilePatterns: ['^legacy\\.'] },
+          ],
+          'naming/file-naming': [
+            'error',
+            { hooks: '^use[A-Z]\\w*\\.ts$', pages: '.*' },
+          ],
+        },
+      });
+
+      const hookNaming = result.rules?.find(
+        (rule) => rule.id === 'naming/hook-naming'
+      );
+      const options = hookNaming?.options ?? {};
+      expect(
+        hookNaming?.check(
+          '',
+          '/project/root/src/hooks/legacy.hooks.ts',
+          options
+        )
+      ).toBe(false);
+      expect(
+        hookNaming?.check('', '/project/root/src/hooks/legacyHooks.ts', options)
+      ).toBe(true);
+      expect(
+        result.rules?.find((rule) => rule.id === 'naming/file-naming')?.options
+      ).toEqual({ hooks: '^use[A-Z]\\w*\\.ts$' });
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Invalid options for rule "naming/file-naming": unknown option "pages"'
+      );
+    });
+
+    it('should resolve the rules of overrides', () => {
+      const customRule = {
+        name: 'No legacy API',
+        check: () => false,
+        message: 'm',
+      };
+      const config = {
+        rules: { 'content/no-var': 'error' },
+        overrides: [
+          {
+            files: ['src/legacy/**'],
+            excludedFiles: ['src/legacy/keep/**'],
+            rules: {
+              'content/no-var': 'warning',
+              'content/no-console-log': true,
+              'structure/component-size-limit': false,
+            },
+          },
+          { files: ['**/*.stories.tsx'], rules: [customRule] },
+        ],
+      };
+
+      const result = configLoader.mergeWithDefaults(config as any);
+
+      expect(result.rules?.map((rule) => rule.id)).toEqual(['content/no-var']);
+      const [legacy, stories] = result.overrides!;
+      expect(legacy?.files).toEqual(['src/legacy/**']);
+      expect(legacy?.excludedFiles).toEqual(['src/legacy/keep/**']);
+      expect(legacy?.rules.map((rule) => [rule.id, rule.severity])).toEqual([
+        ['content/no-var', 'warning'],
+        ['content/no-console-log', 'error'],
+      ]);
+      expect(legacy?.disabledRules).toEqual([
+        'structure/component-size-limit',
+      ]);
+      expect(stories).toEqual({
+        files: ['**/*.stories.tsx'],
+        rules: [customRule],
+        disabledRules: [],
+      });
+    });
+
+    it('should resolve the rules reported by the additional validators', () => {
+      const result = configLoader.mergeWithDefaults({
+        rules: { 'content/commented-code': false },
+        overrides: [
+          {
+            files: ['src/components/**'],
+            rules: {
+              'style/no-inline-styles': false,
+              'content/hardcoded-data': 'warning',
+            },
+          },
+        ],
+      });
+
+      expect(result.disabledRules).toEqual(['content/commented-code']);
+      const [components] = result.overrides!;
+      expect(components?.rules.map((rule) => [rule.id, rule.severity])).toEqual(
+        [['content/hardcoded-data', 'warning']]
+      );
+      expect(components?.disabledRules).toEqual(['style/no-inline-styles']);
+      expect(mockLogger.warn).not.toHaveBeenCalledWith(
+        expect.stringContaining('Unknown rule')
+      );
+    });
+
     it('should handle unknown rules in object format', () => {
       const config = {
         rules: {
@@ -1919,6 +2664,132 @@ describe('constructor', () => {
     });
   });
 
+  describe('auto-fix', () => {
+    const fix = (getter: string, name: string, content: string, file = '') => {
+      const rule = (configLoader as any)
+        [getter]()
+        .find((r: any) => r.name === name);
+      return applyTextEdits(content, rule.fix(content, file)).content;
+    };
+
+    it('should replace var with let outside comments', () => {
+      expect(
+        fix('getContentRules', 'No var', '// var a\nvar b = 1;\nvar [c] = d;')
+      ).toBe('// var a\nlet b = 1;\nlet [c] = d;');
+    });
+
+    it('should keep var when let would change the behavior', () => {
+      const content = 'if (x) { var y = 1; }\nuse(y);';
+      expect(fix('getContentRules', 'No var', content)).toBe(content);
+    });
+
+    it('should remove standalone console.log statements', () => {
+      const content = [
+        'const a = 1;',
+        'console.log(a);',
+        '  console.log("(", {',
+        '    a,',
+        '  });',
+        'foo(console.log("kept"));',
+        'console.log(a), other();',
+      ].join('\n');
+      expect(fix('getContentRules', 'No console.log', content)).toBe(
+        [
+          'const a = 1;',
+          'foo(console.log("kept"));',
+          'console.log(a), other();',
+        ].join('\n')
+      );
+    });
+
+    it('should rename local interfaces and leave exported ones', () => {
+      const content = [
+        'interface Props { a: string }',
+        'export interface State { b: Props }',
+        'const Foo = (p: Props) => p.Props;',
+      ].join('\n');
+      expect(
+        fix('getNamingRules', 'Interface naming with I prefix', content)
+      ).toBe(
+        [
+          'interface IProps { a: string }',
+          'export interface State { b: IProps }',
+          'const Foo = (p: IProps) => p.Props;',
+        ].join('\n')
+      );
+      const clash = 'interface Props {}\ninterface IProps {}';
+      expect(
+        fix('getNamingRules', 'Interface naming with I prefix', clash)
+      ).toBe(clash);
+    });
+
+    it('should add the use client directive', () => {
+      expect(
+        fix(
+          'getReactRules',
+          'Client component directive',
+          'useState();',
+          '/project/app/page.tsx'
+        )
+      ).toBe("'use client';\n\nuseState();");
+    });
+
+    it('should rewrite React.FC components with typed props', () => {
+      const content = [
+        'export const A: React.FC<IProps> = ({ a }) => <div>{a}</div>;',
+        'const B: React.FunctionComponent = () => null;',
+        'const C: React.FC = (props) => null;',
+      ].join('\n');
+      expect(fix('getReactRules', 'Avoid React.FC', content)).toBe(
+        [
+          'export const A = ({ a }: IProps) => <div>{a}</div>;',
+          'const B = () => null;',
+          'const C: React.FC = (props) => null;',
+        ].join('\n')
+      );
+    });
+
+    it('should sort single-line imports by group', () => {
+      const content = [
+        "import { a } from './a';",
+        "import b from '@/b';",
+        "import React from 'react';",
+        '',
+        'a(b, React);',
+      ].join('\n');
+      expect(fix('getImportRules', 'Import order', content)).toBe(
+        [
+          "import React from 'react';",
+          "import b from '@/b';",
+          "import { a } from './a';",
+          '',
+          'a(b, React);',
+        ].join('\n')
+      );
+      const sideEffect = "import './a.css';\nimport x from 'x';";
+      expect(fix('getImportRules', 'Import order', sideEffect)).toBe(
+        sideEffect
+      );
+    });
+
+    it('should remove unused imports and unused names', () => {
+      const content = [
+        "import { a, b as c } from './a';",
+        "import Foo, { useBar, useBaz } from 'foo';",
+        "import * as utils from './utils';",
+        "import unused from './unused';",
+        'useBar(Foo, a, c);',
+      ].join('\n');
+      expect(fix('getImportRules', 'No unused imports', content)).toBe(
+        [
+          "import { a, b as c } from './a';",
+          "import Foo, { useBar } from 'foo';",
+          'useBar(Foo, a, c);',
+        ].join('\n')
+      );
+    });
+  });
+
   // Additional tests for specific rule categories
   describe('rule categories', () => {
     it('should have structure rules', () => {
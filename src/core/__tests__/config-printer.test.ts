@@ -0,0 +1,185 @@
+import {
+  describeConfiguration,
+  describeFileRules,
+  findFileZone,
+  formatConfiguration,
+} from '../config-printer';
+import { RuleEngine } from '../rule-engine';
+import type { IStandardsConfiguration, IValidationRule } from '../../types';
+
+const createDefaultRules = (): IValidationRule[] => [
+  {
+    id: 'content/no-var',
+    name: 'No var',
+    check: (content) => content.includes('var '),
+    message: 'Use let or const instead of var',
+    category: 'content',
+    severity: 'error',
+  },
+  {
+    id: 'structure/component-size-limit',
+    name: 'Component size limit',
+    check: (content, _filePath, options) =>
+      content.split('\n').length > (options?.['maxLines'] as number),
+    message: 'Component is too large',
+    category: 'structure',
+    severity: 'warning',
+    optionsSchema: { maxLines: { type: 'number', default: 200 } },
+  },
+  {
+    id: 'content/no-console-log',
+    name: 'No console.log',
+    check: (content) => content.includes('console.log'),
+    message: 'No console.log',
+    category: 'content',
+    severity: 'error',
+  },
+];
+
+describe('config-printer', () => {
+  const logger: any = { debug: jest.fn(), warn: jest.fn(), info: jest.fn() };
+  const [noVar, sizeLimit, noConsole] = createDefaultRules();
+  const config: IStandardsConfiguration = {
+    rules: [
+      noVar!,
+      { ...sizeLimit!, options: { maxLines: 300 } },
+      { ...noConsole!, check: () => false },
+      {
+        id: 'custom/no-todo',
+        name: 'No TODO',
+        check: () => false,
+        message: 'No TODO',
+        severity: 'warning',
+      },
+    ],
+    zones: { includePackages: false },
+    extensions: ['.ts', '.tsx'],
+    ignorePatterns: ['dist'],
+    overrides: [
+      {
+        files: ['src/legacy/**'],
+        excludedFiles: ['**/*.test.ts'],
+        rules: [{ ...noVar!, severity: 'warning' }],
+        disabledRules: ['custom/no-todo'],
+      },
+    ],
+  };
+
+  it('describes every rule with its origin', () => {
+    // Built-in rules are recreated on every load
+    const description = describeConfiguration(
+      config,
+      createDefaultRules(),
+      '/project/checkFrontendStandards.config.mjs'
+    );
+
+    expect(
+      description.rules.map((rule) => [rule.id, rule.severity, rule.origin])
+    ).toEqual([
+      ['content/no-var', 'error', 'default'],
+      ['structure/component-size-limit', 'warning', 'modified'],
+      ['content/no-console-log', 'error', 'modified'],
+      ['custom/no-todo', 'warning', 'custom'],
+    ]);
+    expect(description.rules[1]!.options).toEqual({ maxLines: 300 });
+    expect(description.overrides).toEqual([
+      {
+        files: ['src/legacy/**'],
+        excludedFiles: ['**/*.test.ts'],
+        rules: ['content/no-var'],
+        disabledRules: ['custom/no-todo'],
+      },
+    ]);
+  });
+
+  it('lists the rules that apply to a file', () => {
+    const ruleEngine = new RuleEngine(logger);
+    ruleEngine.initialize(config, { rootDir: '/project' });
+    const defaultRules = createDefaultRules();
+
+    const legacy = describeFileRules(
+      'src/legacy/old.ts',
+      '/project',
+      config,
+      ruleEngine,
+      defaultRules
+    );
+    expect(legacy.path).toBe('src/legacy/old.ts');
+    expect(legacy.rules.map((rule) => [rule.id, rule.severity])).toEqual([
+      ['content/no-var', 'warning'],
+      ['structure/component-size-limit', 'warning'],
+      ['content/no-console-log', 'error'],
+    ]);
+
+    expect(
+      describeFileRules(
+        '/project/src/styles.css',
+        '/project',
+        config,
+        ruleEngine,
+        defaultRules
+      )
+    ).toEqual({
+      path: 'src/styles.css',
+      skipped: '".css" is not in extensions',
+      rules: [],
+    });
+  });
+
+  it('finds the innermost zone of a file', () => {
+    const zones = ['.', 'apps/web', 'apps/web/src', 'apps/webview'];
+    expect(findFileZone('apps/web/src/page.tsx', zones)).toBe('apps/web/src');
+    expect(findFileZone('apps/webview/page.tsx', zones)).toBe('apps/webview');
+    expect(findFileZone('scripts/build.ts', zones)).toBe('.');
+    expect(findFileZone('scripts/build.ts', ['apps/web'])).toBeUndefined();
+  });
+
+  it('formats the description as text', () => {
+    const ruleEngine = new RuleEngine(logger);
+    ruleEngine.initialize(config, { rootDir: '/project' });
+    const description = describeConfiguration(
+      config,
+      createDefaultRules(),
+      null
+    );
+    description.file = describeFileRules(
+      'vite.config.ts',
+      '/project',
+      config,
+      ruleEngine,
+      createDefaultRules()
+    );
+
+    const lines = formatConfiguration(description).split('\n');
+    expect(lines[0]).toBe('Configuration: built-in defaults');
+    expect(lines).toContain(
+      '  structure/component-size-limit  warning   structure  modified  Component size limit {"maxLines":300}'
+    );
+    expect(lines).toContain('Extensions: .ts, .tsx');
+    expect(lines).toContain(
+      '  src/legacy/** (except **/*.test.ts): sets content/no-var; disables custom/no-todo'
+    );
+    expect(lines[lines.length - 1]).toBe(
+      'vite.config.ts is not validated: configuration files are not validated'
+    );
+  });
+
+  it('names the zone whose config files apply to the file', () => {
+    const description = describeConfiguration(
+      config,
+      createDefaultRules(),
+      null
+    );
+    description.file = {
+      path: 'apps/web/page.tsx',
+      zone: 'apps/web',
+      rules: [],
+    };
+
+    const lines = formatConfiguration(description).split('\n');
+    expect(lines.slice(-3, -1)).toEqual([
+      'Zone apps/web has configuration files of its own',
+      'Rules for apps/web/page.tsx (0):',
+    ]);
+  });
+});
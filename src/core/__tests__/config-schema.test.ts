@@ -0,0 +1,195 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildConfigSchema, findConfigProblems } from '../config-schema';
+import { ConfigLoader } from '../config-loader';
+import type { IValidationRule } from '../../types';
+
+const rules: IValidationRule[] = [
+  {
+    id: 'content/no-var',
+    name: 'No var',
+    check: () => false,
+    message: 'Use let or const instead of var',
+    category: 'content',
+    severity: 'error',
+  },
+  {
+    id: 'structure/component-size-limit',
+    name: 'Component size limit',
+    check: () => false,
+    message: 'Component is too large',
+    category: 'structure',
+    severity: 'warning',
+    optionsSchema: { maxLines: { type: 'number', default: 200 } },
+  },
+];
+
+describe('config-schema', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'standards-schema-'));
+    fs.mkdirSync(path.join(rootDir, 'apps'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('builds a schema with the rules and their options', () => {
+    const schema = buildConfigSchema(rules) as any;
+    const ruleSchema =
+      schema.properties.rules.properties['structure/component-size-limit'];
+
+    expect(schema.additionalProperties).toBe(false);
+    expect(Object.keys(schema.properties.rules.properties)).toEqual([
+      'content/no-var',
+      'structure/component-size-limit',
+    ]);
+    expect(ruleSchema.description).toBe('Component is too large');
+    expect(ruleSchema.oneOf[2].items[1].properties.maxLines).toEqual({
+      type: 'number',
+      default: 200,
+    });
+    expect(schema.properties.overrides.items.properties.rules).toBe(
+      schema.properties.rules
+    );
+  });
+
+  it('matches the published schema file', () => {
+    const logger: any = { info: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+    const defaultRules = new ConfigLoader(rootDir, logger).getAllDefaultRules();
+    const published = JSON.parse(
+      fs.readFileSync(
+        path.resolve(__dirname, '../../../checkFrontendStandards.schema.json'),
+        'utf8'
+      )
+    );
+
+    // Regenerate with `yarn schema` after changing rules
+    expect(published).toEqual(
+      JSON.parse(JSON.stringify(buildConfigSchema(defaultRules)))
+    );
+  });
+
+  it('accepts a valid configuration', () => {
+    expect(
+      findConfigProblems(
+        {
+          $schema: './checkFrontendStandards.schema.json',
+          rules: {
+            'content/no-var': 'warning',
+            'Component size limit': ['error', { maxLines: 300 }],
+          },
+          profile: ['recommended', 'next'],
+          zones: { customZones: ['apps'], includePackages: false },
+          overrides: [{ files: ['**/*.test.ts'], rules: { 'No var': false } }],
+          performance: { maxConcurrentFiles: 2 },
+        },
+        rules,
+        rootDir
+      )
+    ).toEqual([]);
+  });
+
+  it('reports unknown keys, rules, severities and options', () => {
+    const problems = findConfigProblems(
+      {
+        rule: {},
+        rules: {
+          'content/no-vars': true,
+          'content/no-var': 'fatal',
+          'structure/component-size-limit': ['warning', { maxLine: 100 }],
+        },
+        cache: { enabled: true, size: 10 },
+      } as any,
+      rules,
+      rootDir
+    );
+
+    expect(problems.map((problem) => [problem.kind, problem.path])).toEqual([
+      ['unknown-key', 'rule'],
+      ['unknown-key', 'cache.size'],
+      ['unknown-rule', 'rules.content/no-vars'],
+      ['invalid-severity', 'rules.content/no-var'],
+      ['invalid-option', 'rules.structure/component-size-limit'],
+    ]);
+    expect(problems[4]!.message).toBe('unknown option "maxLine"');
+  });
+
+  it('reports invalid profiles', () => {
+    expect(
+      findConfigProblems({ profile: ['strict', 'legacy'] }, rules, rootDir)
+    ).toEqual([
+      {
+        kind: 'invalid-value',
+        path: 'profile',
+        message: 'Only one base profile can be used, got strict and legacy',
+      },
+    ]);
+  });
+
+  it('reports zones that do not exist', () => {
+    const problems = findConfigProblems(
+      { zones: { customZones: ['apps', 'packages/ui'], onlyZone: 'web' } },
+      rules,
+      rootDir
+    );
+
+    expect(problems).toEqual([
+      {
+        kind: 'missing-zone',
+        path: 'zones.customZones[1]',
+        message: 'Zone directory "packages/ui" does not exist',
+      },
+      {
+        kind: 'missing-zone',
+        path: 'zones.onlyZone',
+        message: 'Zone directory "web" does not exist',
+      },
+    ]);
+  });
+
+  it('reports zone patterns that match no directory', () => {
+    fs.mkdirSync(path.join(rootDir, 'apps/web/src'), { recursive: true });
+    const problems = findConfigProblems(
+      { zones: { customZones: ['apps/*/src', 'packages/*'] } },
+      rules,
+      rootDir
+    );
+
+    expect(problems).toEqual([
+      {
+        kind: 'missing-zone',
+        path: 'zones.customZones[1]',
+        message: 'Zone pattern "packages/*" matches no directory',
+      },
+    ]);
+  });
+
+  it('checks override rules against custom rules as well', () => {
+    const custom: IValidationRule = {
+      name: 'No lodash',
+      check: () => false,
+      message: 'Avoid lodash',
+      severity: 'bad' as any,
+    };
+    const problems = findConfigProblems(
+      {
+        rules: [custom],
+        overrides: [
+          { files: [], rules: { 'No lodash': 'info', 'No moment': true } },
+        ],
+      },
+      rules,
+      rootDir
+    );
+
+    expect(problems.map((problem) => [problem.kind, problem.path])).toEqual([
+      ['invalid-severity', 'rules[0].severity'],
+      ['invalid-value', 'overrides[0].files'],
+      ['unknown-rule', 'overrides[0].rules.No moment'],
+    ]);
+  });
+});
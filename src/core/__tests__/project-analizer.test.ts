@@ -59,6 +59,18 @@ describe('ProjectAnalyzer', () => {
       expect(type).toBe('react');
     });
 
+    it('should detect React Native project from package.json', () => {
+      jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+      jest.spyOn(fs, 'readFileSync').mockReturnValue(
+        JSON.stringify({
+          dependencies: { react: '^18.0.0', 'react-native': '^0.74.0' },
+        })
+      );
+
+      const type = analyzer.detectProjectType();
+      expect(type).toBe('react-native');
+    });
+
     it('should detect Angular project from package.json', () => {
       jest.spyOn(fs, 'existsSync').mockReturnValue(true);
       jest
@@ -135,6 +147,38 @@ describe('ProjectAnalyzer', () => {
     });
   });
 
+  describe('suggestProfile', () => {
+    const usePackageJson = (packageJson: object) => {
+      jest
+        .spyOn(fs, 'existsSync')
+        .mockImplementation(
+          (filePath) => filePath === path.join(mockRootDir, 'package.json')
+        );
+      jest
+        .spyOn(fs, 'readFileSync')
+        .mockReturnValue(JSON.stringify(packageJson));
+    };
+
+    it('should suggest a framework layer for the detected project type', () => {
+      usePackageJson({ dependencies: { next: '^14.0.0' } });
+      expect(analyzer.suggestProfile()).toEqual(['recommended', 'next']);
+
+      usePackageJson({ dependencies: { react: '^18.0.0', expo: '^50.0.0' } });
+      expect(analyzer.suggestProfile()).toEqual([
+        'recommended',
+        'react-native',
+      ]);
+
+      usePackageJson({ main: 'dist/index.js' });
+      expect(analyzer.suggestProfile()).toEqual(['recommended', 'library']);
+    });
+
+    it('should suggest the recommended profile otherwise', () => {
+      usePackageJson({ dependencies: { react: '^18.0.0' } });
+      expect(analyzer.suggestProfile()).toEqual(['recommended']);
+    });
+  });
+
   describe('isMonorepo', () => {
     it('should detect monorepo from workspaces', () => {
       jest.spyOn(fs, 'existsSync').mockReturnValue(true);
@@ -365,6 +409,30 @@ describe('ProjectAnalyzer', () => {
       expect(zones).toHaveLength(1);
       expect(zones?.[0]?.name).toBe('src/modules/module1');
     });
+
+    it('should add a zone for every directory matching a glob', () => {
+      const directories: Record<string, string[]> = {
+        [mockRootDir]: ['apps'],
+        [path.join(mockRootDir, 'apps')]: ['web', 'admin'],
+        [path.join(mockRootDir, 'apps/web')]: ['src', 'test'],
+        [path.join(mockRootDir, 'apps/admin')]: ['src'],
+      };
+      jest.spyOn(fs, 'readdirSync').mockImplementation(
+        (dir: any) =>
+          (directories[String(dir)] ?? []).map((name) => ({
+            name,
+            isDirectory: () => true,
+          })) as any
+      );
+      jest.spyOn(analyzer, 'detectZoneType').mockReturnValue('react');
+
+      const zones = analyzer.processCustomZones(['apps/*/src']);
+      expect(zones.map((zone) => zone.name)).toEqual([
+        'apps/admin/src',
+        'apps/web/src',
+      ]);
+      expect(zones[1]?.path).toBe(path.join(mockRootDir, 'apps/web/src'));
+    });
   });
 
   describe('processWorkspaceZones', () => {
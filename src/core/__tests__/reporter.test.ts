@@ -635,4 +635,146 @@ describe('Reporter', () => {
       'fail'
     );
   });
+
+  describe('generate with output formats', () => {
+    const zoneErrors = {
+      src: [
+        {
+          rule: 'No var',
+          message: 'Use let or const',
+          filePath: '/mock/root/src/a.ts',
+          line: 3,
+          severity: 'error' as const,
+          category: 'content',
+        },
+        {
+          rule: 'No var',
+          message: 'Use let or const',
+          filePath: '/mock/root/src/a.test.ts',
+          line: 1,
+          severity: 'error' as const,
+          category: 'content',
+        },
+        {
+          rule: 'Folder structure',
+          message: 'Present: components',
+          filePath: '/mock/root/src',
+          severity: 'info' as const,
+          category: 'structure',
+        },
+      ],
+    };
+    const projectInfo = {
+      type: 'react',
+      isMonorepo: false,
+      projectType: 'react',
+      zones: [],
+      structure: {},
+      rootPath: '/mock/root',
+    } as any;
+
+    beforeEach(() => {
+      (path.relative as jest.Mock).mockImplementation((from, to) =>
+        to.replace(`${from}/`, '')
+      );
+      (path.extname as jest.Mock).mockImplementation(
+        (p: string) => p.match(/\.[^./]+$/)?.[0] ?? ''
+      );
+    });
+
+    it('writes the selected format with only reportable errors', async () => {
+      const sarifReporter = new Reporter(
+        rootDir,
+        '/mock/report.sarif',
+        mockLogger as any
+      );
+      const result = await sarifReporter.generate(zoneErrors, projectInfo, {
+        outputFormat: 'sarif',
+      });
+
+      expect(result.logFile).toBe('/mock/report.sarif');
+      const [filePath, content] = (fs.writeFileSync as jest.Mock).mock.calls[0];
+      expect(filePath).toBe('/mock/report.sarif');
+      const written = JSON.parse(content);
+      expect(written.runs[0].results).toHaveLength(1);
+      expect(
+        written.runs[0].results[0].locations[0].physicalLocation
+      ).toMatchObject({
+        artifactLocation: { uri: 'src/a.ts' },
+        region: { startLine: 3 },
+      });
+    });
+
+    it('derives sibling paths for additional formats', async () => {
+      const multiReporter = new Reporter(
+        rootDir,
+        '/mock/out/report.json',
+        mockLogger as any
+      );
+      const result = await multiReporter.generate(zoneErrors, projectInfo, {
+        outputFormat: 'json,junit',
+      });
+      expect(result.outputFiles).toEqual([
+        '/mock/out/report.json',
+        '/mock/out/report.junit.xml',
+      ]);
+    });
+
+    it('expands "both" and supports custom formatters', async () => {
+      const custom = {
+        name: 'count',
+        extension: '.txt',
+        format: jest.fn(({ zoneErrors: errors }) => String(errors.src.length)),
+      };
+      const result = await reporter.generate(zoneErrors, projectInfo, {
+        outputFormat: ['both', 'count'],
+        formatters: [custom],
+      });
+      expect(result.outputFiles).toEqual([
+        '/mock/output.log',
+        '/mock/output.json',
+        '/mock/output.txt',
+      ]);
+      expect(custom.format).toHaveReturnedWith('1');
+    });
+
+    it('streams the format to stdout with "-"', async () => {
+      const write = jest
+        .spyOn(process.stdout, 'write')
+        .mockImplementation(() => true);
+      try {
+        const stdoutReporter = new Reporter(rootDir, '-', mockLogger as any);
+        const result = await stdoutReporter.generate(zoneErrors, projectInfo, {
+          outputFormat: 'junit',
+        });
+        expect(result.logFile).toBe('-');
+        expect(fs.writeFileSync).not.toHaveBeenCalled();
+        expect(write).toHaveBeenCalledWith(
+          expect.stringContaining('<testsuites')
+        );
+      } finally {
+        write.mockRestore();
+      }
+    });
+
+    it('rejects unknown formats', async () => {
+      await expect(
+        reporter.generate(zoneErrors, projectInfo, { outputFormat: 'html' })
+      ).rejects.toThrow('Unknown output format "html"');
+    });
+
+    it('rejects several formats streamed to stdout', () => {
+      const stdoutReporter = new Reporter(rootDir, '-', mockLogger as any);
+      expect(() =>
+        stdoutReporter.resolveFormatters({ outputFormat: 'text,json' })
+      ).toThrow(
+        'Only one output format can be streamed to stdout, got text, json'
+      );
+      expect(
+        stdoutReporter
+          .resolveFormatters({ outputFormat: 'sarif' })
+          .map((formatter) => formatter.name)
+      ).toEqual(['sarif']);
+    });
+  });
 });
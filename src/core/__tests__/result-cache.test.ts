@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ResultCache } from '../result-cache';
+import type { IValidationError } from '../../types';
+
+const mockLogger: any = {
+  debug: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  info: jest.fn(),
+  verbose: jest.fn(),
+  levels: {},
+  currentLevel: 'debug',
+};
+
+const errors: IValidationError[] = [
+  {
+    rule: 'No var',
+    message: 'Use let or const instead of var',
+    filePath: 'src/a.ts',
+    line: 1,
+    severity: 'error',
+    category: 'content',
+  },
+];
+
+describe('ResultCache', () => {
+  let rootDir: string;
+  const options = { toolVersion: '1.0.0', rulesetHash: 'abc' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'standards-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores results in node_modules/.cache and reuses them', () => {
+    const cache = new ResultCache(rootDir, mockLogger, options);
+    expect(cache.get('src/a.ts', 'var a;')).toBeNull();
+    cache.set('src/a.ts', 'var a;', errors);
+    cache.save();
+
+    expect(cache.filePath).toBe(
+      path.join(rootDir, 'node_modules/.cache/frontend-standards/results.json')
+    );
+    const reloaded = new ResultCache(rootDir, mockLogger, options);
+    expect(reloaded.get(path.join(rootDir, 'src/a.ts'), 'var a;')).toEqual(
+      errors
+    );
+    expect(reloaded.get('src/a.ts', 'let a;')).toBeNull();
+    expect(reloaded.getStats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('drops every entry when the rules or the tool version change', () => {
+    const cache = new ResultCache(rootDir, mockLogger, options);
+    cache.set('src/a.ts', 'var a;', errors);
+    cache.save();
+
+    const otherRules = new ResultCache(rootDir, mockLogger, {
+      ...options,
+      rulesetHash: 'def',
+    });
+    expect(otherRules.get('src/a.ts', 'var a;')).toBeNull();
+    const otherVersion = new ResultCache(rootDir, mockLogger, {
+      ...options,
+      toolVersion: '2.0.0',
+    });
+    expect(otherVersion.get('src/a.ts', 'var a;')).toBeNull();
+  });
+
+  it('expires entries older than the ttl', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    const cache = new ResultCache(rootDir, mockLogger, {
+      ...options,
+      ttl: 500,
+    });
+    cache.set('src/a.ts', 'var a;', errors);
+    now.mockReturnValue(1_400);
+    expect(cache.get('src/a.ts', 'var a;')).toEqual(errors);
+    now.mockReturnValue(1_600);
+    expect(cache.get('src/a.ts', 'var a;')).toBeNull();
+    now.mockRestore();
+  });
+
+  it('keeps memory caches in the process without writing files', () => {
+    const memoryOptions = { ...options, strategy: 'memory' as const };
+    const cache = new ResultCache(rootDir, mockLogger, memoryOptions);
+    cache.set('src/a.ts', 'var a;', errors);
+    cache.save();
+
+    expect(fs.existsSync(cache.filePath)).toBe(false);
+    const again = new ResultCache(rootDir, mockLogger, memoryOptions);
+    expect(again.get('src/a.ts', 'var a;')).toEqual(errors);
+  });
+
+  it('ignores unreadable cache files', () => {
+    const cache = new ResultCache(rootDir, mockLogger, options);
+    fs.mkdirSync(path.dirname(cache.filePath), { recursive: true });
+    fs.writeFileSync(cache.filePath, '{not json');
+
+    const reloaded = new ResultCache(rootDir, mockLogger, options);
+    expect(reloaded.get('src/a.ts', 'var a;')).toBeNull();
+    expect(mockLogger.debug).toHaveBeenCalledWith(
+      expect.stringContaining('Ignoring unreadable cache file'),
+      expect.any(String)
+    );
+  });
+});
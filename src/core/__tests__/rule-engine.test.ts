@@ -94,6 +94,54 @@ describe('RuleEngine', () => {
       expect(errors[1].line).toBe(4);
     });
 
+    it('should pass the resolved options to applyRule checks', async () => {
+      const rule = {
+        name: 'test',
+        optionsSchema: {
+          maxLines: { type: 'number', default: 200 },
+          countBlankLines: { type: 'boolean', default: true },
+        },
+        options: { maxLines: 300 },
+        check: jest.fn(() => false),
+        message: 'msg',
+      };
+      await ruleEngine['applyRule'](rule, 'c', 'f', []);
+      expect(rule.check).toHaveBeenCalledWith('c', 'f', {
+        maxLines: 300,
+        countBlankLines: true,
+      });
+    });
+
+    it('should pass the complex function rule options to its validator', async () => {
+      ruleEngine.rules = [
+        {
+          id: 'documentation/missing-comment-in-complex-function',
+          name: 'Missing comment in complex function',
+          optionsSchema: { maxLines: { type: 'number', default: 8 } },
+          options: { maxLines: 20 },
+          check: () => false,
+          message: 'msg',
+        },
+      ];
+      const validators = Object.fromEntries(
+        [
+          'checkInlineStyles',
+          'checkCommentedCode',
+          'checkHardcodedData',
+          'checkFunctionComments',
+          'checkFunctionNaming',
+          'checkInterfaceNaming',
+          'checkStyleConventions',
+        ].map((name) => [name, jest.fn(() => [])])
+      );
+      ruleEngine['runContentValidators'](validators, 'c', 'f', []);
+      expect(validators['checkFunctionComments']).toHaveBeenCalledWith(
+        'c',
+        'f',
+        { maxLines: 20 }
+      );
+    });
+
     it('should add error for applyRule with true and no shadowing', async () => {
       const rule = { name: 'test', check: jest.fn(() => true), message: 'msg' };
       const errors: any[] = [];
@@ -257,7 +305,11 @@ describe('RuleEngine', () => {
         '/file.ts',
         errors
       );
-      await ruleEngine['runAlwaysApplicableValidations']('/file.ts', errors);
+      await ruleEngine['runAlwaysApplicableValidations'](
+        'content',
+        '/file.ts',
+        errors
+      );
       expect(errors).toEqual([]);
     });
 
@@ -271,6 +323,25 @@ describe('RuleEngine', () => {
       expect(deduped.length).toBe(2);
     });
 
+    it('should deduplicate errors with the same rule ID and different names', () => {
+      const errors = [
+        {
+          filePath: 'a',
+          rule: 'No inline styles',
+          ruleId: 'content/no-inline-styles',
+          line: 1,
+        },
+        {
+          filePath: 'a',
+          rule: 'Inline styles',
+          ruleId: 'content/no-inline-styles',
+          line: 1,
+        },
+      ];
+      const deduped = ruleEngine['deduplicateErrors'](errors);
+      expect(deduped.length).toBe(1);
+    });
+
     it('should handle handleValidationError with string error', () => {
       const result = ruleEngine['handleValidationError']('fail', 'file.ts');
       expect(result[0].message).toContain('fail');
@@ -292,11 +363,110 @@ describe('RuleEngine', () => {
       );
     });
 
+    it('should know config rule names for suppression directives', async () => {
+      ruleEngine.rules = [
+        {
+          id: 'content/no-var',
+          name: 'No var',
+          aliases: ['Var keyword'],
+          check: jest.fn(),
+          message: 'm',
+        },
+      ];
+      ruleEngine.loadAdditionalValidators = async () => ({
+        ADDITIONAL_VALIDATOR_RULES: [
+          { id: 'content/commented-code', name: 'Commented code' },
+        ],
+      });
+      const { knownRules, ruleIdsByAlias } = await ruleEngine[
+        'getRuleReferences'
+      ]();
+      expect(Array.from(knownRules)).toEqual([
+        'No var',
+        'content/no-var',
+        'Var keyword',
+        'content/commented-code',
+        'Commented code',
+      ]);
+      expect(ruleIdsByAlias.get('Var keyword')).toBe('content/no-var');
+    });
+
     it('should handle isConfigurationFile for non-config', () => {
       expect(ruleEngine.isConfigurationFile('foo.ts')).toBe(false);
     });
   });
 
+  describe('fixFile', () => {
+    const noVar = {
+      name: 'No var',
+      check: (content: string) =>
+        content
+          .split('\n')
+          .flatMap((line, idx) => (/\bvar /.test(line) ? [idx + 1] : [])),
+      fix: (content: string) =>
+        [...content.matchAll(/\bvar /g)].map((match) => ({
+          start: match.index!,
+          end: match.index! + 3,
+          text: 'let',
+        })),
+      message: 'Use let',
+    };
+
+    it('should apply fixes without writing the file', async () => {
+      ruleEngine.rules = [noVar];
+      const result = await ruleEngine.fixFile(
+        'src/a.ts',
+        'var a = 1;\nvar b = 2;\n'
+      );
+      expect(result.fixedContent).toBe('let a = 1;\nlet b = 2;\n');
+      expect(result.changed).toBe(true);
+      expect(result.appliedRules).toEqual(['No var']);
+      expect(result.passes).toBe(1);
+    });
+
+    it('should keep suppressed violations untouched', async () => {
+      ruleEngine.rules = [noVar];
+      const content =
+        '// standards-disable-next-line No var\nvar a = 1;\nvar b = 2;\n';
+      const result = await ruleEngine.fixFile('src/a.ts', content);
+      expect(result.fixedContent).toBe(
+        '// standards-disable-next-line No var\nvar a = 1;\nlet b = 2;\n'
+      );
+    });
+
+    it('should run further passes for violations uncovered by fixes', async () => {
+      const prefix = {
+        name: 'Header',
+        check: (content: string) => !content.startsWith('// header'),
+        fix: () => [{ start: 0, end: 0, text: '// header\nvar x;\n' }],
+        message: 'Add header',
+      };
+      ruleEngine.rules = [noVar, prefix];
+      const result = await ruleEngine.fixFile('src/a.ts', 'const a = 1;\n');
+      expect(result.fixedContent).toBe('// header\nlet x;\nconst a = 1;\n');
+      expect(result.passes).toBe(2);
+    });
+
+    it('should not fix configuration files and log failing fixes', async () => {
+      ruleEngine.rules = [
+        {
+          ...noVar,
+          fix: () => {
+            throw new Error('boom');
+          },
+        },
+      ];
+      const config = await ruleEngine.fixFile('jest.config.js', 'var a;');
+      expect(config.changed).toBe(false);
+      const result = await ruleEngine.fixFile('src/a.ts', 'var a;');
+      expect(result.changed).toBe(false);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Rule "No var" failed for src/a.ts:',
+        'boom'
+      );
+    });
+  });
+
   describe('constructor', () => {
     it('should initialize with empty rules and no config', () => {
       expect(ruleEngine.logger).toBe(mockLogger);
@@ -324,6 +494,305 @@ describe('RuleEngine', () => {
     });
   });
 
+  describe('getRulesForFile', () => {
+    const rule = (id: string, severity = 'error') => ({
+      id,
+      name: id,
+      check: () => true,
+      message: `${id} message`,
+      severity,
+    });
+
+    beforeEach(() => {
+      ruleEngine.initialize(
+        {
+          rules: [rule('content/no-var'), rule('content/no-console-log')],
+          overrides: [
+            {
+              files: ['**/*.stories.tsx', 'src/legacy/**'],
+              excludedFiles: ['src/legacy/keep/**'],
+              rules: [rule('content/no-var', 'warning')],
+              disabledRules: ['content/no-console-log'],
+            },
+            {
+              files: ['src/legacy/**'],
+              rules: [rule('custom/no-legacy-api')],
+              disabledRules: [],
+            },
+          ],
+        },
+        { rootDir: '/project' }
+      );
+    });
+
+    it('should use the configured rules for files without overrides', () => {
+      expect(ruleEngine.getRulesForFile('/project/src/a.ts')).toBe(
+        ruleEngine.rules
+      );
+    });
+
+    it('should apply every matching override in order', () => {
+      const rules = ruleEngine.getRulesForFile('/project/src/legacy/old.ts');
+
+      expect(rules.map((r: any) => [r.id, r.severity])).toEqual([
+        ['content/no-var', 'warning'],
+        ['custom/no-legacy-api', 'error'],
+      ]);
+      expect(
+        ruleEngine
+          .getRulesForFile('/project/src/components/Button.stories.tsx')
+          .map((r: any) => r.id)
+      ).toEqual(['content/no-var']);
+    });
+
+    it('should skip overrides for excluded files', () => {
+      expect(
+        ruleEngine
+          .getRulesForFile('/project/src/legacy/keep/a.ts')
+          .map((r: any) => r.id)
+      ).toEqual([
+        'content/no-var',
+        'content/no-console-log',
+        'custom/no-legacy-api',
+      ]);
+    });
+
+    it('should run the effective rules of each file', async () => {
+      const errors: any[] = [];
+      await ruleEngine['runBasicRules'](
+        'var a = 1;',
+        '/project/src/legacy/a.ts',
+        errors
+      );
+
+      expect(errors.map((e: any) => [e.ruleId, e.severity])).toEqual([
+        ['content/no-var', 'warning'],
+        ['custom/no-legacy-api', 'error'],
+      ]);
+    });
+  });
+
+  describe('appliesTo', () => {
+    const rule = (id: string, appliesTo: any) => ({
+      id,
+      name: id,
+      check: () => true,
+      message: `${id} message`,
+      appliesTo,
+    });
+    const rules = [
+      rule('naming/next-js-app-router-naming', { frameworks: ['next'] }),
+      rule('performance/next-js-image-optimization', {
+        frameworks: ['next'],
+        extensions: ['.tsx', '.jsx'],
+      }),
+      rule('custom/no-legacy-api', { files: ['src/legacy/**'] }),
+    ];
+    const ruleIds = (filePath: string) =>
+      ruleEngine.getRulesForFile(filePath).map((r: any) => r.id);
+
+    it('should only run framework rules in zones of those frameworks', () => {
+      ruleEngine.initialize(
+        { rules },
+        {
+          rootDir: '/project',
+          projectType: 'next',
+          zones: [
+            { name: 'apps/web', path: '/project/apps/web', type: 'next' },
+            { name: 'apps/api', path: '/project/apps/api', type: 'node' },
+            { name: 'apps/lib', path: '/project/apps/lib', type: 'generic' },
+          ],
+        }
+      );
+
+      expect(ruleIds('/project/apps/web/app/page.tsx')).toEqual([
+        'naming/next-js-app-router-naming',
+        'performance/next-js-image-optimization',
+      ]);
+      expect(ruleIds('/project/apps/api/src/server.tsx')).toEqual([]);
+      // Generic zones fall back to the project type
+      expect(ruleIds('/project/apps/lib/index.tsx')).toEqual([
+        'naming/next-js-app-router-naming',
+        'performance/next-js-image-optimization',
+      ]);
+    });
+
+    it('should match file extensions and globs', () => {
+      ruleEngine.initialize({ rules }, { rootDir: '/project' });
+
+      expect(ruleIds('/project/src/page.ts')).toEqual([
+        'naming/next-js-app-router-naming',
+      ]);
+      expect(ruleIds('/project/src/legacy/old.tsx')).toEqual([
+        'naming/next-js-app-router-naming',
+        'performance/next-js-image-optimization',
+        'custom/no-legacy-api',
+      ]);
+    });
+
+    it('should run framework rules when the project type is unknown', () => {
+      ruleEngine.initialize({ rules }, { projectType: 'generic' });
+
+      expect(ruleIds('src/page.tsx')).toEqual([
+        'naming/next-js-app-router-naming',
+        'performance/next-js-image-optimization',
+      ]);
+    });
+
+    it('should skip the files excluded in zones of the project type', () => {
+      const svgRules = [
+        rule('custom/no-fill', {
+          excludedFiles: { 'react-native': ['**/Svg/**'] },
+        }),
+      ];
+      ruleEngine.initialize(
+        { rules: svgRules },
+        { rootDir: '/project', projectType: 'react-native' }
+      );
+      expect(ruleIds('/project/src/assets/Svg/Icon.tsx')).toEqual([]);
+      expect(ruleIds('/project/src/components/Card.tsx')).toEqual([
+        'custom/no-fill',
+      ]);
+
+      ruleEngine.initialize(
+        { rules: svgRules },
+        { rootDir: '/project', projectType: 'react' }
+      );
+      expect(ruleIds('/project/src/assets/Svg/Icon.tsx')).toEqual([
+        'custom/no-fill',
+      ]);
+    });
+
+    it('should skip validator errors in the files their rule excludes', () => {
+      ruleEngine.initialize(
+        { rules: [] },
+        { rootDir: '/project', projectType: 'react-native' }
+      );
+      const configure = (filePath: string) =>
+        ruleEngine['configureValidatorErrors'](
+          [
+            {
+              rule: 'No inline styles',
+              ruleId: 'content/no-inline-styles',
+              message: 'Avoid inline styles',
+              filePath,
+              severity: 'error',
+              category: 'content',
+            },
+          ],
+          filePath
+        );
+
+      expect(configure('/project/src/assets/Svg/Icon.tsx')).toEqual([]);
+      expect(configure('/project/src/components/Card.tsx')).toHaveLength(1);
+    });
+  });
+
+  describe('rule selection', () => {
+    const rule = (id: string, category: string) => ({
+      id,
+      name: `${id} name`,
+      check: () => true,
+      message: `${id} message`,
+      category,
+    });
+    const rules = [
+      rule('structure/src-structure', 'structure'),
+      rule('naming/component-naming', 'naming'),
+      rule('content/no-var', 'content'),
+      rule('accessibility/img-alt', 'accessibility'),
+    ];
+    const ruleIds = (filePath = '/project/src/a.ts') =>
+      ruleEngine.getRulesForFile(filePath).map((r: any) => r.id);
+
+    it('should skip the structure, naming and content categories', () => {
+      ruleEngine.initialize(
+        { rules },
+        { skipStructure: true, skipNaming: true, skipContent: true }
+      );
+      expect(ruleIds()).toEqual(['accessibility/img-alt']);
+    });
+
+    it('should only run the selected categories and rules', () => {
+      ruleEngine.initialize(
+        { rules },
+        { onlyCategories: ['accessibility', 'content'] }
+      );
+      expect(ruleIds()).toEqual(['content/no-var', 'accessibility/img-alt']);
+
+      // Rules are referenced by ID or display name
+      ruleEngine.initialize(
+        { rules },
+        { onlyRules: ['content/no-var', 'naming/component-naming name'] }
+      );
+      expect(ruleIds()).toEqual(['naming/component-naming', 'content/no-var']);
+
+      ruleEngine.initialize({ rules }, { skipRules: ['content/no-var'] });
+      expect(ruleIds()).toEqual([
+        'structure/src-structure',
+        'naming/component-naming',
+        'accessibility/img-alt',
+      ]);
+    });
+
+    it('should not add skipped rules through overrides', () => {
+      ruleEngine.initialize(
+        {
+          rules,
+          overrides: [
+            {
+              files: ['src/**'],
+              rules: [rule('custom/no-legacy-api', 'content')],
+              disabledRules: [],
+            },
+          ],
+        },
+        { rootDir: '/project', skipContent: true }
+      );
+      expect(ruleIds()).not.toContain('custom/no-legacy-api');
+    });
+
+    it('should filter the violations of the additional validators', async () => {
+      const violation = (ruleId: string, category: string) => ({
+        rule: ruleId,
+        ruleId,
+        message: 'message',
+        filePath: '/project/src/a.ts',
+        severity: 'error',
+        category,
+      });
+      jest
+        .spyOn(ruleEngine as any, 'loadAdditionalValidators')
+        .mockResolvedValue({
+          checkInlineStyles: () => [
+            violation('content/no-inline-styles', 'content'),
+          ],
+          checkCommentedCode: () => [],
+          checkHardcodedData: () => [],
+          checkFunctionComments: () => [],
+          checkFunctionNaming: () => [
+            violation('naming/function-naming', 'naming'),
+          ],
+          checkInterfaceNaming: () => [],
+          checkStyleConventions: () => [],
+          checkEnumsOutsideTypes: () => null,
+          checkHookFileExtension: () =>
+            violation('naming/hook-file-extension', 'naming'),
+          checkAssetNaming: () => null,
+        });
+      ruleEngine.initialize({ rules: [] }, { skipNaming: true });
+
+      const errors = await ruleEngine['validateFileContent'](
+        'const a = 1;',
+        '/project/src/a.ts'
+      );
+
+      expect(errors.map((e: any) => e.ruleId)).toEqual([
+        'content/no-inline-styles',
+      ]);
+    });
+  });
+
   describe('isConfigFile', () => {
     it('should identify config files', () => {
       expect(ruleEngine['isConfigFile']('webpack.config.js')).toBe(true);
@@ -411,6 +880,7 @@ describe('RuleEngine', () => {
       expect(errors).toEqual([
         {
           rule: 'File validation error',
+          ruleId: 'content/file-validation-error',
           message: expect.stringContaining('ENOENT'),
           filePath: mockFilePath,
           severity: 'error',
@@ -441,6 +911,7 @@ describe('RuleEngine', () => {
       expect(errors).toEqual([
         {
           rule: 'File validation error',
+          ruleId: 'content/file-validation-error',
           message: expect.stringContaining('ENOENT'),
           filePath: mockFilePath,
           severity: 'error',
@@ -509,6 +980,7 @@ describe('RuleEngine', () => {
       expect(errors).toEqual([
         {
           rule: 'File validation error',
+          ruleId: 'content/file-validation-error',
           message: expect.stringContaining('ENOENT'),
           filePath: mockFilePath,
           severity: 'error',
@@ -519,14 +991,55 @@ describe('RuleEngine', () => {
   });
 
   describe('validate', () => {
-    it('should delegate to validateFile', async () => {
+    it('should delegate to validateFile with the given content', async () => {
       const mockFilePath = '/path/to/file.ts';
       const mockContent = 'const test = 123;';
       jest.spyOn(ruleEngine, 'validateFile').mockResolvedValue([]);
 
       await ruleEngine.validate(mockContent, mockFilePath);
 
-      expect(ruleEngine.validateFile).toHaveBeenCalledWith(mockFilePath);
+      expect(ruleEngine.validateFile).toHaveBeenCalledWith(
+        mockFilePath,
+        mockContent
+      );
+    });
+
+    it('should validate the given content instead of the file on disk', async () => {
+      const previousReadFileSync = readFileSyncImpl;
+      readFileSyncImpl = () => 'var onDisk = true;\nvar b = 2;';
+      ruleEngine.initialize(
+        {
+          rules: [
+            {
+              id: 'content/no-var',
+              name: 'No var',
+              check: (content: string) =>
+                content
+                  .split('\n')
+                  .flatMap((line: string, index: number) =>
+                    line.includes('var ') ? [index + 1] : []
+                  ),
+              message: 'Use let or const',
+              category: 'content',
+              severity: 'error',
+            },
+          ],
+        },
+        {}
+      );
+      jest
+        .spyOn(ruleEngine as any, 'loadAdditionalValidators')
+        .mockResolvedValue(null);
+
+      const errors = await ruleEngine.validate(
+        'const a = 1;\nvar b = 2;',
+        '/path/to/staged.ts'
+      );
+      readFileSyncImpl = previousReadFileSync;
+
+      expect(errors).toEqual([
+        expect.objectContaining({ ruleId: 'content/no-var', line: 2 }),
+      ]);
     });
   });
 
@@ -615,6 +1128,7 @@ describe('RuleEngine', () => {
 
       ruleEngine['runFileValidators'](
         mockValidators,
+        'content',
         '/path/to/file.ts',
         mockErrors
       );
@@ -622,6 +1136,10 @@ describe('RuleEngine', () => {
       expect(mockErrors.length).toBe(1);
       expect(mockErrors[0].rule).toBe('enum-placement');
       expect(mockValidators.checkEnumsOutsideTypes).toHaveBeenCalled();
+      expect(mockValidators.checkHookFileExtension).toHaveBeenCalledWith(
+        '/path/to/file.ts',
+        'content'
+      );
       // ... other validators
     });
 
@@ -636,6 +1154,7 @@ describe('RuleEngine', () => {
 
       ruleEngine['runFileValidators'](
         mockValidators,
+        'content',
         '/path/to/file.ts',
         mockErrors
       );
@@ -652,6 +1171,7 @@ describe('RuleEngine', () => {
       };
       ruleEngine['runFileValidators'](
         mockValidators2,
+        'content',
         '/path/to/file.ts',
         mockErrors
       );
@@ -661,4 +1181,73 @@ describe('RuleEngine', () => {
       );
     });
   });
+
+  describe('configureValidatorErrors', () => {
+    const inlineStyle = {
+      rule: 'No inline styles',
+      ruleId: 'content/no-inline-styles',
+      message: 'Avoid inline styles',
+      filePath: '',
+      severity: 'error' as const,
+      category: 'content',
+    };
+    const configure = (filePath: string) =>
+      ruleEngine['configureValidatorErrors'](
+        [{ ...inlineStyle, filePath }],
+        filePath
+      ).map((error: any) => error.severity);
+
+    beforeEach(() => {
+      ruleEngine.initialize(
+        {
+          rules: [],
+          disabledRules: ['content/commented-code'],
+          overrides: [
+            {
+              files: ['src/components/**'],
+              rules: [],
+              disabledRules: ['style/no-inline-styles'],
+            },
+            {
+              files: ['src/components/legacy/**'],
+              rules: [
+                {
+                  id: 'content/no-inline-styles',
+                  name: 'No inline styles',
+                  check: () => false,
+                  message: 'No inline styles',
+                  severity: 'warning',
+                },
+              ],
+              disabledRules: [],
+            },
+          ],
+        },
+        { rootDir: '/project' }
+      );
+    });
+
+    it('should apply the overrides of each file to validator errors', () => {
+      expect(configure('/project/src/pages/a.tsx')).toEqual(['error']);
+      expect(configure('/project/src/components/a.tsx')).toEqual([]);
+      expect(configure('/project/src/components/legacy/a.tsx')).toEqual([
+        'warning',
+      ]);
+    });
+
+    it('should drop errors of rules turned off in the configuration', () => {
+      expect(
+        ruleEngine['configureValidatorErrors'](
+          [
+            {
+              ...inlineStyle,
+              rule: 'Commented code',
+              ruleId: 'content/commented-code',
+            },
+          ],
+          '/project/src/a.ts'
+        )
+      ).toEqual([]);
+    });
+  });
 });
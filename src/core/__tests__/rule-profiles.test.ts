@@ -0,0 +1,86 @@
+import {
+  findProfileSelectionError,
+  resolveProfileRules,
+} from '../rule-profiles';
+import type { IValidationRule } from '../../types';
+
+const rule = (
+  id: string,
+  severity: NonNullable<IValidationRule['severity']>
+): IValidationRule => ({
+  id,
+  name: id,
+  category: id.split('/')[0] as NonNullable<IValidationRule['category']>,
+  severity,
+  check: () => false,
+  message: id,
+});
+
+const defaultRules = [
+  rule('content/no-var', 'error'),
+  rule('typescript/no-any-type', 'warning'),
+  rule('naming/component-naming', 'error'),
+  rule('documentation/should-have-tsdoc-comments', 'info'),
+  rule('content/no-committed-credentials', 'error'),
+  rule('structure/gitflow-branch-naming-convention', 'info'),
+  rule('naming/next-js-app-router-naming', 'error'),
+  rule('structure/folder-structure', 'warning'),
+];
+
+describe('rule-profiles', () => {
+  it('keeps the default severities in the recommended profile', () => {
+    expect(resolveProfileRules('recommended', defaultRules)).toEqual({
+      'content/no-var': 'error',
+      'typescript/no-any-type': 'warning',
+      'naming/component-naming': 'error',
+      'documentation/should-have-tsdoc-comments': 'info',
+      'content/no-committed-credentials': 'error',
+      'structure/gitflow-branch-naming-convention': false,
+      'naming/next-js-app-router-naming': false,
+      'structure/folder-structure': 'warning',
+    });
+  });
+
+  it('escalates severities in the strict profile', () => {
+    const rules = resolveProfileRules('strict', defaultRules);
+    expect(rules['typescript/no-any-type']).toBe('error');
+    expect(rules['documentation/should-have-tsdoc-comments']).toBe('warning');
+    expect(rules['structure/gitflow-branch-naming-convention']).toBe('warning');
+    expect(rules['naming/next-js-app-router-naming']).toBe(false);
+  });
+
+  it('only keeps code rules as warnings in the legacy profile', () => {
+    const rules = resolveProfileRules('legacy', defaultRules);
+    expect(rules['content/no-var']).toBe('warning');
+    expect(rules['content/no-committed-credentials']).toBe('error');
+    expect(rules['naming/component-naming']).toBe(false);
+    expect(rules['documentation/should-have-tsdoc-comments']).toBe(false);
+  });
+
+  it('applies layers over the base profile', () => {
+    expect(
+      resolveProfileRules(['strict', 'next'], defaultRules)[
+        'naming/next-js-app-router-naming'
+      ]
+    ).toBe('error');
+
+    // Layers alone apply to the recommended profile
+    const library = resolveProfileRules('library', defaultRules);
+    expect(library['structure/folder-structure']).toBe(false);
+    expect(library['documentation/should-have-tsdoc-comments']).toBe('warning');
+    expect(library['content/no-var']).toBe('error');
+  });
+
+  it('rejects unknown profiles and several base profiles', () => {
+    expect(findProfileSelectionError(['recommended', 'next'])).toBeNull();
+    expect(findProfileSelectionError('recomended')).toMatch(
+      /^Unknown rule profile "recomended"/
+    );
+    expect(findProfileSelectionError(['strict', 'legacy'])).toBe(
+      'Only one base profile can be used, got strict and legacy'
+    );
+    expect(() => resolveProfileRules('vue' as any, defaultRules)).toThrow(
+      'Unknown rule profile "vue"'
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ValidationPool, createFileValidationError } from '../validation-pool';
+
+const mockLogger: any = {
+  debug: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  info: jest.fn(),
+  verbose: false,
+  levels: {},
+  currentLevel: 'debug',
+};
+
+// Speaks the validation-worker protocol without loading a configuration
+const FAKE_WORKER = `
+import { parentPort, workerData } from 'worker_threads';
+
+parentPort.on('message', ({ id, filePath, content }) => {
+  if (filePath === 'hang.ts') for (;;);
+  if (filePath === 'crash.ts') process.exit(1);
+  if (filePath === 'throw.ts') {
+    parentPort.postMessage({ type: 'error', id, message: 'rule exploded' });
+    return;
+  }
+  parentPort.postMessage({ type: 'log', level: 'warn', message: 'checked ' + filePath });
+  parentPort.postMessage({
+    type: 'result',
+    id,
+    errors: [{ rule: 'Fake', message: content ?? workerData.rootDir, filePath, severity: 'warning', category: 'content' }],
+  });
+});
+`;
+
+describe('ValidationPool', () => {
+  let dir: string;
+  let pool: ValidationPool;
+
+  const createPool = (size = 2, timeoutMs = 2000) =>
+    new ValidationPool(mockLogger, {
+      workerScript: path.join(dir, 'worker.mjs'),
+      workerData: { rootDir: '/project', configPath: null, verbose: false },
+      size,
+      timeoutMs,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'standards-pool-'));
+    fs.writeFileSync(path.join(dir, 'worker.mjs'), FAKE_WORKER);
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('validates files in workers and forwards their logs', async () => {
+    pool = createPool();
+    const results = await Promise.all(
+      ['a.ts', 'b.ts', 'c.ts'].map((file) => pool.validate(file))
+    );
+
+    expect(results.map((errors) => errors[0]?.filePath)).toEqual([
+      'a.ts',
+      'b.ts',
+      'c.ts',
+    ]);
+    expect(results[0]?.[0]?.message).toBe('/project');
+    expect(mockLogger.warn).toHaveBeenCalledWith('checked a.ts');
+  });
+
+  it('sends the content to validate along with the file', async () => {
+    pool = createPool(1);
+    const errors = await pool.validate('a.ts', undefined, 'staged content');
+
+    expect(errors[0]?.message).toBe('staged content');
+  });
+
+  it('reports a hanging file and keeps validating the others', async () => {
+    pool = createPool(1, 300);
+    const [hung, next] = await Promise.all([
+      pool.validate('hang.ts'),
+      pool.validate('a.ts'),
+    ]);
+
+    expect(hung).toEqual([
+      createFileValidationError('hang.ts', 'validation timed out after 300ms'),
+    ]);
+    expect(next[0]?.rule).toBe('Fake');
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to validate file hang.ts: validation timed out after 300ms'
+    );
+  });
+
+  it('reports files whose validation throws or crashes the worker', async () => {
+    pool = createPool(1);
+    const [thrown, crashed, next] = await Promise.all([
+      pool.validate('throw.ts'),
+      pool.validate('crash.ts'),
+      pool.validate('a.ts'),
+    ]);
+
+    expect(thrown).toEqual([
+      createFileValidationError('throw.ts', 'rule exploded'),
+    ]);
+    expect(crashed[0]?.rule).toBe('File validation error');
+    expect(crashed[0]?.message).toContain('exited with code 1');
+    expect(next[0]?.rule).toBe('Fake');
+  });
+
+  it('rejects new files once closed', async () => {
+    pool = createPool();
+    await pool.close();
+
+    await expect(pool.validate('a.ts')).rejects.toThrow(
+      'Validation pool is closed'
+    );
+  });
+});
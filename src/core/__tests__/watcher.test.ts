@@ -0,0 +1,241 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Watcher, diffViolations } from '../watcher';
+import type { IValidationError } from '../../types';
+
+const makeError = (rule: string, line?: number): IValidationError => ({
+  rule,
+  message: `${rule} violation`,
+  filePath: 'src/a.ts',
+  ...(line !== undefined ? { line } : {}),
+  severity: 'error',
+  category: 'content',
+});
+
+describe('diffViolations', () => {
+  it('returns new and resolved violations', () => {
+    const diff = diffViolations(
+      [makeError('No var', 1), makeError('No console.log', 2)],
+      [makeError('No var', 1), makeError('No var', 5)]
+    );
+    expect(diff.added).toEqual([makeError('No var', 5)]);
+    expect(diff.resolved).toEqual([makeError('No console.log', 2)]);
+  });
+});
+
+describe('Watcher', () => {
+  let rootDir: string;
+  let logger: any;
+  let ruleEngine: any;
+  let fileScanner: any;
+  let load: jest.Mock;
+  let watcher: Watcher;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(rootDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, file), content);
+  };
+  const logged = () => logger.info.mock.calls.map((call: any[]) => call[0]);
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'standards-watch-'));
+    write('src/a.ts', 'var a = 1;\n');
+    write('src/b.ts', 'const b = 1;\n');
+    write('docs/c.ts', 'var c = 1;\n');
+
+    logger = {
+      info: jest.fn(),
+      debug: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    ruleEngine = {
+      isConfigurationFile: jest.fn((file: string) =>
+        file.endsWith('.config.js')
+      ),
+      // One "No var" violation per line declaring a var
+      validateFile: jest.fn(async (file: string) =>
+        fs
+          .readFileSync(file, 'utf8')
+          .split('\n')
+          .flatMap((line, idx) =>
+            line.startsWith('var') ? [makeError('No var', idx + 1)] : []
+          )
+      ),
+    };
+    fileScanner = {
+      loadGitignorePatterns: jest.fn(async () => []),
+      resetGitignorePatterns: jest.fn(),
+      isIgnored: jest.fn((file: string) => file.includes('generated')),
+      scanZone: jest.fn(async () => [
+        { path: 'src/a.ts' },
+        { path: 'src/b.ts' },
+        { path: 'src/jest.config.js' },
+      ]),
+    };
+    load = jest.fn(async () => ({
+      config: { rules: [], extensions: ['.ts'] },
+      zones: ['src'],
+    }));
+    watcher = new Watcher(rootDir, logger, ruleEngine, fileScanner, {
+      configPath: path.join(rootDir, 'checkFrontendStandards.config.mjs'),
+      load,
+    });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('validates every file of the active zones on the first run', async () => {
+    await watcher.reload();
+    const violations = watcher.getViolations();
+    expect([...violations.keys()]).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(violations.get('src/a.ts')).toEqual([makeError('No var', 1)]);
+    expect(logged()).toContain('📊 1 errors, 0 warnings in 1 of 2 files');
+  });
+
+  it('re-validates only changed files and prints the differences', async () => {
+    await watcher.reload();
+    ruleEngine.validateFile.mockClear();
+    logger.info.mockClear();
+
+    write('src/a.ts', 'const a = 1;\n');
+    write('src/b.ts', 'const b = 1;\nvar c = 2;\n');
+    await watcher.handleChanges([
+      'src/a.ts',
+      'src/b.ts',
+      'docs/c.ts',
+      'src/generated.ts',
+      'src/styles.css',
+    ]);
+
+    expect(ruleEngine.validateFile).toHaveBeenCalledTimes(2);
+    expect(logged()).toEqual([
+      '✅ Resolved src/a.ts:1 [error] No var: No var violation',
+      '➕ src/b.ts:2 [error] No var: No var violation',
+      '📊 1 errors, 0 warnings in 1 of 2 files',
+    ]);
+  });
+
+  it('resolves the violations of deleted files', async () => {
+    await watcher.reload();
+    logger.info.mockClear();
+
+    fs.rmSync(path.join(rootDir, 'src/a.ts'));
+    await watcher.handleChanges(['src/a.ts']);
+
+    expect(watcher.getViolations().has('src/a.ts')).toBe(false);
+    expect(logged()[0]).toBe(
+      '✅ Resolved src/a.ts:1 [error] No var: No var violation'
+    );
+  });
+
+  it('reloads the configuration when the config file changes', async () => {
+    await watcher.reload();
+    await watcher.handleChanges(['checkFrontendStandards.config.mjs']);
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(fileScanner.scanZone).toHaveBeenCalledTimes(2);
+  });
+
+  it('validates the files of zones with their own config with that config', async () => {
+    write('src/app/page.tsx', 'var page = 1;\n');
+    const zoneEngine = {
+      isConfigurationFile: jest.fn(() => false),
+      validateFile: jest.fn(async () => [makeError('No any')]),
+    };
+    load.mockResolvedValue({
+      config: { rules: [], extensions: ['.ts'] },
+      zones: ['src'],
+      zoneSetups: new Map([
+        [
+          'src/app',
+          {
+            config: { rules: [], extensions: ['.ts', '.tsx'] },
+            ruleEngine: zoneEngine,
+          },
+        ],
+      ]),
+    });
+    await watcher.reload();
+    ruleEngine.validateFile.mockClear();
+
+    write('src/app/page.tsx', 'const page = 1;\n');
+    await watcher.handleChanges(['src/app/page.tsx', 'src/b.ts']);
+
+    expect(zoneEngine.validateFile).toHaveBeenCalledWith(
+      path.join(rootDir, 'src/app/page.tsx')
+    );
+    expect(ruleEngine.validateFile).toHaveBeenCalledTimes(1);
+    expect(watcher.getViolations().get('src/app/page.tsx')).toEqual([
+      makeError('No any'),
+    ]);
+  });
+
+  it('reloads the configuration when a zone config file changes', async () => {
+    await watcher.reload();
+    await watcher.handleChanges(['src/app/.frontendstandardsrc.json']);
+    await watcher.handleChanges(['node_modules/pkg/.frontendstandardsrc.json']);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('reloads the ignore patterns when an ignore file changes', async () => {
+    await watcher.reload();
+    await watcher.handleChanges(['src/.gitignore']);
+    await watcher.handleChanges(['node_modules/pkg/.standardsignore']);
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(fileScanner.resetGitignorePatterns).toHaveBeenCalledTimes(2);
+    expect(fileScanner.loadGitignorePatterns).toHaveBeenCalledTimes(2);
+  });
+
+  it('watches each directory that is not ignored', async () => {
+    write('node_modules/pkg/index.ts', '');
+    write('.git/HEAD', '');
+    fileScanner.isIgnored.mockImplementation((file: string) =>
+      ['node_modules', '.git'].includes(file)
+    );
+    const listeners = new Map<string, (event: string, file: string) => void>();
+    const watch = jest.spyOn(fs, 'watch').mockImplementation(((
+      dir: string,
+      listener: any
+    ) => {
+      listeners.set(path.relative(rootDir, dir), listener);
+      return { on: jest.fn(), close: jest.fn() };
+    }) as any);
+    const schedule = jest.spyOn(watcher, 'schedule').mockImplementation();
+
+    try {
+      await watcher.start();
+      expect([...listeners.keys()].sort()).toEqual(['', 'docs', 'src']);
+      expect(watch.mock.calls.every((call) => call.length === 2)).toBe(true);
+
+      // Directories created while watching are watched and their files queued
+      write('src/lib/d.ts', 'var d = 1;\n');
+      listeners.get('src')?.('rename', 'lib');
+      expect(listeners.has('src/lib')).toBe(true);
+      expect(schedule.mock.calls).toEqual([['src/lib'], ['src/lib/d.ts']]);
+    } finally {
+      watch.mockRestore();
+    }
+  });
+
+  it('batches changes saved close together', async () => {
+    jest.useFakeTimers();
+    const handleChanges = jest
+      .spyOn(watcher, 'handleChanges')
+      .mockResolvedValue(undefined);
+
+    watcher.schedule('src/a.ts');
+    watcher.schedule(path.join(rootDir, 'src/b.ts'));
+    watcher.schedule('src/a.ts');
+    jest.runAllTimers();
+    jest.useRealTimers();
+    // Changes are processed on the watcher's promise queue
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(handleChanges).toHaveBeenCalledTimes(1);
+    expect(handleChanges).toHaveBeenCalledWith(['src/a.ts', 'src/b.ts']);
+  });
+});
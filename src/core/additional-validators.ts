@@ -3,11 +3,15 @@ import type {
   INamingRule,
   IValidationError,
 } from '../types/additionalValidators.type';
+import type {
+  IRuleOptions,
+  IRuleOptionsSchema,
+} from '../types/ruleOptions.type';
+import type { IValidationRule } from '../types/reporter.type';
 import fs from 'fs';
 import path from 'path';
 import * as acorn from 'acorn';
 import * as acornWalk from 'acorn-walk';
-import { isReactNativeProject } from '../utils/file-scanner.js';
 // Removed duplicate type import from body
 import {
   isConfigOrConstantsFile,
@@ -73,9 +77,152 @@ const NAMING_RULES: INamingRule[] = [
   },
 ];
 
+// Options of the file naming rule: the pattern, as a regular expression, that
+// file names must match, by the name of the directory they are in
+export const FILE_NAMING_OPTIONS: IRuleOptionsSchema = Object.fromEntries(
+  NAMING_RULES.map(({ dir, regex, desc }) => [
+    dir,
+    { type: 'string', default: regex.source, description: desc },
+  ])
+);
+
+// SVG components of React Native projects, which rules about inline styles,
+// hardcoded data and asset names skip
+export const REACT_NATIVE_SVG_FILES = ['**/Svg/**', '*.svg*'];
+
 // Keep track of flagged directories to avoid duplicate reports
 const flaggedDirectories = new Set<string>();
 
+// Rules reported by the validators run from the rule engine, with the
+// severity they are reported with. They are configured like any other rule;
+// the display names and aliases can also be used in suppression directives.
+export const ADDITIONAL_VALIDATOR_RULES: (Required<
+  Pick<IValidationRule, 'id' | 'name' | 'category' | 'severity'>
+> &
+  Pick<IValidationRule, 'aliases' | 'optionsSchema' | 'appliesTo'>)[] = [
+  {
+    id: 'content/no-inline-styles',
+    name: 'No inline styles',
+    aliases: ['style/no-inline-styles'],
+    category: 'content',
+    severity: 'error',
+    appliesTo: { excludedFiles: { 'react-native': REACT_NATIVE_SVG_FILES } },
+  },
+  {
+    id: 'content/commented-code',
+    name: 'Commented code',
+    category: 'content',
+    severity: 'error',
+  },
+  {
+    id: 'content/hardcoded-data',
+    name: 'Hardcoded data',
+    category: 'content',
+    severity: 'error',
+    appliesTo: {
+      excludedFiles: {
+        'react-native': [
+          ...REACT_NATIVE_SVG_FILES,
+          '**/assets/**',
+          '**/constants/**',
+          '**/config/**',
+        ],
+      },
+    },
+  },
+  {
+    id: 'content/no-unused-variables',
+    name: 'No unused variables',
+    category: 'content',
+    severity: 'warning',
+  },
+  {
+    id: 'naming/function-naming',
+    name: 'Function naming',
+    category: 'naming',
+    severity: 'error',
+  },
+  {
+    id: 'naming/interface-naming',
+    name: 'Interface naming',
+    category: 'naming',
+    severity: 'error',
+  },
+  {
+    id: 'style/style-naming',
+    name: 'Style naming',
+    aliases: ['naming/style-naming'],
+    category: 'style',
+    severity: 'error',
+  },
+  {
+    id: 'structure/enum-outside-of-types',
+    name: 'Enum outside of types',
+    category: 'structure',
+    severity: 'error',
+  },
+  {
+    id: 'naming/hook-file-extension',
+    name: 'Hook file extension',
+    category: 'naming',
+    severity: 'error',
+  },
+  {
+    id: 'naming/asset-naming',
+    name: 'Asset naming',
+    category: 'naming',
+    severity: 'error',
+    appliesTo: {
+      excludedFiles: {
+        'react-native': [...REACT_NATIVE_SVG_FILES, '*.tsx', '*.jsx'],
+      },
+    },
+  },
+  {
+    id: 'naming/file-naming',
+    name: 'Naming',
+    category: 'naming',
+    severity: 'error',
+    optionsSchema: FILE_NAMING_OPTIONS,
+  },
+  {
+    id: 'naming/directory-naming',
+    name: 'Directory naming',
+    category: 'naming',
+    severity: 'error',
+  },
+  {
+    id: 'structure/component-structure',
+    name: 'Component structure',
+    category: 'structure',
+    severity: 'warning',
+  },
+  {
+    id: 'naming/component-type-naming',
+    name: 'Component type naming',
+    category: 'naming',
+    severity: 'error',
+  },
+  {
+    id: 'naming/component-style-naming',
+    name: 'Component style naming',
+    category: 'naming',
+    severity: 'error',
+  },
+  {
+    id: 'naming/component-function-name-match',
+    name: 'Component function name match',
+    category: 'naming',
+    severity: 'error',
+  },
+  {
+    id: 'documentation/missing-comment-in-complex-function',
+    name: 'Missing comment in complex function',
+    category: 'documentation',
+    severity: 'warning',
+  },
+];
+
 /**
  * Check for inline styles
  */
@@ -86,21 +233,6 @@ export function checkInlineStyles(
   const lines = content.split('\n');
   const errors: IValidationError[] = [];
 
-  // Detect if this is a React Native project
-  const isRNProject = isReactNativeProject(filePath);
-
-  // For React Native projects, be more permissive with SVG components
-  if (isRNProject) {
-    // Skip inline style validation for SVG components in React Native
-    if (
-      filePath.includes('/assets/Svg/') ||
-      filePath.includes('/Svg/') ||
-      filePath.includes('.svg')
-    ) {
-      return errors;
-    }
-  }
-
   lines.forEach((line, idx) => {
     // Only flag true inline style objects: style={{ ... }}
     // Do NOT flag style={someVar} or style={alert.alertBox}
@@ -109,11 +241,12 @@ export function checkInlineStyles(
     if (/style\s*=\s*\{\{[^}]*\}\}/.test(line)) {
       errors.push({
         rule: 'No inline styles',
+        ruleId: 'content/no-inline-styles',
         message: 'Avoid inline styles, use CSS classes or styled components',
         filePath: filePath,
         line: idx + 1,
         severity: 'error',
-        category: 'style',
+        category: 'content',
       });
     }
   });
@@ -167,7 +300,7 @@ export function checkCommentedCode(
       // Skip common valid comment patterns
       if (
         // ESLint/TSLint directives
-        /eslint|tslint|@ts-|prettier/.test(line) ||
+        /eslint|tslint|@ts-|prettier|standards-(disable|enable)/.test(line) ||
         // Task comments
         /^(TODO|FIXME|NOTE|HACK|BUG|XXX):/i.test(commentContent) ||
         // Documentation comments
@@ -215,6 +348,7 @@ export function checkCommentedCode(
       if (looksLikeCode) {
         errors.push({
           rule: 'Commented code',
+          ruleId: 'content/commented-code',
           message: 'Leaving commented code in the repository is not allowed.',
           filePath: filePath,
           line: idx + 1,
@@ -242,22 +376,6 @@ export function checkHardcodedData(
     return errors;
   }
 
-  // Detect if this is a React Native project
-  const isRNProject = isReactNativeProject(filePath);
-
-  // For React Native projects, be more permissive with SVG components and assets
-  if (isRNProject) {
-    // Skip SVG components and asset files in React Native projects
-    if (
-      filePath.includes('/assets/') ||
-      filePath.includes('/Svg/') ||
-      filePath.includes('.svg') ||
-      filePath.includes('/constants/') ||
-      filePath.includes('/config/')
-    ) {
-      return errors;
-    }
-  }
   if (filePath.includes('jest.setup.ts')) {
     return errors;
   }
@@ -388,6 +506,7 @@ export function checkHardcodedData(
     ) {
       errors.push({
         rule: 'Hardcoded data',
+        ruleId: 'content/hardcoded-data',
         message:
           'No hardcoded data should be left in the code except in mocks.',
         filePath: filePath,
@@ -404,12 +523,13 @@ export function checkHardcodedData(
  * Check for missing comments in complex functions
  * This function analyzes JavaScript/TypeScript code to identify functions with high complexity
  * that lack proper documentation. It calculates complexity based on control flow structures,
- * async operations, array methods, and function length. Functions exceeding complexity
- * thresholds require explanatory comments or JSDoc documentation.
+ * async operations, array methods, and function length. Functions exceeding the complexity
+ * thresholds in options require explanatory comments or JSDoc documentation.
  */
 export function checkFunctionComments(
   content: string,
-  filePath: string
+  filePath: string,
+  options: IRuleOptions = {}
 ): IValidationError[] {
   const lines = content.split('\n');
   const errors: IValidationError[] = [];
@@ -429,7 +549,12 @@ export function checkFunctionComments(
     if (!functionName || shouldSkipFunction(trimmedLine, functionName))
       continue;
 
-    const functionAnalysis = analyzeFunctionComplexity(lines, i, content);
+    const functionAnalysis = analyzeFunctionComplexity(
+      lines,
+      i,
+      content,
+      options
+    );
     if (!functionAnalysis.isComplex) continue;
 
     if (!hasProperComments(lines, i, content)) {
@@ -581,6 +706,7 @@ export function checkUnusedVariables(
 
         errors.push({
           rule: 'No unused variables',
+          ruleId: 'content/no-unused-variables',
           message: `Variable '${name}' is declared but never used. (@typescript-eslint/no-unused-vars rule)`,
           filePath: filePath,
           line: lineNumber,
@@ -646,6 +772,7 @@ export function checkFunctionNaming(
       if (!/^[a-z][a-zA-Z0-9]*$/.test(functionName)) {
         errors.push({
           rule: 'Function naming',
+          ruleId: 'naming/function-naming',
           message:
             'Functions must follow camelCase convention (e.g., getProvinces)',
           filePath: filePath,
@@ -688,6 +815,7 @@ export function checkInterfaceNaming(
         if (!/^I[A-Z][a-zA-Z0-9]*$/.test(interfaceName)) {
           errors.push({
             rule: 'Interface naming',
+            ruleId: 'naming/interface-naming',
             message:
               'Exported interfaces must start with "I" and follow PascalCase (e.g., IButtonProps)',
             filePath: filePath,
@@ -738,11 +866,12 @@ export function checkStyleConventions(
       if (!/^[a-z][a-zA-Z0-9]*Styles$/.test(styleName)) {
         errors.push({
           rule: 'Style naming',
+          ruleId: 'style/style-naming',
           message: `Style object '${styleName}' should be in camelCase and end with 'Styles' (e.g., cardPreviewStyles)`,
           filePath: filePath,
           line: idx + 1,
           severity: 'error',
-          category: 'naming',
+          category: 'style',
         });
       }
     }
@@ -761,6 +890,7 @@ export function checkEnumsOutsideTypes(
   if (filePath.includes('types') && filePath.endsWith('.enum.ts')) {
     return {
       rule: 'Enum outside of types',
+      ruleId: 'structure/enum-outside-of-types',
       message:
         'Enums must be in a separate directory from types (use /enums/ instead of /types/).',
       filePath: filePath,
@@ -773,9 +903,11 @@ export function checkEnumsOutsideTypes(
 
 /**
  * Check for hook file extension
+ * @param fileContent Content to check instead of the file on disk
  */
 export function checkHookFileExtension(
-  filePath: string
+  filePath: string,
+  fileContent?: string
 ): IValidationError | null {
   // Only check for hooks (use*.hook.ts[x]?)
   const fileName = path.basename(filePath);
@@ -785,7 +917,7 @@ export function checkHookFileExtension(
   if (fs.existsSync(path.join(dirName, 'index.ts'))) return null;
 
   try {
-    const content = fs.readFileSync(filePath, 'utf8');
+    const content = fileContent ?? fs.readFileSync(filePath, 'utf8');
     // Heuristic: if contains JSX (return < or React.createElement), must be .tsx
     const needsRender = /return\s*<|React\.createElement/.test(content);
     const isTSX = fileName.endsWith('.tsx');
@@ -793,6 +925,7 @@ export function checkHookFileExtension(
     if (needsRender && !isTSX) {
       return {
         rule: 'Hook file extension',
+        ruleId: 'naming/hook-file-extension',
         message: 'Hooks that render JSX must have a .tsx extension.',
         filePath: filePath,
         severity: 'error',
@@ -802,6 +935,7 @@ export function checkHookFileExtension(
     if (!needsRender && isTSX) {
       return {
         rule: 'Hook file extension',
+        ruleId: 'naming/hook-file-extension',
         message: 'Hooks that do not render JSX should have a .ts extension.',
         filePath: filePath,
         severity: 'error',
@@ -834,26 +968,11 @@ export function checkAssetNaming(filePath: string): IValidationError | null {
     return null;
   }
 
-  // Detect if this is a React Native project
-  const isRNProject = isReactNativeProject(filePath);
-
-  // For React Native projects, be more permissive with SVG components
-  if (isRNProject) {
-    // Skip asset naming validation for SVG components in React Native
-    if (
-      filePath.includes('/Svg/') ||
-      filePath.includes('/assets/Svg/') ||
-      fileExt === '.tsx' ||
-      fileExt === '.jsx'
-    ) {
-      return null;
-    }
-  }
-
   // Assets should follow kebab-case
   if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(baseName)) {
     return {
       rule: 'Asset naming',
+      ruleId: 'naming/asset-naming',
       message:
         'Assets must follow kebab-case convention (e.g., service-error.svg)',
       filePath: filePath,
@@ -869,7 +988,8 @@ export function checkAssetNaming(filePath: string): IValidationError | null {
  * Check naming conventions for files
  */
 export function checkNamingConventions(
-  filePath: string
+  filePath: string,
+  options: IRuleOptions = {}
 ): IValidationError | null {
   const rel = filePath.split(path.sep);
   const fname = rel[rel.length - 1];
@@ -887,10 +1007,17 @@ export function checkNamingConventions(
   for (const rule of NAMING_RULES) {
     // Check if the immediate parent directory matches the rule directory
     if (parentDir === rule.dir) {
-      if (!rule.regex.test(fname)) {
+      const pattern = options[rule.dir];
+      const isConfigured =
+        typeof pattern === 'string' && pattern !== rule.regex.source;
+      const regex = isConfigured ? new RegExp(pattern) : rule.regex;
+      if (!regex.test(fname)) {
         return {
           rule: 'Naming',
-          message: rule.desc,
+          ruleId: 'naming/file-naming',
+          message: isConfigured
+            ? `File names in ${rule.dir} must match ${pattern}`
+            : rule.desc,
           filePath: filePath,
           severity: 'error',
           category: 'naming',
@@ -981,6 +1108,7 @@ export function checkDirectoryNaming(dirPath: string): IValidationError[] {
 
         errors.push({
           rule: 'Directory naming',
+          ruleId: 'naming/directory-naming',
           message: `Directory '${currentDirName}' should follow camelCase convention (e.g., '${camelCaseSuggestion}')`,
           filePath: dirPath,
           severity: 'error',
@@ -1013,6 +1141,7 @@ function checkIndexFileRequirements(
     if (!fs.existsSync(indexTsFile)) {
       errors.push({
         rule: 'Component structure',
+        ruleId: 'structure/component-structure',
         message: `Utility directory '${componentName}' should have an index.ts file for exports`,
         filePath: indexTsFile,
         severity: 'warning',
@@ -1023,6 +1152,7 @@ function checkIndexFileRequirements(
     // Component directories should have index.tsx or index.ts
     errors.push({
       rule: 'Component structure',
+      ruleId: 'structure/component-structure',
       message:
         'Component must have an index.tsx file (for components) or index.ts file (for exports)',
       filePath: indexTsxFile,
@@ -1052,6 +1182,7 @@ function checkHooksDirectory(componentDir: string): IValidationError[] {
       if (hookFiles.length === 0) {
         errors.push({
           rule: 'Component structure',
+          ruleId: 'structure/component-structure',
           message:
             'Hooks directory should contain hook files with .hook.ts or .hook.tsx extension',
           filePath: hooksDir,
@@ -1097,6 +1228,7 @@ function checkTypesDirectory(componentDir: string): IValidationError[] {
           const typeFilePath = path.join(typesDir, typeFile);
           errors.push({
             rule: 'Component type naming',
+            ruleId: 'naming/component-type-naming',
             message: 'Type file should end with .type.ts',
             filePath: typeFilePath,
             severity: 'error',
@@ -1135,6 +1267,7 @@ function checkStylesDirectory(componentDir: string): IValidationError[] {
           const styleFilePath = path.join(stylesDir, styleFile);
           errors.push({
             rule: 'Component style naming',
+            ruleId: 'naming/component-style-naming',
             message: 'Style file should end with .style.ts',
             filePath: styleFilePath,
             severity: 'error',
@@ -0,0 +1,278 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type {
+  ILogger,
+  IValidationError,
+  IBaselineEntry,
+  IBaselineFile,
+  IBaselineComparison,
+} from '../types/index.js';
+
+/**
+ * Baseline manager for adopting the checker on codebases with existing violations.
+ * Violations are keyed by rule ID, file and a fingerprint of the offending source line,
+ * so entries survive code being moved up or down inside the same file and rules
+ * being renamed.
+ */
+export class BaselineManager {
+  public readonly rootDir: string;
+  public readonly logger: ILogger;
+  private readonly readContent: (filePath: string) => string | null;
+  private readonly linesCache = new Map<string, string[] | null>();
+
+  constructor(
+    rootDir: string,
+    logger: ILogger,
+    readContent?: (filePath: string) => string | null
+  ) {
+    this.rootDir = rootDir;
+    this.logger = logger;
+    this.readContent =
+      readContent ??
+      ((filePath: string) => {
+        try {
+          return fs.readFileSync(filePath, 'utf8');
+        } catch {
+          return null;
+        }
+      });
+  }
+
+  /**
+   * Default location of the baseline file
+   */
+  getDefaultPath(): string {
+    return path.join(this.rootDir, 'frontend-standards.baseline.json');
+  }
+
+  /**
+   * Resolve a user supplied baseline path against the project root
+   */
+  resolvePath(baselinePath?: string | null): string {
+    if (!baselinePath) return this.getDefaultPath();
+    return path.isAbsolute(baselinePath)
+      ? baselinePath
+      : path.resolve(this.rootDir, baselinePath);
+  }
+
+  /**
+   * Load a baseline file from disk
+   */
+  load(baselinePath: string): IBaselineFile {
+    if (!fs.existsSync(baselinePath)) {
+      throw new Error(`Baseline file not found: ${baselinePath}`);
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(baselinePath, 'utf8'));
+    if (parsed?.version !== 1 || !Array.isArray(parsed.entries)) {
+      throw new Error(`Unsupported baseline file format: ${baselinePath}`);
+    }
+    return parsed as IBaselineFile;
+  }
+
+  /**
+   * Write a baseline file, sorted so diffs stay reviewable
+   */
+  save(baselinePath: string, baseline: IBaselineFile): void {
+    const entries = [...baseline.entries].sort(
+      (a, b) =>
+        a.filePath.localeCompare(b.filePath) ||
+        (a.ruleId ?? a.rule).localeCompare(b.ruleId ?? b.rule) ||
+        a.fingerprint.localeCompare(b.fingerprint)
+    );
+    fs.writeFileSync(
+      baselinePath,
+      JSON.stringify({ ...baseline, entries }, null, 2) + '\n',
+      'utf8'
+    );
+    this.logger.debug(`Baseline saved to: ${baselinePath}`);
+  }
+
+  /**
+   * Snapshot the current violations into a baseline
+   */
+  create(zoneErrors: Record<string, IValidationError[]>): IBaselineFile {
+    const entries = new Map<string, IBaselineEntry>();
+
+    for (const errors of Object.values(zoneErrors)) {
+      for (const error of errors) {
+        if (!this.isBaselineCandidate(error)) continue;
+        const entry = this.toEntry(error);
+        const key = this.entryKey(entry);
+        const existing = entries.get(key);
+        if (existing) {
+          existing.count++;
+        } else {
+          entries.set(key, entry);
+        }
+      }
+    }
+
+    return {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      entries: Array.from(entries.values()),
+    };
+  }
+
+  /**
+   * Remove baselined violations from the results.
+   * Entries whose file was validated but no longer produce the violation are reported as fixed.
+   */
+  apply(
+    zoneErrors: Record<string, IValidationError[]>,
+    baseline: IBaselineFile,
+    validatedFiles: string[]
+  ): IBaselineComparison {
+    const remaining = new Map<string, number>();
+    for (const entry of baseline.entries) {
+      const key = this.entryKey(entry);
+      remaining.set(key, (remaining.get(key) ?? 0) + entry.count);
+    }
+
+    let suppressed = 0;
+    const filtered: Record<string, IValidationError[]> = {};
+
+    for (const [zone, errors] of Object.entries(zoneErrors)) {
+      filtered[zone] = errors.filter((error) => {
+        if (!this.isBaselineCandidate(error)) return true;
+        const key = [
+          this.entryKey(this.toEntry(error)),
+          ...(error.ruleId ? [this.legacyKey(error)] : []),
+        ].find((candidate) => (remaining.get(candidate) ?? 0) > 0);
+        if (key === undefined) return true;
+        remaining.set(key, remaining.get(key)! - 1);
+        suppressed++;
+        return false;
+      });
+    }
+
+    const validated = new Set(validatedFiles.map((f) => this.relativePath(f)));
+    const fixed: IBaselineEntry[] = [];
+    for (const entry of baseline.entries) {
+      if (!validated.has(entry.filePath)) continue;
+      const key = this.entryKey(entry);
+      const left = remaining.get(key) ?? 0;
+      if (left === 0) continue;
+      const count = Math.min(left, entry.count);
+      remaining.set(key, left - count);
+      fixed.push({ ...entry, count });
+    }
+
+    return { zoneErrors: filtered, suppressed, fixed };
+  }
+
+  /**
+   * Drop fixed entries from a baseline
+   */
+  prune(baseline: IBaselineFile, fixed: IBaselineEntry[]): IBaselineFile {
+    const toRemove = new Map<string, number>();
+    for (const entry of fixed) {
+      const key = this.entryKey(entry);
+      toRemove.set(key, (toRemove.get(key) ?? 0) + entry.count);
+    }
+
+    const entries: IBaselineEntry[] = [];
+    for (const entry of baseline.entries) {
+      const key = this.entryKey(entry);
+      const removing = Math.min(toRemove.get(key) ?? 0, entry.count);
+      toRemove.set(key, (toRemove.get(key) ?? 0) - removing);
+      if (entry.count - removing > 0) {
+        entries.push({ ...entry, count: entry.count - removing });
+      }
+    }
+
+    return { ...baseline, entries };
+  }
+
+  /**
+   * Fingerprint the violations of files against the given content, e.g. the
+   * staged version that was validated, instead of the working tree
+   */
+  useContents(contents: Map<string, string>): void {
+    for (const [filePath, content] of contents) {
+      this.linesCache.set(this.relativePath(filePath), content.split('\n'));
+    }
+  }
+
+  private isBaselineCandidate(error: IValidationError): boolean {
+    return (
+      !error.message.startsWith('✅') && !error.message.startsWith('Present:')
+    );
+  }
+
+  private entryKey(entry: IBaselineEntry): string {
+    return `${entry.ruleId ?? entry.rule}|${entry.filePath}|${
+      entry.fingerprint
+    }`;
+  }
+
+  /**
+   * Key of a violation in baselines written before rules had IDs, which
+   * keyed and fingerprinted violations by the rule's display name
+   */
+  private legacyKey(error: IValidationError): string {
+    const filePath = this.relativePath(error.filePath);
+    return `${error.rule}|${filePath}|${this.fingerprint(
+      error,
+      filePath,
+      error.rule
+    )}`;
+  }
+
+  private toEntry(error: IValidationError): IBaselineEntry {
+    const filePath = this.relativePath(error.filePath);
+    return {
+      rule: error.rule,
+      ...(error.ruleId ? { ruleId: error.ruleId } : {}),
+      filePath,
+      fingerprint: this.fingerprint(error, filePath),
+      count: 1,
+    };
+  }
+
+  /**
+   * Some validators append ":line" to the file path, strip it before keying
+   */
+  private relativePath(filePath: string): string {
+    const withoutLine = filePath.replace(/:\d+$/, '');
+    const absPath = path.isAbsolute(withoutLine)
+      ? withoutLine
+      : path.resolve(this.rootDir, withoutLine);
+    return path.relative(this.rootDir, absPath).split(path.sep).join('/');
+  }
+
+  /**
+   * Hash the offending line (whitespace-insensitive) or, for file level
+   * violations, the message
+   */
+  private fingerprint(
+    error: IValidationError,
+    relativePath: string,
+    rule = error.ruleId ?? error.rule
+  ): string {
+    let source = error.message;
+    if (error.line !== undefined) {
+      const lineText = this.getLines(relativePath)?.[error.line - 1];
+      if (lineText !== undefined) {
+        source = lineText.trim().replace(/\s+/g, ' ');
+      }
+    }
+    return crypto
+      .createHash('sha1')
+      .update(`${rule}\n${source}`)
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  private getLines(relativePath: string): string[] | null {
+    if (!this.linesCache.has(relativePath)) {
+      const content = this.readContent(
+        path.resolve(this.rootDir, relativePath)
+      );
+      this.linesCache.set(relativePath, content ? content.split('\n') : null);
+    }
+    return this.linesCache.get(relativePath) ?? null;
+  }
+}
@@ -1,16 +1,95 @@
 import fs from 'fs';
 import path from 'path';
+import { createRequire } from 'module';
 import type {
   IConfigLoader,
   ILogger,
   IStandardsConfiguration,
   IConfigurationExport,
+  IStandardsConfigurationInput,
   IDefaultRulesStructure,
   IValidationRule,
   IRulesObjectFormat,
+  IConfigOverride,
+  IRuleOverride,
+  IRuleSeverity,
+  IRuleOptions,
+  IRuleOptionsSchema,
+  ITextEdit,
+  IConfigLoadOptions,
+  IConfigProblem,
+  IRuleProfileSelection,
 } from '../types/index.js';
-import { isReactNativeProject } from '../utils/file-scanner.js';
-import { ConfigLoaderHelper } from '../helpers/configLoader.helper.js';
+import {
+  CONFIG_FILE_NAMES,
+  CONFIG_FILE_PATTERNS,
+  ConfigLoaderHelper,
+  readPackageConfig,
+} from '../helpers/configLoader.helper.js';
+import {
+  getLineOffsets,
+  removeLinesEdit,
+  replaceLineEdit,
+} from '../helpers/fix.helper.js';
+import {
+  assignRuleIds,
+  findDuplicateRuleIds,
+  matchesRule,
+} from '../helpers/ruleId.helper.js';
+import {
+  resolveRuleOptions,
+  validateRuleOptions,
+} from '../helpers/ruleOptions.helper.js';
+import { COMPLEX_FUNCTION_OPTIONS } from '../helpers/additionalValidators.helper.js';
+import { rebaseGlob } from '../helpers/glob.helper.js';
+import {
+  renameInterfaceEdits,
+  varToLetEdits,
+} from '../helpers/astFix.helper.js';
+import { findConfigProblems } from './config-schema.js';
+import { resolveProfileRules } from './rule-profiles.js';
+import {
+  ADDITIONAL_VALIDATOR_RULES,
+  REACT_NATIVE_SVG_FILES,
+} from './additional-validators.js';
+
+/**
+ * Options of the component size rule
+ */
+const COMPONENT_SIZE_OPTIONS: IRuleOptionsSchema = {
+  maxLines: {
+    type: 'number',
+    default: 200,
+    description: 'Maximum number of lines of a component file',
+  },
+  countBlankLines: {
+    type: 'boolean',
+    default: true,
+    description: 'Whether blank lines count towards maxLines',
+  },
+};
+
+/**
+ * Options of the rules that skip configuration files
+ */
+const CONFIG_FILE_OPTIONS: IRuleOptionsSchema = {
+  configFilePatterns: {
+    type: 'string[]',
+    default: CONFIG_FILE_PATTERNS,
+    description:
+      'Regular expressions matching the names of configuration files the rule skips',
+  },
+};
+
+/**
+ * Number of lines of content, optionally leaving out blank lines
+ */
+function countLines(content: string, countBlankLines: boolean): number {
+  const lines = content.split('\n');
+  return countBlankLines
+    ? lines.length
+    : lines.filter((line) => line.trim() !== '').length;
+}
 
 /**
  * Configuration loader and manager
@@ -32,48 +111,442 @@ export class ConfigLoader implements IConfigLoader {
   /**
    * Resolve the configuration file path
    * @param customConfigPath Optional custom config path
-   * @returns Resolved config file path
+   * @returns Resolved config file path, the default config file in the
+   * project root when no config file is found
    */
-  private resolveConfigPath(customConfigPath: string | null = null): string {
+  resolveConfigPath(customConfigPath: string | null = null): string {
     if (customConfigPath) {
       return path.isAbsolute(customConfigPath)
         ? customConfigPath
         : path.resolve(this.rootDir, customConfigPath);
     }
-    return path.resolve(this.rootDir, this.configFileName);
+    return (
+      this.findConfigFile() ?? path.resolve(this.rootDir, this.configFileName)
+    );
+  }
+
+  /**
+   * Search the project root and its parents for a config file
+   */
+  private findConfigFile(): string | null {
+    let dir = path.resolve(this.rootDir);
+    for (;;) {
+      const configPath = this.findConfigFileIn(dir);
+      if (configPath) return configPath;
+
+      const parent = path.dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+  }
+
+  /**
+   * First config file of a directory in the order of CONFIG_FILE_NAMES.
+   * A package.json only counts when it has a frontendStandards key.
+   */
+  private findConfigFileIn(dir: string): string | null {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const filePath = path.join(dir, fileName);
+      if (
+        fs.existsSync(filePath) &&
+        (fileName !== 'package.json' ||
+          readPackageConfig(filePath) !== undefined)
+      ) {
+        return filePath;
+      }
+    }
+    return null;
   }
 
   /**
    * Load configuration from file or use defaults
    * @param customConfigPath Optional custom config path
+   * @param options strict: fail on configuration problems instead of
+   * warning and falling back to defaults
    * @returns Configuration object
    */
   async load(
-    customConfigPath: string | null = null
+    customConfigPath: string | null = null,
+    options: IConfigLoadOptions = {}
   ): Promise<IStandardsConfiguration> {
+    const strict = options.strict ?? false;
     const configPath = this.resolveConfigPath(customConfigPath);
 
     if (!fs.existsSync(configPath)) {
+      if (strict && customConfigPath) {
+        throw new Error(`Config file not found: ${configPath}`);
+      }
       this.logger.info('📋 Using default configuration');
       return this.getDefaultConfig();
     }
 
+    let customConfig: IConfigurationExport | undefined;
     try {
       this.logger.info(`📋 Loading configuration from: ${configPath}`);
-      const customConfig = await this.helper.tryLoadConfig(configPath);
+      customConfig = await this.helper.tryLoadConfig(configPath);
+    } catch (error) {
+      if (strict) throw error;
+      this.warnLoadFailure(configPath, error);
+    }
+    if (!customConfig && strict) {
+      throw new Error(`Failed to load config from ${configPath}`);
+    }
+
+    if (customConfig) {
+      customConfig = await this.withPresets(customConfig, configPath);
+      this.reportProblems(
+        configPath,
+        findConfigProblems(
+          customConfig,
+          this.getAllDefaultRules(),
+          this.rootDir
+        ),
+        strict
+      );
+    }
 
+    let config: IStandardsConfiguration | null = null;
+    try {
       if (customConfig) {
-        return this.mergeWithDefaults(customConfig);
+        config = this.mergeWithDefaults(customConfig);
       }
     } catch (error) {
+      if (strict) throw error;
+      this.warnLoadFailure(configPath, error);
+    }
+
+    if (!config) {
+      this.logger.info('📋 Using default configuration');
+      return this.getDefaultConfig();
+    }
+    return this.withRuleIds(config);
+  }
+
+  /**
+   * Check a configuration file without loading it into the checker
+   * @param customConfigPath Optional custom config path
+   * @returns Problems found, empty when the configuration is valid
+   */
+  async validate(
+    customConfigPath: string | null = null
+  ): Promise<IConfigProblem[]> {
+    const configPath = this.resolveConfigPath(customConfigPath);
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Config file not found: ${configPath}`);
+    }
+
+    const loadedConfig = await this.helper.tryLoadConfig(configPath);
+    if (!loadedConfig) {
+      throw new Error(`Failed to load config from ${configPath}`);
+    }
+
+    const customConfig = await this.withPresets(loadedConfig, configPath);
+    const problems = findConfigProblems(
+      customConfig,
+      this.getAllDefaultRules(),
+      this.rootDir
+    );
+    if (problems.length === 0) {
+      // Problems only found while merging, e.g. duplicate rule IDs
+      this.withRuleIds(this.mergeWithDefaults(customConfig));
+    }
+    return problems;
+  }
+
+  /**
+   * Merge the presets a configuration object extends under it. Presets that
+   * can't be loaded fail instead of falling back to defaults.
+   */
+  private async withPresets(
+    config: IConfigurationExport,
+    configPath: string
+  ): Promise<IConfigurationExport> {
+    if (typeof config === 'object' && !Array.isArray(config)) {
+      return this.resolveExtends(config, configPath);
+    }
+    return config;
+  }
+
+  /**
+   * Fail on configuration problems in strict mode. Otherwise warn about the
+   * ones that aren't reported while merging the configuration.
+   */
+  private reportProblems(
+    configPath: string,
+    problems: IConfigProblem[],
+    strict: boolean
+  ): void {
+    if (strict && problems.length > 0) {
+      throw new Error(
+        `Invalid configuration in ${configPath}:\n${problems
+          .map((problem) => `  ${problem.path}: ${problem.message}`)
+          .join('\n')}`
+      );
+    }
+
+    for (const problem of problems) {
+      if (
+        problem.kind === 'unknown-rule' ||
+        problem.kind === 'invalid-option'
+      ) {
+        continue;
+      }
       this.logger.warn(
-        `Failed to load config from ${configPath}:`,
-        error instanceof Error ? error.message : String(error)
+        `Invalid configuration at ${problem.path}: ${problem.message}`
       );
     }
+  }
+
+  /**
+   * Every rule a configuration can reference: the default rules and the
+   * rules reported by the additional validators
+   */
+  getAllDefaultRules(): IValidationRule[] {
+    return [
+      ...Object.values(this.getDefaultRules()).flat(),
+      ...this.getValidatorRules(),
+    ];
+  }
 
-    this.logger.info('📋 Using default configuration');
-    return this.getDefaultConfig();
+  /**
+   * Rules reported by the additional validators that aren't default rules.
+   * Their check passes: configuring them changes the validators' reports.
+   */
+  private getValidatorRules(): IValidationRule[] {
+    const defaultIds = new Set(
+      Object.values(this.getDefaultRules())
+        .flat()
+        .map((rule) => rule.id)
+    );
+    return ADDITIONAL_VALIDATOR_RULES.filter(
+      (rule) => !defaultIds.has(rule.id)
+    ).map((rule) => ({ ...rule, check: () => false, message: rule.name }));
+  }
+
+  /**
+   * Configuration of a zone whose directory, or a directory between it and
+   * the project root, has a config file of its own. Those config files are
+   * merged over the root configuration, innermost last; a config with
+   * `root: true` ignores the configs above it.
+   * @param zone Zone directory relative to the project root
+   * @param customConfigPath Optional custom path of the root config
+   * @returns The zone configuration, or null when the root configuration
+   * applies as is
+   */
+  async loadZone(
+    zone: string,
+    customConfigPath: string | null = null,
+    options: IConfigLoadOptions = {}
+  ): Promise<IStandardsConfiguration | null> {
+    const zoneConfigPaths = this.findZoneConfigFiles(zone);
+    if (zoneConfigPaths.length === 0) return null;
+
+    const zoneLabel = zoneConfigPaths[0]!;
+    try {
+      const inputs: IStandardsConfigurationInput[] = [];
+      for (const configPath of zoneConfigPaths) {
+        const input = await this.loadZoneConfigInput(configPath);
+        this.reportProblems(
+          configPath,
+          findConfigProblems(input, this.getAllDefaultRules(), this.rootDir),
+          options.strict ?? false
+        );
+        inputs.unshift(input);
+        if (input.root) break;
+      }
+
+      if (!inputs[0]!.root) {
+        inputs.unshift(await this.loadRootConfigInput(customConfigPath));
+      }
+
+      const merged = inputs.reduce((base, input) =>
+        this.helper.mergeConfigInputs(base, input)
+      );
+      delete merged.root;
+      this.logger.info(`📋 Zone ${zone} uses configuration from: ${zoneLabel}`);
+      return this.withRuleIds(this.mergeWithDefaults(merged));
+    } catch (error) {
+      if (options.strict) throw error;
+      this.warnLoadFailure(zoneLabel, error);
+      return null;
+    }
+  }
+
+  /**
+   * Config files from the zone directory up to, not including, the project
+   * root, innermost first
+   */
+  private findZoneConfigFiles(zone: string): string[] {
+    const rootDir = path.resolve(this.rootDir);
+    const configPaths: string[] = [];
+    let dir = path.resolve(rootDir, zone);
+
+    while (dir !== rootDir && dir.startsWith(`${rootDir}${path.sep}`)) {
+      const configPath = this.findConfigFileIn(dir);
+      if (configPath) configPaths.push(configPath);
+      dir = path.dirname(dir);
+    }
+    return configPaths;
+  }
+
+  /**
+   * A zone config file, with its presets, as a configuration object whose
+   * override globs are relative to the project root
+   */
+  private async loadZoneConfigInput(
+    configPath: string
+  ): Promise<IStandardsConfigurationInput> {
+    const input = await this.loadConfigInput(configPath);
+    const baseDir = path.relative(this.rootDir, path.dirname(configPath));
+    if (!input.overrides) return input;
+
+    return {
+      ...input,
+      overrides: input.overrides.map((override) => ({
+        ...override,
+        files: override.files.map((pattern) => rebaseGlob(pattern, baseDir)),
+        ...(override.excludedFiles
+          ? {
+              excludedFiles: override.excludedFiles.map((pattern) =>
+                rebaseGlob(pattern, baseDir)
+              ),
+            }
+          : {}),
+      })),
+    };
+  }
+
+  /**
+   * The root config file as the base of zone configs, empty when there is
+   * none
+   */
+  private async loadRootConfigInput(
+    customConfigPath: string | null
+  ): Promise<IStandardsConfigurationInput> {
+    const configPath = this.resolveConfigPath(customConfigPath);
+    return fs.existsSync(configPath) ? this.loadConfigInput(configPath) : {};
+  }
+
+  /**
+   * A config file, with its presets, as a configuration object. Configs
+   * exporting a function can't be merged with others.
+   */
+  private async loadConfigInput(
+    configPath: string
+  ): Promise<IStandardsConfigurationInput> {
+    const loadedConfig = await this.helper.tryLoadConfig(configPath);
+    if (!loadedConfig) {
+      throw new Error(`Failed to load config from ${configPath}`);
+    }
+
+    const config = await this.withPresets(loadedConfig, configPath);
+    if (typeof config === 'function') {
+      throw new Error(
+        `Config ${configPath} exports a function and can't be merged with zone configs; set root: true in the zone config instead`
+      );
+    }
+    return Array.isArray(config) ? { rules: config } : config;
+  }
+
+  private warnLoadFailure(configPath: string, error: unknown): void {
+    this.logger.warn(
+      `Failed to load config from ${configPath}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  /**
+   * Merge the presets listed in `extends` under a configuration, in order.
+   * Presets may extend other presets; cycles are rejected.
+   */
+  private async resolveExtends(
+    config: IStandardsConfigurationInput,
+    configPath: string,
+    chain: string[] = [configPath]
+  ): Promise<IStandardsConfigurationInput> {
+    if (!config.extends) return config;
+
+    const presets = Array.isArray(config.extends)
+      ? config.extends
+      : [config.extends];
+    let base: IStandardsConfigurationInput = {};
+
+    for (const preset of presets) {
+      const presetPath = this.resolvePresetPath(preset, configPath);
+      if (chain.includes(presetPath)) {
+        throw new Error(
+          `Circular extends in configuration: ${[...chain, presetPath].join(
+            ' -> '
+          )}`
+        );
+      }
+
+      const presetConfig = await this.helper.tryLoadConfig(presetPath);
+      if (!presetConfig) {
+        throw new Error(
+          `Failed to load config preset "${preset}" extended by ${configPath}`
+        );
+      }
+      if (typeof presetConfig === 'function') {
+        throw new Error(
+          `Config preset "${preset}" exports a function and can't be extended`
+        );
+      }
+
+      const resolved = await this.resolveExtends(
+        Array.isArray(presetConfig) ? { rules: presetConfig } : presetConfig,
+        presetPath,
+        [...chain, presetPath]
+      );
+      base = this.helper.mergeConfigInputs(base, resolved);
+    }
+
+    return this.helper.mergeConfigInputs(base, config);
+  }
+
+  /**
+   * Paths are relative to the extending config; anything else is a package
+   * resolved from the node_modules next to it
+   */
+  private resolvePresetPath(preset: string, configPath: string): string {
+    if (preset.startsWith('.') || path.isAbsolute(preset)) {
+      const presetPath = path.resolve(path.dirname(configPath), preset);
+      if (fs.existsSync(presetPath)) return presetPath;
+    } else {
+      try {
+        return createRequire(configPath).resolve(preset);
+      } catch {
+        // Reported below
+      }
+    }
+    throw new Error(
+      `Cannot find config preset "${preset}" extended by ${configPath}`
+    );
+  }
+
+  /**
+   * Give every rule an ID and reject configurations where two rules share one
+   */
+  private withRuleIds(
+    config: IStandardsConfiguration
+  ): IStandardsConfiguration {
+    const rules = assignRuleIds(config.rules ?? []);
+    const duplicates = findDuplicateRuleIds(rules);
+    if (duplicates.length > 0) {
+      throw new Error(
+        `Duplicate rule IDs in configuration: ${duplicates.join(', ')}`
+      );
+    }
+    if (!config.overrides) return { ...config, rules };
+
+    return {
+      ...config,
+      rules,
+      overrides: config.overrides.map((override) => ({
+        ...override,
+        rules: assignRuleIds(override.rules),
+      })),
+    };
   }
 
   /**
@@ -115,69 +588,165 @@ export class ConfigLoader implements IConfigLoader {
       return {
         ...defaultConfig,
         rules: customConfig.rules,
+        ...this.resolveOverrides(customConfig.overrides, customConfig.rules),
       };
     }
 
     if (customConfig && Array.isArray(customConfig.rules)) {
+      const { overrides, ...settings } = customConfig;
+      const { rules: profileRules, disabledRules } = this.getRuleSettings(
+        customConfig.profile
+      );
+      const rules = [...profileRules, ...customConfig.rules];
       return {
         ...defaultConfig,
-        ...customConfig,
-        rules: [...Object.values(defaultRules).flat(), ...customConfig.rules],
+        ...settings,
+        rules,
+        ...(disabledRules ? { disabledRules } : {}),
+        ...this.resolveOverrides(overrides, rules),
       };
     }
 
     if (customConfig && typeof customConfig === 'object') {
-      let finalRules: IValidationRule[];
-
-      if (customConfig.rules && !Array.isArray(customConfig.rules)) {
-        // Convert object format to array format
-        finalRules = this.convertObjectRulesToArray(
-          customConfig.rules,
-          defaultRules
-        );
-      } else if (Array.isArray(customConfig.rules)) {
-        finalRules = customConfig.rules;
-      } else {
-        finalRules = Object.values(defaultRules).flat();
-      }
+      const { overrides, ...settings } = customConfig;
+      const { rules: finalRules, disabledRules } = this.getRuleSettings(
+        customConfig.profile,
+        customConfig.rules
+      );
 
       return {
         ...defaultConfig,
-        ...customConfig,
+        ...settings,
         rules: finalRules,
+        ...(disabledRules ? { disabledRules } : {}),
+        ...this.resolveOverrides(overrides, finalRules),
       };
     }
 
     return defaultConfig;
   }
 
+  /**
+   * The rules of a config in object format, over the default rules as
+   * configured by a profile when one is selected, and the rules they turn off
+   */
+  private getRuleSettings(
+    profile: IRuleProfileSelection | undefined,
+    rules?: IRulesObjectFormat | IValidationRule[]
+  ): Pick<IStandardsConfiguration, 'disabledRules'> & {
+    rules: IValidationRule[];
+  } {
+    if (Array.isArray(rules)) return { rules };
+
+    const defaultRules = Object.values(this.getDefaultRules()).flat();
+    if (!profile && !rules) return { rules: defaultRules };
+
+    const candidates = [...defaultRules, ...this.getValidatorRules()];
+    const settings: IRulesObjectFormat = {
+      ...(profile ? resolveProfileRules(profile, candidates) : {}),
+      ...(rules ? this.keyRulesById(rules, candidates) : {}),
+    };
+    const disabledRules = Object.keys(settings).filter(
+      (ruleKey) => settings[ruleKey] === false
+    );
+    return {
+      rules: this.convertObjectRulesToArray(settings, candidates),
+      ...(disabledRules.length > 0 ? { disabledRules } : {}),
+    };
+  }
+
+  /**
+   * Rules in object format keyed by the ID of the rule each key references,
+   * so that a deprecated name replaces the setting of its rule
+   */
+  private keyRulesById(
+    rules: IRulesObjectFormat,
+    candidates: IValidationRule[]
+  ): IRulesObjectFormat {
+    const keyed: IRulesObjectFormat = {};
+    for (const [ruleKey, ruleValue] of Object.entries(rules)) {
+      const matches = candidates.some((rule) => rule.id === ruleKey)
+        ? []
+        : candidates.filter((rule) => matchesRule(rule, ruleKey));
+      const ruleId = matches.length === 1 ? matches[0]?.id : undefined;
+      if (ruleId) {
+        this.logger.warn(
+          `Rule name "${ruleKey}" is deprecated, use "${ruleId}" instead`
+        );
+      }
+      keyed[ruleId ?? ruleKey] = ruleValue;
+    }
+    return keyed;
+  }
+
+  /**
+   * Turn the rules of each override into rule definitions. Rules referenced
+   * in object format are looked up among the configured rules first, then
+   * among the default rules.
+   */
+  private resolveOverrides(
+    overrides: IConfigOverride[] | undefined,
+    configuredRules: IValidationRule[]
+  ): Pick<IStandardsConfiguration, 'overrides'> {
+    if (!overrides) return {};
+
+    const configuredIds = new Set(configuredRules.map((rule) => rule.id));
+    const candidates = [
+      ...configuredRules,
+      ...this.getAllDefaultRules().filter(
+        (rule) => !configuredIds.has(rule.id)
+      ),
+    ];
+
+    return {
+      overrides: overrides.map((override) => {
+        const { files, excludedFiles, rules } = override;
+        const resolved: IRuleOverride = Array.isArray(rules)
+          ? { files, rules, disabledRules: [] }
+          : {
+              files,
+              rules: this.convertObjectRulesToArray(rules, candidates),
+              disabledRules: Object.keys(rules).filter(
+                (ruleKey) => rules[ruleKey] === false
+              ),
+            };
+        return excludedFiles ? { ...resolved, excludedFiles } : resolved;
+      }),
+    };
+  }
+
+  /**
+   * Whether a file has a relative import of itself
+   */
+  private importsItself(content: string, filePath: string): boolean {
+    const fileDir = path.dirname(filePath);
+    const filePathNoExt = filePath.replace(/\.[^.]+$/, '');
+    const imports = content.match(/import.*from\s+['"]([^'"]+)['"]/g) || [];
+    return imports.some((imp) => {
+      const importPath = /from\s+['"]([^'"]+)['"]/.exec(imp)?.[1];
+      if (!importPath?.startsWith('./') && !importPath?.startsWith('../')) {
+        return false;
+      }
+      const resolvedImport = path.resolve(fileDir, importPath);
+      return resolvedImport.replace(/\.[^.]+$/, '') === filePathNoExt;
+    });
+  }
+
   /**
    * Check if a file is a configuration file that should be excluded from validation
    * @param filePath The file path to check
+   * @param options Options of the rule, with its config file patterns
    * @returns True if the file is a configuration file
    */
-  private isConfigFile(filePath: string): boolean {
+  private isConfigFile(filePath: string, options?: IRuleOptions): boolean {
+    const { configFilePatterns } = resolveRuleOptions(
+      CONFIG_FILE_OPTIONS,
+      options
+    );
     const fileName = path.basename(filePath);
-
-    // Common configuration file patterns
-    const configPatterns = [
-      /\.config\.(js|ts|mjs|cjs|json)$/,
-      /^(jest|vite|webpack|tailwind|next|eslint|prettier|babel|rollup|tsconfig)\.config\./,
-      /^(vitest|nuxt|quasar)\.config\./,
-      /^tsconfig.*\.json$/,
-      /^\.eslintrc/,
-      /^\.prettierrc/,
-      /^babel\.config/,
-      /^postcss\.config/,
-      /^stylelint\.config/,
-      /^cypress\.config/,
-      /^playwright\.config/,
-      /^storybook\.config/,
-      /^metro\.config/,
-      /^expo\.config/,
-    ];
-
-    return configPatterns.some((pattern) => pattern.test(fileName));
+    return (configFilePatterns as string[]).some((pattern) =>
+      new RegExp(pattern).test(fileName)
+    );
   }
 
   /**
@@ -240,6 +809,7 @@ export class ConfigLoader implements IConfigLoader {
   private getStructureRules(): IValidationRule[] {
     return [
       {
+        id: 'structure/folder-structure',
         name: 'Folder structure',
         category: 'structure',
         severity: 'warning',
@@ -258,6 +828,7 @@ export class ConfigLoader implements IConfigLoader {
         message: 'Components should follow proper folder structure within src/',
       },
       {
+        id: 'structure/src-structure',
         name: 'Src structure',
         category: 'structure',
         severity: 'warning',
@@ -275,73 +846,34 @@ export class ConfigLoader implements IConfigLoader {
         message: 'Files should be organized in proper src/ structure',
       },
       {
+        id: 'structure/component-size-limit',
         name: 'Component size limit',
+        aliases: ['content/component-size-limit'],
         category: 'structure',
         severity: 'warning',
-        check: (content: string, filePath: string): boolean => {
+        optionsSchema: COMPONENT_SIZE_OPTIONS,
+        check: (
+          content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): boolean => {
           if (!filePath.endsWith('.tsx') && !filePath.endsWith('.jsx'))
             return false;
 
-          const lines = content.split('\n').length;
-          return lines > 200; // Components should not exceed 200 lines
-        },
-        message:
-          'Component is too large (>200 lines). Consider breaking it into smaller components.',
-      },
-      {
-        name: 'No circular dependencies',
-        category: 'structure',
-        severity: 'warning',
-        check: (content: string, filePath: string): boolean => {
-          const fileName = path.basename(filePath);
-          const fileDir = path.dirname(filePath);
-
-          // Skip configuration files
-          if (
-            fileName.includes('.config.') ||
-            fileName.startsWith('jest.config.') ||
-            fileName.startsWith('vite.config.') ||
-            fileName.startsWith('webpack.config.') ||
-            fileName.startsWith('tailwind.config.') ||
-            fileName.startsWith('next.config.') ||
-            fileName.startsWith('tsconfig.') ||
-            fileName.startsWith('eslint.config.') ||
-            fileName.includes('test.config.') ||
-            fileName.includes('spec.config.')
-          ) {
-            return false;
-          }
-
-          // Detect potential circular dependencies (improved: only if import points to this file itself)
-          const imports =
-            content.match(/import.*from\s+['"]([^'"]+)['"]/g) || [];
-          return imports.some((imp) => {
-            const importRegex = /from\s+['"]([^'"]+)['"]/;
-            const importMatch = importRegex.exec(imp);
-            if (importMatch?.[1]) {
-              const importPath = importMatch[1];
-              // Only check relative imports
-              if (importPath.startsWith('./') || importPath.startsWith('../')) {
-                // Resolve the import path relative to the current file
-                const resolvedImport = path.resolve(fileDir, importPath);
-                const resolvedImportNoExt = resolvedImport.replace(
-                  /\.[^.]+$/,
-                  ''
-                );
-                const filePathNoExt = filePath.replace(/\.[^.]+$/, '');
-                // Only mark as circular if the import points to this file itself
-                if (resolvedImportNoExt === filePathNoExt) {
-                  return true;
-                }
-              }
-            }
-            return false;
-          });
+          const { maxLines, countBlankLines } = resolveRuleOptions(
+            COMPONENT_SIZE_OPTIONS,
+            options
+          );
+          return (
+            countLines(content, countBlankLines as boolean) >
+            (maxLines as number)
+          );
         },
         message:
-          'Potential circular dependency detected. Review import structure.',
+          'Component is too large (more than maxLines lines, 200 by default). Consider breaking it into smaller components.',
       },
       {
+        id: 'structure/missing-test-files',
         name: 'Missing test files',
         category: 'structure',
         severity: 'info', // Cambiado de 'warning' a 'info'
@@ -405,6 +937,7 @@ export class ConfigLoader implements IConfigLoader {
           'Important components and hooks should have corresponding test files',
       },
       {
+        id: 'naming/test-file-naming-convention',
         name: 'Test file naming convention',
         category: 'naming',
         severity: 'error',
@@ -428,11 +961,17 @@ export class ConfigLoader implements IConfigLoader {
       },
 
       {
+        id: 'structure/missing-index-ts-in-organization-folders',
         name: 'Missing index.ts in organization folders',
         category: 'structure',
         severity: 'warning',
-        check: (_content: string, filePath: string): boolean => {
-          if (this.isConfigFile(filePath)) {
+        optionsSchema: CONFIG_FILE_OPTIONS,
+        check: (
+          _content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): boolean => {
+          if (this.isConfigFile(filePath, options)) {
             return false;
           }
 
@@ -494,6 +1033,7 @@ export class ConfigLoader implements IConfigLoader {
   private getNamingRules(): IValidationRule[] {
     return [
       {
+        id: 'naming/constant-export-naming-uppercase',
         name: 'Constant export naming UPPERCASE',
         category: 'naming',
         severity: 'error',
@@ -522,12 +1062,18 @@ export class ConfigLoader implements IConfigLoader {
           'Constant names exported in .constant.ts files must be UPPERCASE (e.g., export const DEFAULT_MIN_WAIT_TIME)',
       },
       {
+        id: 'naming/component-naming',
         name: 'Component naming',
         category: 'naming',
         severity: 'error',
-        check: (_content: string, filePath: string): boolean => {
+        optionsSchema: CONFIG_FILE_OPTIONS,
+        check: (
+          _content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): boolean => {
           // Skip configuration files
-          if (this.isConfigFile(filePath)) {
+          if (this.isConfigFile(filePath, options)) {
             return false;
           }
 
@@ -574,12 +1120,18 @@ export class ConfigLoader implements IConfigLoader {
           'Component files should start with uppercase letter (PascalCase). For index.tsx files, the parent directory should be PascalCase.',
       },
       {
+        id: 'naming/hook-naming',
         name: 'Hook naming',
         category: 'naming',
         severity: 'error',
-        check: (_content: string, filePath: string): boolean => {
+        optionsSchema: CONFIG_FILE_OPTIONS,
+        check: (
+          _content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): boolean => {
           // Skip configuration files
-          if (this.isConfigFile(filePath)) {
+          if (this.isConfigFile(filePath, options)) {
             return false;
           }
 
@@ -623,12 +1175,18 @@ export class ConfigLoader implements IConfigLoader {
           'Hook files should follow "useHookName.hook.ts" pattern with PascalCase (e.g., useFormInputPassword.hook.tsx, useApiData.hook.ts)',
       },
       {
+        id: 'naming/type-naming',
         name: 'Type naming',
         category: 'naming',
         severity: 'error',
-        check: (_content: string, filePath: string): boolean => {
+        optionsSchema: CONFIG_FILE_OPTIONS,
+        check: (
+          _content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): boolean => {
           // Skip configuration files
-          if (this.isConfigFile(filePath)) {
+          if (this.isConfigFile(filePath, options)) {
             return false;
           }
 
@@ -672,6 +1230,7 @@ export class ConfigLoader implements IConfigLoader {
           'Type files should be camelCase and end with .type.ts (index.ts files are allowed for exports)',
       },
       {
+        id: 'naming/constants-naming',
         name: 'Constants naming',
         category: 'naming',
         severity: 'info',
@@ -700,6 +1259,7 @@ export class ConfigLoader implements IConfigLoader {
           'Constants files should be camelCase and end with .constant.ts',
       },
       {
+        id: 'naming/helper-naming',
         name: 'Helper naming',
         category: 'naming',
         severity: 'error',
@@ -729,30 +1289,7 @@ export class ConfigLoader implements IConfigLoader {
           'Helper files should be camelCase and end with .helper.ts or .helper.tsx',
       },
       {
-        name: 'Style naming',
-        category: 'naming',
-        severity: 'error',
-        check: (_content: string, filePath: string): boolean => {
-          const fileName = path.basename(filePath);
-
-          // Skip index files - they are organization files, not style files
-          if (fileName === 'index.ts' || fileName === 'index.tsx') {
-            return false;
-          }
-
-          // Style files should be camelCase and end with .style.ts
-          if (filePath.includes('/styles/') || fileName.endsWith('.style.ts')) {
-            const stylePattern = /^[a-z][a-zA-Z0-9]*\.style\.ts$/;
-            if (!stylePattern.test(fileName)) {
-              return true;
-            }
-          }
-
-          return false;
-        },
-        message: 'Style files should be camelCase and end with .style.ts',
-      },
-      {
+        id: 'naming/assets-naming',
         name: 'Assets naming',
         category: 'naming',
         severity: 'error',
@@ -777,12 +1314,18 @@ export class ConfigLoader implements IConfigLoader {
           'Assets should follow kebab-case naming (e.g., service-error.svg)',
       },
       {
+        id: 'naming/folder-naming-convention',
         name: 'Folder naming convention',
         category: 'naming',
         severity: 'error',
-        check: (_content: string, filePath: string): boolean => {
+        optionsSchema: CONFIG_FILE_OPTIONS,
+        check: (
+          _content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): boolean => {
           // Skip configuration files
-          if (this.isConfigFile(filePath)) {
+          if (this.isConfigFile(filePath, options)) {
             return false;
           }
 
@@ -800,12 +1343,18 @@ export class ConfigLoader implements IConfigLoader {
           'Use plural folder names: helpers, hooks, types, constants, enums (not singular)',
       },
       {
+        id: 'naming/directory-naming-convention',
         name: 'Directory naming convention',
         category: 'naming',
         severity: 'info',
-        check: (_content: string, filePath: string): boolean => {
+        optionsSchema: CONFIG_FILE_OPTIONS,
+        check: (
+          _content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): boolean => {
           // Skip configuration files
-          if (this.isConfigFile(filePath)) {
+          if (this.isConfigFile(filePath, options)) {
             return false;
           }
 
@@ -873,6 +1422,7 @@ export class ConfigLoader implements IConfigLoader {
           'Directories should follow camelCase or PascalCase convention (kebab-case allowed for Next.js routes)',
       },
       {
+        id: 'naming/interface-naming-with-i-prefix',
         name: 'Interface naming with I prefix',
         category: 'naming',
         severity: 'error',
@@ -900,6 +1450,10 @@ export class ConfigLoader implements IConfigLoader {
           });
           return violationLines;
         },
+        // Renames the declaration and type references, exported interfaces
+        // are left alone because renaming them would break other files
+        fix: (content: string, filePath: string): ITextEdit[] =>
+          renameInterfaceEdits(content, filePath),
         message:
           'Interfaces must be prefixed with "I" followed by PascalCase (e.g., IGlobalStateHashProviderProps)',
       },
@@ -934,49 +1488,25 @@ export class ConfigLoader implements IConfigLoader {
 
     return [
       {
+        id: 'content/no-console-log',
         name: 'No console.log',
         category: 'content',
         severity: 'error',
-        check: (content: string): number[] => {
-          const lines = content.split('\n');
-          const violationLines: number[] = [];
-          let inJSDoc = false;
-          let inMultiLineComment = false;
-          lines.forEach((line, idx) => {
-            const trimmed = line.trim();
-            // Detect start/end of JSDoc
-            if (trimmed.startsWith('/**')) inJSDoc = true;
-            if (inJSDoc && trimmed.includes('*/')) {
-              inJSDoc = false;
-              return;
-            }
-            // Detect start/end of multiline comment (not JSDoc)
-            if (trimmed.startsWith('/*') && !trimmed.startsWith('/**'))
-              inMultiLineComment = true;
-            if (inMultiLineComment && trimmed.includes('*/')) {
-              inMultiLineComment = false;
-              return;
-            }
-            // Skip if inside any comment block
-            if (inJSDoc || inMultiLineComment) return;
-            // Skip single line comments
-            if (trimmed.startsWith('//')) return;
-            // Only flag true console.log outside comments
-            if (/console\.log\s*\(/.test(line)) {
-              violationLines.push(idx + 1);
-            }
-          });
-          return violationLines;
-        },
+        check: (content: string): number[] => this.findConsoleLogLines(content),
+        fix: (content: string) => this.fixConsoleLog(content),
         message:
           'The use of console.log is not allowed. Remove debug statements from production code.',
       },
       // ...rest of reglas...
       {
+        id: 'content/no-circular-dependencies',
         name: 'No circular dependencies',
+        aliases: ['structure/no-circular-dependencies'],
         category: 'content',
         severity: 'warning',
-        check: (_content: string, filePath: string): boolean => {
+        check: (content: string, filePath: string): boolean => {
+          if (this.importsItself(content, filePath)) return true;
+
           const extensions = ['.js', '.ts', '.jsx', '.tsx'];
           // Only rebuild the graph if for a new root file
           if (graphBuiltFor !== filePath) {
@@ -989,14 +1519,14 @@ export class ConfigLoader implements IConfigLoader {
           'Potential circular dependency detected. Refactor to avoid circular imports (direct or indirect).',
       },
       {
+        id: 'content/no-inline-styles',
         name: 'No inline styles',
+        aliases: ['style/no-inline-styles'],
         category: 'content',
-        check: (content: string, filePath: string): number[] => {
-          // Skip files inside Svg folders for React Native projects
-          const isRNProject = isReactNativeProject(filePath);
-          if (isRNProject && /\/Svg\//.test(filePath)) {
-            return [];
-          }
+        appliesTo: {
+          excludedFiles: { 'react-native': REACT_NATIVE_SVG_FILES },
+        },
+        check: (content: string): number[] => {
           // Detecta estilos en línea en JSX/TSX
           const lines = content.split('\n');
           const violationLines: number[] = [];
@@ -1031,6 +1561,7 @@ export class ConfigLoader implements IConfigLoader {
         message: 'Avoid inline styles, use CSS classes or styled components',
       },
       {
+        id: 'content/no-var',
         name: 'No var',
         category: 'content',
         severity: 'error',
@@ -1044,18 +1575,24 @@ export class ConfigLoader implements IConfigLoader {
           });
           return violationLines;
         },
+        // Only where let behaves the same, other cases are reported only
+        fix: (content: string, filePath: string): ITextEdit[] =>
+          varToLetEdits(content, filePath),
         message: 'Use let or const instead of var',
       },
       {
+        id: 'typescript/no-any-type',
         name: 'No any type',
         category: 'typescript',
-        // La severidad se determina en tiempo de ejecución en el sistema de reporte
         severity: 'warning',
-        check: (content: string, filePath: string): number[] => {
-          // Detectar si es proyecto React Native
-          const isRNProject = isReactNativeProject(filePath);
+        optionsSchema: CONFIG_FILE_OPTIONS,
+        check: (
+          content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): number[] => {
           // Skip configuración y type declaration files
-          if (this.isConfigFile(filePath)) {
+          if (this.isConfigFile(filePath, options)) {
             return [];
           }
           if (content.includes('declare')) return [];
@@ -1077,21 +1614,18 @@ export class ConfigLoader implements IConfigLoader {
               violationLines.push(idx + 1);
             }
           });
-          // @ts-ignore: Custom property para el sistema de reporte
-          (violationLines as any).severity = isRNProject ? 'warning' : 'error';
           return violationLines;
         },
         message:
           'Avoid using "any" type. Use specific types or unknown instead',
       },
       {
+        id: 'performance/next-js-image-optimization',
         name: 'Next.js Image optimization',
         category: 'performance',
         severity: 'warning',
-        check: (content: string, filePath: string): boolean => {
-          if (!filePath.endsWith('.tsx') && !filePath.endsWith('.jsx'))
-            return false;
-
+        appliesTo: { frameworks: ['next'], extensions: ['.tsx', '.jsx'] },
+        check: (content: string): boolean => {
           const hasImgTag = /<img\s/i.test(content);
           const hasNextImage = /import.*Image.*from.*next\/image/.test(content);
 
@@ -1101,6 +1635,7 @@ export class ConfigLoader implements IConfigLoader {
           'Use Next.js Image component instead of <img> for better performance',
       },
       {
+        id: 'accessibility/image-alt-text',
         name: 'Image alt text',
         category: 'accessibility',
         severity: 'warning',
@@ -1122,6 +1657,7 @@ export class ConfigLoader implements IConfigLoader {
         message: 'Images should have alt text for accessibility',
       },
       {
+        id: 'content/no-alert',
         name: 'No alert',
         category: 'content',
         severity: 'error',
@@ -1142,12 +1678,24 @@ export class ConfigLoader implements IConfigLoader {
           'The use of alert() is not allowed. Use proper notifications or toast messages instead.',
       },
       {
+        id: 'content/no-hardcoded-urls',
         name: 'No hardcoded URLs',
         category: 'content',
         severity: 'error',
-        check: (content: string, filePath: string): number[] => {
+        optionsSchema: CONFIG_FILE_OPTIONS,
+        // SVG components often have legitimate xmlns URLs
+        appliesTo: {
+          excludedFiles: {
+            'react-native': [...REACT_NATIVE_SVG_FILES, '**/assets/**'],
+          },
+        },
+        check: (
+          content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): number[] => {
           // Skip configuration files
-          if (this.isConfigFile(filePath)) {
+          if (this.isConfigFile(filePath, options)) {
             return [];
           }
 
@@ -1165,21 +1713,6 @@ export class ConfigLoader implements IConfigLoader {
             return [];
           }
 
-          // Detect if this is a React Native project
-          const isRNProject = isReactNativeProject(filePath);
-
-          // For React Native projects, be more permisivo con componentes SVG
-          if (isRNProject) {
-            // Skip SVG components that often have legitimate xmlns URLs
-            if (
-              filePath.includes('/assets/') ||
-              filePath.includes('/Svg/') ||
-              filePath.includes('.svg')
-            ) {
-              return [];
-            }
-          }
-
           // Check for hardcoded URLs but exclude common valid cases
           const violationLines: number[] = [];
           const lines = content.split('\n');
@@ -1200,6 +1733,7 @@ export class ConfigLoader implements IConfigLoader {
           'No hardcoded URLs allowed. Use environment variables or constants.',
       },
       {
+        id: 'content/must-use-async-await',
         name: 'Must use async/await',
         category: 'content',
         severity: 'warning',
@@ -1214,6 +1748,7 @@ export class ConfigLoader implements IConfigLoader {
           'Prefer async/await over .then() for better readability and error handling.',
       },
       {
+        id: 'content/no-jquery',
         name: 'No jQuery',
         category: 'content',
         severity: 'error',
@@ -1231,29 +1766,7 @@ export class ConfigLoader implements IConfigLoader {
           'jQuery is not allowed. Use modern JavaScript, React, or other framework methods instead.',
       },
       {
-        name: 'Component size limit',
-        category: 'content',
-        severity: 'warning',
-        check: (content: string, filePath: string): boolean => {
-          if (
-            !filePath.endsWith('.tsx') ||
-            !filePath.includes('/components/')
-          ) {
-            return false;
-          }
-
-          const lines = content.split('\n');
-          const nonEmptyLines = lines.filter(
-            (line) => line.trim() !== ''
-          ).length;
-
-          // Components should not exceed 200 lines of actual code
-          return nonEmptyLines > 200;
-        },
-        message:
-          'Component is too large (>200 lines). Consider breaking it into smaller components.',
-      },
-      {
+        id: 'structure/gitflow-branch-naming-convention',
         name: 'GitFlow branch naming convention',
         category: 'structure',
         severity: 'info',
@@ -1266,6 +1779,7 @@ export class ConfigLoader implements IConfigLoader {
           'Ensure branch follows GitFlow convention: type/Squad-HU (e.g., feature/Dash-EFI-101, fix/Team-BUG-123)',
       },
       {
+        id: 'content/no-merge-conflicts-markers',
         name: 'No merge conflicts markers',
         category: 'content',
         severity: 'error',
@@ -1290,12 +1804,18 @@ export class ConfigLoader implements IConfigLoader {
           'Git merge conflict markers found. Resolve all conflicts before committing.',
       },
       {
+        id: 'content/no-committed-credentials',
         name: 'No committed credentials',
         category: 'content',
         severity: 'error',
-        check: (content: string, filePath: string): number[] => {
+        optionsSchema: CONFIG_FILE_OPTIONS,
+        check: (
+          content: string,
+          filePath: string,
+          options?: IRuleOptions
+        ): number[] => {
           // Skip configuration files
-          if (this.isConfigFile(filePath)) {
+          if (this.isConfigFile(filePath, options)) {
             return [];
           }
 
@@ -1351,6 +1871,7 @@ export class ConfigLoader implements IConfigLoader {
           'Potential credentials or sensitive data detected. Use environment variables instead.',
       },
       {
+        id: 'structure/environment-specific-configuration',
         name: 'Environment-specific configuration',
         category: 'structure',
         severity: 'warning',
@@ -1375,6 +1896,7 @@ export class ConfigLoader implements IConfigLoader {
           'Use environment variables instead of hardcoded environment strings for better deployment flexibility.',
       },
       {
+        id: 'structure/proper-release-versioning',
         name: 'Proper release versioning',
         category: 'structure',
         severity: 'info',
@@ -1400,9 +1922,11 @@ export class ConfigLoader implements IConfigLoader {
           'Package version should follow semantic versioning (e.g., 1.5.11, 2.0.0-beta)',
       },
       {
+        id: 'structure/platform-specific-code-organization',
         name: 'Platform-specific code organization',
         category: 'structure',
         severity: 'warning',
+        appliesTo: { frameworks: ['react-native'] },
         check: (content: string, filePath: string): boolean => {
           // Check for platform-specific imports that should be organized properly
           const hasWebSpecific = /react-dom|next\/|dom\//.test(content);
@@ -1429,6 +1953,7 @@ export class ConfigLoader implements IConfigLoader {
           'Platform-specific code should be separated. Use .web.tsx and .native.tsx extensions for platform-specific implementations.',
       },
       {
+        id: 'structure/sync-branch-validation',
         name: 'Sync branch validation',
         category: 'structure',
         severity: 'info',
@@ -1447,18 +1972,34 @@ export class ConfigLoader implements IConfigLoader {
    */
   private convertObjectRulesToArray(
     rulesObject: IRulesObjectFormat,
-    defaultRules: IDefaultRulesStructure
+    defaultRules: IDefaultRulesStructure | IValidationRule[]
   ): IValidationRule[] {
-    const allDefaultRules = Object.values(defaultRules).flat();
+    const allDefaultRules = Array.isArray(defaultRules)
+      ? defaultRules
+      : Object.values(defaultRules).flat();
     const validationRules: IValidationRule[] = [];
 
-    for (const [ruleName, ruleValue] of Object.entries(rulesObject)) {
-      const defaultRule = allDefaultRules.find(
-        (rule) => rule.name === ruleName
-      );
+    for (const [ruleKey, ruleValue] of Object.entries(rulesObject)) {
+      const byId = allDefaultRules.filter((rule) => rule.id === ruleKey);
+      const matches =
+        byId.length > 0
+          ? byId
+          : allDefaultRules.filter((rule) => matchesRule(rule, ruleKey));
 
-      if (defaultRule) {
-        // Use the default rule as base
+      if (matches.length === 0) {
+        this.logger.warn(`Unknown rule: ${ruleKey}`);
+        continue;
+      }
+      if (byId.length === 0) {
+        this.logger.warn(
+          `Rule name "${ruleKey}" is deprecated, use ${matches
+            .map((rule) => `"${rule.id}"`)
+            .join(' or ')} instead`
+        );
+      }
+
+      // Use the default rules as base
+      for (const defaultRule of matches) {
         if (ruleValue === true) {
           validationRules.push(defaultRule);
         } else if (
@@ -1470,15 +2011,41 @@ export class ConfigLoader implements IConfigLoader {
             ...defaultRule,
             severity: ruleValue,
           });
+        } else if (Array.isArray(ruleValue)) {
+          validationRules.push(
+            this.withRuleOptions(defaultRule, ruleKey, ruleValue)
+          );
         }
-      } else {
-        this.logger.warn(`Unknown rule: ${ruleName}`);
       }
     }
 
     return validationRules;
   }
 
+  /**
+   * Apply a `[severity, options]` entry to a default rule. Invalid options
+   * are reported and the rule keeps their defaults.
+   */
+  private withRuleOptions(
+    defaultRule: IValidationRule,
+    ruleKey: string,
+    [severity, options]: [IRuleSeverity, IRuleOptions]
+  ): IValidationRule {
+    const validation = validateRuleOptions(
+      defaultRule.optionsSchema,
+      options ?? {}
+    );
+    for (const problem of validation.problems) {
+      this.logger.warn(`Invalid options for rule "${ruleKey}": ${problem}`);
+    }
+
+    return {
+      ...defaultRule,
+      ...(['error', 'warning', 'info'].includes(severity) ? { severity } : {}),
+      options: { ...defaultRule.options, ...validation.options },
+    };
+  }
+
   /**
    * Get style validation rules
    * @returns Style rules
@@ -1486,18 +2053,27 @@ export class ConfigLoader implements IConfigLoader {
   private getStyleRules(): IValidationRule[] {
     return [
       {
+        id: 'style/style-naming',
         name: 'Style naming',
+        aliases: ['naming/style-naming'],
         category: 'style',
-        severity: 'warning',
-        check: (content: string, filePath: string): boolean => {
-          if (!filePath.includes('.style.')) {
+        severity: 'error',
+        check: (_content: string, filePath: string): boolean => {
+          const fileName = path.basename(filePath);
+
+          // Skip index files - they are organization files, not style files
+          if (fileName === 'index.ts' || fileName === 'index.tsx') {
             return false;
           }
 
-          const hasStyleExport = /export\s+const\s+\w+Styles\s*=/.test(content);
-          return !hasStyleExport;
+          // Style files should be camelCase and end with .style.ts. The
+          // names of their style objects are checked by the validators.
+          return (
+            (filePath.includes('/styles/') || fileName.endsWith('.style.ts')) &&
+            !/^[a-z][a-zA-Z0-9]*\.style\.ts$/.test(fileName)
+          );
         },
-        message: 'Style objects should end with "Styles" suffix',
+        message: 'Style files should be camelCase and end with .style.ts',
       },
     ];
   }
@@ -1509,23 +2085,35 @@ export class ConfigLoader implements IConfigLoader {
   private getDocumentationRules(): IValidationRule[] {
     return [
       {
+        id: 'documentation/missing-comment-in-complex-function',
         name: 'Missing comment in complex function',
         category: 'documentation',
         severity: 'warning',
-        check: (content: string): boolean => {
+        optionsSchema: COMPLEX_FUNCTION_OPTIONS,
+        check: (
+          content: string,
+          _filePath: string,
+          options?: IRuleOptions
+        ): boolean => {
           const functionRegex = /function\s+\w+\([^)]*\)\s*\{[\s\S]*?\}/g;
           const functions = content.match(functionRegex) || [];
+          const { maxLines } = resolveRuleOptions(
+            COMPLEX_FUNCTION_OPTIONS,
+            options
+          );
 
           return functions.some((func) => {
-            const lines = func.split('\n').length;
+            // The declaration and closing brace lines are not counted
+            const lines = func.split('\n').length - 2;
             const hasComment = /\/\*\*[\s\S]*?\*\/|\/\//.test(func);
-            return lines > 10 && !hasComment;
+            return lines > (maxLines as number) && !hasComment;
           });
         },
         message:
           'Complex functions should have comments explaining their purpose',
       },
       {
+        id: 'documentation/should-have-tsdoc-comments',
         name: 'Should have TSDoc comments',
         category: 'documentation',
         severity: 'info',
@@ -1556,6 +2144,7 @@ export class ConfigLoader implements IConfigLoader {
           'Exported functions should have TSDoc comments with @param and @returns',
       },
       {
+        id: 'documentation/jsdoc-for-complex-functions',
         name: 'JSDoc for complex functions',
         category: 'documentation',
         severity: 'info',
@@ -1600,6 +2189,7 @@ export class ConfigLoader implements IConfigLoader {
           'Very complex functions (500+ chars) should have JSDoc comments explaining their behavior',
       },
       {
+        id: 'documentation/english-only-comments',
         name: 'English-only comments',
         category: 'documentation',
         severity: 'error',
@@ -1798,6 +2388,7 @@ export class ConfigLoader implements IConfigLoader {
   private getTypeScriptRules(): IValidationRule[] {
     return [
       {
+        id: 'typescript/prefer-type-over-interface-for-unions',
         name: 'Prefer type over interface for unions',
         category: 'typescript',
         severity: 'warning',
@@ -1838,6 +2429,7 @@ export class ConfigLoader implements IConfigLoader {
           'Use "type" instead of "interface" for union types (union alternatives, not union properties)',
       },
       {
+        id: 'typescript/explicit-return-types-for-functions',
         name: 'Explicit return types for functions',
         category: 'typescript',
         severity: 'info',
@@ -1865,6 +2457,7 @@ export class ConfigLoader implements IConfigLoader {
           'Public API functions should have explicit return type annotations for better documentation',
       },
       {
+        id: 'typescript/proper-generic-naming',
         name: 'Proper generic naming',
         category: 'typescript',
         severity: 'info', // Cambiado de 'warning' a 'info'
@@ -1899,9 +2492,11 @@ export class ConfigLoader implements IConfigLoader {
   private getReactRules(): IValidationRule[] {
     return [
       {
+        id: 'react/client-component-directive',
         name: 'Client component directive',
         category: 'react',
         severity: 'error',
+        appliesTo: { frameworks: ['next'] },
         check: (content: string, filePath: string): boolean => {
           // Excluir archivos que terminen en .hook.ts o .hook.tsx
           if (filePath.endsWith('.hook.ts') || filePath.endsWith('.hook.tsx')) {
@@ -1930,10 +2525,14 @@ export class ConfigLoader implements IConfigLoader {
 
           return hasClientFeatures && !hasUseClientDirective;
         },
+        fix: (): ITextEdit[] => [
+          { start: 0, end: 0, text: "'use client';\n\n" },
+        ],
         message:
           'Components with client-side features must include "use client" directive',
       },
       {
+        id: 'react/proper-hook-dependencies',
         name: 'Proper hook dependencies',
         category: 'react',
         severity: 'warning',
@@ -1946,6 +2545,7 @@ export class ConfigLoader implements IConfigLoader {
           'useEffect, useCallback, and useMemo should include all dependencies in the dependency array',
       },
       {
+        id: 'react/component-props-interface',
         name: 'Component props interface',
         category: 'react',
         severity: 'warning',
@@ -1965,6 +2565,7 @@ export class ConfigLoader implements IConfigLoader {
           'React components should define their props with TypeScript interfaces or types',
       },
       {
+        id: 'react/avoid-react-fc',
         name: 'Avoid React.FC',
         category: 'react',
         severity: 'warning',
@@ -1978,10 +2579,12 @@ export class ConfigLoader implements IConfigLoader {
           });
           return violationLines;
         },
+        fix: (content: string): ITextEdit[] => this.fixReactFC(content),
         message:
           'Avoid using React.FC, use regular function declaration or arrow function with explicit props typing',
       },
       {
+        id: 'react/proper-key-prop-in-lists',
         name: 'Proper key prop in lists',
         category: 'react',
         severity: 'error',
@@ -1998,6 +2601,7 @@ export class ConfigLoader implements IConfigLoader {
         message: 'Elements in arrays should have a key prop',
       },
       {
+        id: 'react/styled-components-naming',
         name: 'Styled components naming',
         category: 'react',
         severity: 'warning',
@@ -2028,6 +2632,7 @@ export class ConfigLoader implements IConfigLoader {
           'Styled components should use PascalCase naming (e.g., StyledButton, Container)',
       },
       {
+        id: 'style/tailwind-css-preference',
         name: 'Tailwind CSS preference',
         category: 'style',
         severity: 'info',
@@ -2051,9 +2656,11 @@ export class ConfigLoader implements IConfigLoader {
           'Consider using Tailwind CSS as primary styling approach before styled-components',
       },
       {
+        id: 'naming/next-js-app-router-naming',
         name: 'Next.js app router naming',
         category: 'naming',
         severity: 'error',
+        appliesTo: { frameworks: ['next'] },
         check: (_content: string, filePath: string): boolean => {
           // Check Next.js app router directory naming
           if (!filePath.includes('/app/') || filePath.includes('/api/')) {
@@ -2132,6 +2739,7 @@ export class ConfigLoader implements IConfigLoader {
   private getImportRules(): IValidationRule[] {
     return [
       {
+        id: 'imports/direct-imports-for-sibling-files',
         name: 'Direct imports for sibling files',
         category: 'imports',
         severity: 'error',
@@ -2141,6 +2749,7 @@ export class ConfigLoader implements IConfigLoader {
         message: `Files to import should be done directly, not through the index. Replace import { Component } from "." with import { Component } from "./component"`,
       },
       {
+        id: 'structure/import-order',
         name: 'Import order',
         category: 'structure',
         severity: 'warning',
@@ -2159,18 +2768,7 @@ export class ConfigLoader implements IConfigLoader {
           const violationLines: number[] = [];
 
           for (const { line: importLine, idx } of importLines) {
-            let currentType = 0;
-            if (
-              importLine.includes("from './") ||
-              importLine.includes("from '../")
-            ) {
-              currentType = 2; // relative
-            } else if (
-              importLine.includes("from '@/") ||
-              importLine.includes("from '~/")
-            ) {
-              currentType = 1; // internal alias
-            }
+            const currentType = this.getImportGroup(importLine);
             if (currentType < lastType) {
               violationLines.push(idx + 1); // Línea donde el orden es incorrecto
             }
@@ -2178,10 +2776,12 @@ export class ConfigLoader implements IConfigLoader {
           }
           return violationLines;
         },
+        fix: (content: string): ITextEdit[] => this.fixImportOrder(content),
         message:
           'Imports should be ordered: external packages, internal aliases, relative imports',
       },
       {
+        id: 'imports/use-absolute-imports',
         name: 'Use absolute imports',
         category: 'imports',
         severity: 'warning',
@@ -2195,6 +2795,7 @@ export class ConfigLoader implements IConfigLoader {
           'Use absolute imports (@/ or ~/) instead of deep relative imports (../../)',
       },
       {
+        id: 'imports/no-default-and-named-imports-mixed',
         name: 'No default and named imports mixed',
         category: 'imports',
         severity: 'info',
@@ -2206,12 +2807,14 @@ export class ConfigLoader implements IConfigLoader {
           'Prefer separate import statements for default and named imports for better readability',
       },
       {
+        id: 'imports/no-unused-imports',
         name: 'No unused imports',
         category: 'imports',
         severity: 'warning',
         check: (content: string): boolean => {
           return this.hasUnusedImports(content);
         },
+        fix: (content: string): ITextEdit[] => this.fixUnusedImports(content),
         message:
           'Remove unused imports to keep the code clean and reduce bundle size',
       },
@@ -2224,6 +2827,7 @@ export class ConfigLoader implements IConfigLoader {
   private getPerformanceRules(): IValidationRule[] {
     return [
       {
+        id: 'performance/avoid-inline-functions-in-jsx',
         name: 'Avoid inline functions in JSX',
         category: 'performance',
         severity: 'warning',
@@ -2239,6 +2843,7 @@ export class ConfigLoader implements IConfigLoader {
           'Avoid inline functions in JSX props, use useCallback or move to a method',
       },
       {
+        id: 'performance/missing-react-memo-for-pure-components',
         name: 'Missing React.memo for pure components',
         category: 'performance',
         severity: 'info',
@@ -2260,6 +2865,7 @@ export class ConfigLoader implements IConfigLoader {
           'Consider wrapping pure components with React.memo for better performance',
       },
       {
+        id: 'performance/large-bundle-imports',
         name: 'Large bundle imports',
         category: 'performance',
         severity: 'warning',
@@ -2276,6 +2882,7 @@ export class ConfigLoader implements IConfigLoader {
           'Consider using specific imports or lighter alternatives for large libraries',
       },
       {
+        id: 'performance/avoid-re-renders-with-object-literals',
         name: 'Avoid re-renders with object literals',
         category: 'performance',
         severity: 'warning',
@@ -2299,6 +2906,7 @@ export class ConfigLoader implements IConfigLoader {
   private getAccessibilityRules(): IValidationRule[] {
     return [
       {
+        id: 'accessibility/button-missing-accessible-name',
         name: 'Button missing accessible name',
         category: 'accessibility',
         severity: 'error',
@@ -2333,6 +2941,7 @@ export class ConfigLoader implements IConfigLoader {
           'Buttons should have accessible names via text content, aria-label, or aria-labelledby',
       },
       {
+        id: 'accessibility/form-inputs-missing-labels',
         name: 'Form inputs missing labels',
         category: 'accessibility',
         severity: 'error',
@@ -2356,6 +2965,7 @@ export class ConfigLoader implements IConfigLoader {
           'Form inputs should have associated labels or aria-label attributes',
       },
       {
+        id: 'accessibility/links-missing-accessible-names',
         name: 'Links missing accessible names',
         category: 'accessibility',
         severity: 'warning',
@@ -2386,6 +2996,7 @@ export class ConfigLoader implements IConfigLoader {
           'Links should have descriptive text content or aria-label attributes',
       },
       {
+        id: 'accessibility/missing-focus-management',
         name: 'Missing focus management',
         category: 'accessibility',
         severity: 'info',
@@ -2404,6 +3015,7 @@ export class ConfigLoader implements IConfigLoader {
           'Components with modals or dynamic content should manage focus for accessibility',
       },
       {
+        id: 'accessibility/color-contrast-considerations',
         name: 'Color contrast considerations',
         category: 'accessibility',
         severity: 'info',
@@ -2422,6 +3034,233 @@ export class ConfigLoader implements IConfigLoader {
     ];
   }
 
+  /**
+   * Import group used by the import order rule
+   * @returns 0: external, 1: internal alias, 2: relative
+   */
+  private getImportGroup(importLine: string): number {
+    if (importLine.includes("from './") || importLine.includes("from '../")) {
+      return 2;
+    }
+    if (importLine.includes("from '@/") || importLine.includes("from '~/")) {
+      return 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Lines (1-based) with console.log calls outside of comments
+   */
+  private findConsoleLogLines(content: string): number[] {
+    const lines = content.split('\n');
+    const violationLines: number[] = [];
+    let inJSDoc = false;
+    let inMultiLineComment = false;
+    lines.forEach((line, idx) => {
+      const trimmed = line.trim();
+      // Detect start/end of JSDoc
+      if (trimmed.startsWith('/**')) inJSDoc = true;
+      if (inJSDoc && trimmed.includes('*/')) {
+        inJSDoc = false;
+        return;
+      }
+      // Detect start/end of multiline comment (not JSDoc)
+      if (trimmed.startsWith('/*') && !trimmed.startsWith('/**'))
+        inMultiLineComment = true;
+      if (inMultiLineComment && trimmed.includes('*/')) {
+        inMultiLineComment = false;
+        return;
+      }
+      // Skip if inside any comment block
+      if (inJSDoc || inMultiLineComment) return;
+      // Skip single line comments
+      if (trimmed.startsWith('//')) return;
+      // Only flag true console.log outside comments
+      if (/console\.log\s*\(/.test(line)) {
+        violationLines.push(idx + 1);
+      }
+    });
+    return violationLines;
+  }
+
+  /**
+   * Remove console.log statements that stand on their own lines.
+   * Calls embedded in other expressions are left for manual review.
+   */
+  private fixConsoleLog(content: string): ITextEdit[] {
+    const lines = content.split('\n');
+    const edits: ITextEdit[] = [];
+    let lastRemovedLine = 0;
+
+    for (const lineNumber of this.findConsoleLogLines(content)) {
+      if (lineNumber <= lastRemovedLine) continue;
+      const line = lines[lineNumber - 1] ?? '';
+      if (!/^\s*console\.log\s*\(/.test(line)) continue;
+
+      const endLine = this.findCallEndLine(lines, lineNumber - 1);
+      if (endLine === null) continue;
+      edits.push(removeLinesEdit(content, lineNumber, endLine + 1));
+      lastRemovedLine = endLine + 1;
+    }
+
+    return edits;
+  }
+
+  /**
+   * Index of the line closing the call that starts on startIdx, or null when
+   * the statement does not end the line (e.g. `console.log(a), other()`)
+   */
+  private findCallEndLine(lines: string[], startIdx: number): number | null {
+    let depth = 0;
+    let quote: string | null = null;
+    let started = false;
+
+    for (let idx = startIdx; idx < lines.length; idx++) {
+      const line = lines[idx] ?? '';
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quote) {
+          if (char === '\\') i++;
+          else if (char === quote) quote = null;
+          continue;
+        }
+        if (char === "'" || char === '"' || char === '`') quote = char;
+        else if (char === '(') {
+          depth++;
+          started = true;
+        } else if (char === ')') {
+          depth--;
+          if (started && depth === 0) {
+            const rest = line.slice(i + 1).trim();
+            return /^;?\s*(\/\/.*)?$/.test(rest) ? idx : null;
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Rewrite `const X: React.FC<P> = (props) =>` as `const X = (props: P) =>`
+   */
+  private fixReactFC(content: string): ITextEdit[] {
+    const edits: ITextEdit[] = [];
+    const componentRegex =
+      /^(\s*(?:export\s+)?const\s+\w+)\s*:\s*React\.(?:FC|FunctionComponent)(?:<(.+)>)?\s*=\s*\(([^():]*)\)(\s*=>.*)$/;
+
+    content.split('\n').forEach((line, idx) => {
+      const match = componentRegex.exec(line);
+      if (!match) return;
+      const [, declaration, propsType, rawParams = '', rest] = match;
+      const params = rawParams.trim();
+      // Untyped parameters without a props type would become implicit any
+      if (params && !propsType) return;
+
+      const typedParams = params && propsType ? `${params}: ${propsType}` : '';
+      edits.push(
+        replaceLineEdit(
+          content,
+          idx + 1,
+          `${declaration} = (${typedParams})${rest}`
+        )
+      );
+    });
+
+    return edits;
+  }
+
+  /**
+   * Reorder a contiguous block of single-line imports into external,
+   * internal alias and relative groups
+   */
+  private fixImportOrder(content: string): ITextEdit[] {
+    const lines = content.split('\n');
+    const importIdxs = lines
+      .map((line, idx) => (line.trim().startsWith('import') ? idx : -1))
+      .filter((idx) => idx !== -1);
+    const first = importIdxs[0];
+    const last = importIdxs.at(-1);
+    if (first === undefined || last === undefined || first === last) return [];
+
+    const block = lines.slice(first, last + 1);
+    const imports = block.filter((line) => line.trim() !== '');
+    // Multi-line and side-effect imports can't be moved safely
+    const movable = imports.every(
+      (line) =>
+        line.trim().startsWith('import') &&
+        / from\s+['"][^'"]+['"];?\s*$/.test(line)
+    );
+    if (!movable) return [];
+
+    const groups: string[][] = [[], [], []];
+    for (const line of imports) {
+      groups[this.getImportGroup(line)]!.push(line);
+    }
+    const separator = block.length > imports.length ? '\n\n' : '\n';
+    const sorted = groups
+      .filter((group) => group.length > 0)
+      .map((group) => group.join('\n'))
+      .join(separator);
+    if (sorted === block.join('\n')) return [];
+
+    const offsets = getLineOffsets(content);
+    const start = offsets[first]!;
+    return [{ start, end: start + block.join('\n').length, text: sorted }];
+  }
+
+  /**
+   * Remove unused names from single-line imports, or the whole import when
+   * nothing it brings in is used
+   */
+  private fixUnusedImports(content: string): ITextEdit[] {
+    const edits: ITextEdit[] = [];
+    const importRegex =
+      /^(\s*)import\s+([\w\s,{}*$]+?)\s+from\s+(['"][^'"]+['"])(;?)\s*$/;
+
+    content.split('\n').forEach((line, idx) => {
+      const match = importRegex.exec(line);
+      if (!match || !this.isUnusedImportLine(line, content)) return;
+      const [, indent = '', clause = '', source = '', semicolon = ''] = match;
+      // Aliased names are checked by their original name, don't guess
+      if (/\w\s+as\s+\w/.test(clause.replace(/\*\s+as\s+\w+/, ''))) return;
+      if (clause.includes('*') && clause.includes(',')) return;
+
+      const defaultName = /^([\w$]+)\s*(?:,|$)/.exec(clause.trim())?.[1];
+      const named = /\{([^}]*)\}/
+        .exec(clause)?.[1]
+        ?.split(',')
+        .map((name) => name.trim())
+        .filter(Boolean);
+
+      const keepDefault =
+        defaultName !== undefined && !this.isNameUnused(defaultName, content);
+      const keptNamed = (named ?? []).filter(
+        (name) => !this.isNameUnused(name.replace(/^type\s+/, ''), content)
+      );
+      const isNamespace = clause.trim().startsWith('*');
+
+      if (isNamespace || (!keepDefault && keptNamed.length === 0)) {
+        edits.push(removeLinesEdit(content, idx + 1));
+        return;
+      }
+
+      const parts = [
+        ...(keepDefault ? [defaultName] : []),
+        ...(keptNamed.length > 0 ? [`{ ${keptNamed.join(', ')} }`] : []),
+      ];
+      edits.push(
+        replaceLineEdit(
+          content,
+          idx + 1,
+          `${indent}import ${parts.join(', ')} from ${source}${semicolon}`
+        )
+      );
+    });
+
+    return edits;
+  }
+
   /**
    * Check if content has unused imports
    */
@@ -0,0 +1,223 @@
+import path from 'path';
+import type {
+  IEffectiveConfiguration,
+  IFileRulesSummary,
+  IOverrideSummary,
+  IRuleOrigin,
+  IRuleProfileName,
+  IRuleSummary,
+  IStandardsConfiguration,
+  IValidationRule,
+} from '../types/index.js';
+import type { RuleEngine } from './rule-engine.js';
+import { toRuleId } from '../helpers/ruleId.helper.js';
+import { resolveRuleOptions } from '../helpers/ruleOptions.helper.js';
+
+/**
+ * Whether a configured rule still behaves like the built-in rule. Built-in
+ * rules are recreated on every load, so functions are compared by source.
+ */
+function isUnchanged(
+  rule: IValidationRule,
+  defaultRule: IValidationRule
+): boolean {
+  return (
+    rule.severity === defaultRule.severity &&
+    rule.message === defaultRule.message &&
+    rule.category === defaultRule.category &&
+    JSON.stringify(rule.options ?? {}) ===
+      JSON.stringify(defaultRule.options ?? {}) &&
+    String(rule.check) === String(defaultRule.check) &&
+    String(rule.fix) === String(defaultRule.fix)
+  );
+}
+
+function summarizeRule(
+  rule: IValidationRule,
+  defaultRules: IValidationRule[]
+): IRuleSummary {
+  const defaultRule = defaultRules.find(
+    (candidate) => candidate.id !== undefined && candidate.id === rule.id
+  );
+  let origin: IRuleOrigin = 'custom';
+  if (defaultRule) {
+    origin = isUnchanged(rule, defaultRule) ? 'default' : 'modified';
+  }
+
+  return {
+    id: rule.id ?? toRuleId(rule.name),
+    name: rule.name,
+    category: rule.category ?? 'content',
+    severity: rule.severity ?? 'error',
+    origin,
+    ...(rule.optionsSchema
+      ? { options: resolveRuleOptions(rule.optionsSchema, rule.options) }
+      : {}),
+  };
+}
+
+/**
+ * The configuration the checker runs with, as plain data: every rule with
+ * its origin, and the settings that decide which files are validated
+ */
+export function describeConfiguration(
+  config: IStandardsConfiguration,
+  defaultRules: IValidationRule[],
+  configPath: string | null
+): IEffectiveConfiguration {
+  const overrides: IOverrideSummary[] = (config.overrides ?? []).map(
+    (override) => ({
+      files: override.files,
+      ...(override.excludedFiles
+        ? { excludedFiles: override.excludedFiles }
+        : {}),
+      rules: override.rules.map((rule) => rule.id ?? toRuleId(rule.name)),
+      disabledRules: override.disabledRules,
+    })
+  );
+
+  let profile: IRuleProfileName[] = [];
+  if (config.profile) {
+    profile = Array.isArray(config.profile) ? config.profile : [config.profile];
+  }
+
+  return {
+    configPath,
+    profile,
+    rules: (config.rules ?? []).map((rule) =>
+      summarizeRule(rule, defaultRules)
+    ),
+    zones: config.zones ?? {},
+    extensions: config.extensions ?? [],
+    ignorePatterns: config.ignorePatterns ?? [],
+    overrides,
+  };
+}
+
+/**
+ * Rules that apply to one file, after overrides, or why it isn't validated
+ */
+export function describeFileRules(
+  filePath: string,
+  rootDir: string,
+  config: IStandardsConfiguration,
+  ruleEngine: Pick<RuleEngine, 'getRulesForFile' | 'isConfigurationFile'>,
+  defaultRules: IValidationRule[]
+): IFileRulesSummary {
+  const absolutePath = path.resolve(rootDir, filePath);
+  const relativePath = path.relative(rootDir, absolutePath).replace(/\\/g, '/');
+  const extension = path.extname(absolutePath);
+
+  let skipped: string | undefined;
+  if (ruleEngine.isConfigurationFile(absolutePath)) {
+    skipped = 'configuration files are not validated';
+  } else if (config.extensions && !config.extensions.includes(extension)) {
+    skipped = `"${extension}" is not in extensions`;
+  }
+
+  return {
+    path: relativePath,
+    ...(skipped ? { skipped } : {}),
+    rules: skipped
+      ? []
+      : ruleEngine
+          .getRulesForFile(absolutePath)
+          .map((rule) => summarizeRule(rule, defaultRules)),
+  };
+}
+
+/**
+ * Innermost of the zones containing a file, the zone whose configuration
+ * the check command validates the file with
+ * @param relativePath File path relative to the project root
+ * @param zones Zones of the project, relative to the project root
+ */
+export function findFileZone(
+  relativePath: string,
+  zones: string[]
+): string | undefined {
+  return zones
+    .filter(
+      (zone) =>
+        zone === '.' ||
+        relativePath === zone ||
+        relativePath.startsWith(`${zone.replace(/\/$/, '')}/`)
+    )
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+function formatRuleTable(rules: IRuleSummary[]): string[] {
+  const header = ['ID', 'SEVERITY', 'CATEGORY', 'ORIGIN', 'NAME'];
+  const rows = rules.map((rule) => [
+    rule.id,
+    rule.severity,
+    rule.category,
+    rule.origin,
+    rule.options ? `${rule.name} ${JSON.stringify(rule.options)}` : rule.name,
+  ]);
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column]!.length))
+  );
+
+  return [header, ...rows].map((row) => {
+    const cells = row.map((cell, column) => cell.padEnd(widths[column]!));
+    return `  ${cells.join('  ')}`.trimEnd();
+  });
+}
+
+function formatList(values: string[]): string {
+  return values.length > 0 ? values.join(', ') : '(none)';
+}
+
+/**
+ * Text output of `config print`
+ */
+export function formatConfiguration(
+  description: IEffectiveConfiguration
+): string {
+  const lines = [
+    `Configuration: ${description.configPath ?? 'built-in defaults'}`,
+    ...(description.profile.length > 0
+      ? [`Profile: ${description.profile.join(', ')}`]
+      : []),
+    '',
+    `Rules (${description.rules.length}):`,
+    ...formatRuleTable(description.rules),
+    '',
+    `Zones: ${JSON.stringify(description.zones)}`,
+    `Extensions: ${formatList(description.extensions)}`,
+    `Ignore patterns: ${formatList(description.ignorePatterns)}`,
+  ];
+
+  if (description.overrides.length > 0) {
+    lines.push('Overrides:');
+    for (const override of description.overrides) {
+      const excluded = override.excludedFiles
+        ? ` (except ${override.excludedFiles.join(', ')})`
+        : '';
+      lines.push(
+        `  ${override.files.join(', ')}${excluded}: sets ${formatList(
+          override.rules
+        )}; disables ${formatList(override.disabledRules)}`
+      );
+    }
+  }
+
+  const { file } = description;
+  if (file) {
+    lines.push('');
+    if (file.zone) {
+      lines.push(`Zone ${file.zone} has configuration files of its own`);
+    }
+    if (file.skipped) {
+      lines.push(`${file.path} is not validated: ${file.skipped}`);
+    } else {
+      lines.push(
+        `Rules for ${file.path} (${file.rules.length}):`,
+        ...formatRuleTable(file.rules)
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
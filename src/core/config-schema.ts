@@ -0,0 +1,403 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  IConfigProblem,
+  IConfigurationExport,
+  IJsonSchema,
+  IRuleOptionsSchema,
+  IValidationRule,
+} from '../types/index.js';
+import { findGlobDirectories, isGlobPattern } from '../helpers/glob.helper.js';
+import { matchesRule } from '../helpers/ruleId.helper.js';
+import { validateRuleOptions } from '../helpers/ruleOptions.helper.js';
+import {
+  RULE_PROFILE_NAMES,
+  findProfileSelectionError,
+} from './rule-profiles.js';
+
+const SEVERITIES = ['error', 'warning', 'info'];
+
+const STRING_ARRAY: IJsonSchema = { type: 'array', items: { type: 'string' } };
+
+const ZONE_PROPERTIES: Record<string, IJsonSchema> = {
+  includePackages: {
+    type: 'boolean',
+    description: "Whether to validate the 'packages' directory",
+  },
+  customZones: {
+    ...STRING_ARRAY,
+    description: 'Directories to validate as zones, relative to the project',
+  },
+  excludePatterns: STRING_ARRAY,
+  onlyZone: { type: 'string', description: 'Only validate this zone' },
+};
+
+const CACHE_PROPERTIES: Record<string, IJsonSchema> = {
+  enabled: { type: 'boolean' },
+  ttl: { type: 'number', description: 'Milliseconds' },
+  strategy: { enum: ['memory', 'file'] },
+};
+
+const PERFORMANCE_PROPERTIES: Record<string, IJsonSchema> = {
+  maxConcurrentFiles: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Worker threads validating files in parallel',
+  },
+  timeoutMs: {
+    type: 'number',
+    description: 'Per file; a slower file fails validation',
+  },
+};
+
+const OVERRIDE_KEYS = ['files', 'excludedFiles', 'rules'];
+
+// Every key a configuration object may have, with the schema of its value.
+// `rules` and `overrides` depend on the available rules.
+const CONFIG_PROPERTIES: Record<string, IJsonSchema> = {
+  $schema: { type: 'string' },
+  extends: {
+    oneOf: [{ type: 'string' }, STRING_ARRAY],
+    description: 'Presets to build on: package names or relative paths',
+  },
+  root: {
+    type: 'boolean',
+    description:
+      "In a zone's config file: don't merge the config files of parent directories",
+  },
+  profile: {
+    oneOf: [
+      { enum: RULE_PROFILE_NAMES },
+      { type: 'array', items: { enum: RULE_PROFILE_NAMES } },
+    ],
+    description:
+      'Built-in rule profile (recommended, strict or legacy), optionally with next, react-native or library layers',
+  },
+  rules: {},
+  overrides: {},
+  zones: objectSchema(ZONE_PROPERTIES),
+  merge: {
+    type: 'boolean',
+    description: 'Merge custom rules with the default rules',
+  },
+  extensions: STRING_ARRAY,
+  ignorePatterns: STRING_ARRAY,
+  verbose: { type: 'boolean' },
+  outputFormat: { oneOf: [{ type: 'string' }, STRING_ARRAY] },
+  formatters: { type: 'array' },
+  onlyChangedFiles: {
+    type: 'boolean',
+    description: 'Only check files staged for commit',
+  },
+  hooks: { type: 'object' },
+  cache: objectSchema(CACHE_PROPERTIES),
+  performance: objectSchema(PERFORMANCE_PROPERTIES),
+};
+
+function objectSchema(properties: Record<string, IJsonSchema>): IJsonSchema {
+  return { type: 'object', additionalProperties: false, properties };
+}
+
+function optionsSchemaToJson(schema?: IRuleOptionsSchema): IJsonSchema {
+  if (!schema) return { type: 'object' };
+
+  const properties: Record<string, IJsonSchema> = {};
+  for (const [key, definition] of Object.entries(schema)) {
+    properties[key] = {
+      ...(definition.type === 'string[]'
+        ? STRING_ARRAY
+        : { type: definition.type }),
+      default: definition.default,
+      ...(definition.description
+        ? { description: definition.description }
+        : {}),
+    };
+  }
+  return objectSchema(properties);
+}
+
+function ruleValueSchema(rule?: IValidationRule): IJsonSchema {
+  return {
+    oneOf: [
+      { type: 'boolean' },
+      { enum: SEVERITIES },
+      {
+        type: 'array',
+        items: [{ enum: SEVERITIES }, optionsSchemaToJson(rule?.optionsSchema)],
+        minItems: 2,
+        maxItems: 2,
+      },
+    ],
+  };
+}
+
+/**
+ * JSON Schema of configuration objects, with the given rules as known keys
+ * of `rules` for editor completion
+ */
+export function buildConfigSchema(rules: IValidationRule[]): IJsonSchema {
+  const ruleProperties: Record<string, IJsonSchema> = {};
+  for (const rule of rules) {
+    if (!rule.id) continue;
+    ruleProperties[rule.id] = {
+      ...ruleValueSchema(rule),
+      description: rule.message,
+    };
+  }
+  // Deprecated names and custom rules are allowed as well
+  const rulesSchema: IJsonSchema = {
+    type: 'object',
+    properties: ruleProperties,
+    additionalProperties: ruleValueSchema(),
+  };
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Frontend Standards Checker configuration',
+    ...objectSchema({
+      ...CONFIG_PROPERTIES,
+      rules: rulesSchema,
+      overrides: {
+        type: 'array',
+        items: {
+          ...objectSchema({
+            files: { ...STRING_ARRAY, minItems: 1 },
+            excludedFiles: STRING_ARRAY,
+            rules: rulesSchema,
+          }),
+          required: ['files'],
+        },
+      },
+    }),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function findUnknownKeys(
+  value: Record<string, unknown>,
+  knownKeys: string[],
+  parent: string
+): IConfigProblem[] {
+  return Object.keys(value)
+    .filter((key) => !knownKeys.includes(key))
+    .map((key) => ({
+      kind: 'unknown-key',
+      path: joinPath(parent, key),
+      message: `Unknown key "${key}"`,
+    }));
+}
+
+function findRuleProblems(
+  rules: unknown,
+  candidates: IValidationRule[],
+  parent: string
+): IConfigProblem[] {
+  const problems: IConfigProblem[] = [];
+
+  if (Array.isArray(rules)) {
+    rules.forEach((rule, index) => {
+      const rulePath = `${parent}[${index}]`;
+      if (!isObject(rule) || typeof rule['check'] !== 'function') {
+        problems.push({
+          kind: 'invalid-value',
+          path: rulePath,
+          message: 'Rules must be objects with a check function',
+        });
+      } else if (
+        rule['severity'] !== undefined &&
+        !SEVERITIES.includes(rule['severity'] as string)
+      ) {
+        problems.push({
+          kind: 'invalid-severity',
+          path: `${rulePath}.severity`,
+          message: `Invalid severity "${rule['severity']}", expected error, warning or info`,
+        });
+      }
+    });
+    return problems;
+  }
+
+  if (!isObject(rules)) {
+    return [
+      {
+        kind: 'invalid-value',
+        path: parent,
+        message: 'Rules must be an array of rules or an object',
+      },
+    ];
+  }
+
+  for (const [ruleKey, value] of Object.entries(rules)) {
+    const rulePath = joinPath(parent, ruleKey);
+    const matches = candidates.filter((rule) => matchesRule(rule, ruleKey));
+    if (matches.length === 0) {
+      problems.push({
+        kind: 'unknown-rule',
+        path: rulePath,
+        message: `Unknown rule "${ruleKey}"`,
+      });
+    }
+
+    const [severity, options] = Array.isArray(value) ? value : [value];
+    if (typeof severity !== 'boolean' && !SEVERITIES.includes(severity)) {
+      problems.push({
+        kind: 'invalid-severity',
+        path: rulePath,
+        message: `Invalid severity ${JSON.stringify(
+          severity
+        )}, expected true, false, error, warning, info or [severity, options]`,
+      });
+    }
+    if (!Array.isArray(value)) continue;
+    if (!isObject(options)) {
+      problems.push({
+        kind: 'invalid-value',
+        path: rulePath,
+        message: 'Rule options must be an object',
+      });
+      continue;
+    }
+
+    const messages = new Set(
+      matches.flatMap(
+        (rule) => validateRuleOptions(rule.optionsSchema, options).problems
+      )
+    );
+    for (const message of messages) {
+      problems.push({ kind: 'invalid-option', path: rulePath, message });
+    }
+  }
+
+  return problems;
+}
+
+function findZoneProblems(
+  zones: Record<string, unknown>,
+  rootDir: string
+): IConfigProblem[] {
+  const problems = findUnknownKeys(
+    zones,
+    Object.keys(ZONE_PROPERTIES),
+    'zones'
+  );
+  const zonePaths: [string, unknown][] = [
+    ...(Array.isArray(zones['customZones'])
+      ? zones['customZones'].map((zone, index): [string, unknown] => [
+          `zones.customZones[${index}]`,
+          zone,
+        ])
+      : []),
+    ...(zones['onlyZone'] !== undefined
+      ? [['zones.onlyZone', zones['onlyZone']] as [string, unknown]]
+      : []),
+  ];
+
+  for (const [zonePath, zone] of zonePaths) {
+    if (typeof zone === 'string' && isGlobPattern(zone)) {
+      if (findGlobDirectories(rootDir, zone).length === 0) {
+        problems.push({
+          kind: 'missing-zone',
+          path: zonePath,
+          message: `Zone pattern ${JSON.stringify(zone)} matches no directory`,
+        });
+      }
+    } else if (
+      typeof zone !== 'string' ||
+      !fs.existsSync(path.join(rootDir, zone))
+    ) {
+      problems.push({
+        kind: 'missing-zone',
+        path: zonePath,
+        message: `Zone directory ${JSON.stringify(zone)} does not exist`,
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Problems of a configuration export: unknown keys, unknown rules in the
+ * object format, invalid severities and options, and zones that don't exist
+ */
+export function findConfigProblems(
+  config: IConfigurationExport,
+  defaultRules: IValidationRule[],
+  rootDir: string
+): IConfigProblem[] {
+  if (typeof config === 'function') return [];
+  if (Array.isArray(config)) return findRuleProblems(config, defaultRules, '');
+
+  const input = config as Record<string, unknown>;
+  const problems = findUnknownKeys(input, Object.keys(CONFIG_PROPERTIES), '');
+  const customRules = Array.isArray(config.rules) ? config.rules : [];
+
+  if (input['profile'] !== undefined) {
+    const message = findProfileSelectionError(input['profile']);
+    if (message)
+      problems.push({ kind: 'invalid-value', path: 'profile', message });
+  }
+  if (isObject(input['zones'])) {
+    problems.push(...findZoneProblems(input['zones'], rootDir));
+  }
+  if (isObject(input['cache'])) {
+    problems.push(
+      ...findUnknownKeys(input['cache'], Object.keys(CACHE_PROPERTIES), 'cache')
+    );
+  }
+  if (isObject(input['performance'])) {
+    problems.push(
+      ...findUnknownKeys(
+        input['performance'],
+        Object.keys(PERFORMANCE_PROPERTIES),
+        'performance'
+      )
+    );
+  }
+  if (input['rules'] !== undefined) {
+    problems.push(...findRuleProblems(input['rules'], defaultRules, 'rules'));
+  }
+
+  const overrides = Array.isArray(input['overrides']) ? input['overrides'] : [];
+  overrides.forEach((override: unknown, index) => {
+    const overridePath = `overrides[${index}]`;
+    if (!isObject(override)) {
+      problems.push({
+        kind: 'invalid-value',
+        path: overridePath,
+        message: 'Overrides must be objects with files and rules',
+      });
+      return;
+    }
+
+    problems.push(...findUnknownKeys(override, OVERRIDE_KEYS, overridePath));
+    const files = override['files'];
+    if (
+      !Array.isArray(files) ||
+      files.length === 0 ||
+      files.some((file) => typeof file !== 'string')
+    ) {
+      problems.push({
+        kind: 'invalid-value',
+        path: `${overridePath}.files`,
+        message: 'Expected a non-empty array of glob patterns',
+      });
+    }
+    problems.push(
+      ...findRuleProblems(
+        override['rules'] ?? {},
+        [...customRules, ...defaultRules],
+        `${overridePath}.rules`
+      )
+    );
+  });
+
+  return problems;
+}
@@ -0,0 +1,22 @@
+import { resolveOutputFormats, builtInFormatters } from '../index';
+
+describe('formatters registry', () => {
+  it('exposes the built-in formatters', () => {
+    expect(builtInFormatters.map((f) => f.name)).toEqual([
+      'json',
+      'sarif',
+      'junit',
+    ]);
+  });
+
+  it('normalizes output formats', () => {
+    expect(resolveOutputFormats(undefined)).toEqual(['text']);
+    expect(resolveOutputFormats('both')).toEqual(['text', 'json']);
+    expect(resolveOutputFormats('sarif, junit,sarif')).toEqual([
+      'sarif',
+      'junit',
+    ]);
+    expect(resolveOutputFormats(['json', 'both'])).toEqual(['json', 'text']);
+    expect(resolveOutputFormats('')).toEqual(['text']);
+  });
+});
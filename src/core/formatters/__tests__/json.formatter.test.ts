@@ -0,0 +1,124 @@
+import { buildJsonReport, jsonFormatter } from '../json.formatter';
+import type { IFormatterContext } from '../../../types';
+
+const context: IFormatterContext = {
+  zoneErrors: {
+    src: [
+      {
+        rule: 'No var',
+        ruleId: 'content/no-var',
+        message: 'Use let or const',
+        filePath: '/project/src/a.ts',
+        line: 2,
+        column: 1,
+        severity: 'error',
+        category: 'content',
+      },
+      {
+        rule: 'Component size limit',
+        message: 'Too large',
+        filePath: '/project/src/Big.tsx',
+        severity: 'warning',
+      },
+    ],
+  },
+  zoneFiles: { src: ['/project/src/a.ts', '/project/src/Big.tsx'] },
+  reportData: {
+    totalErrors: 1,
+    totalWarnings: 1,
+    totalInfos: 0,
+    errorsByRule: { 'No var': 1 },
+    warningsByRule: { 'Component size limit': 1 },
+    infosByRule: {},
+    errorsByZone: { src: 1 },
+    warningsByZone: { src: 1 },
+    infosByZone: { src: 0 },
+    oksByZone: {},
+    totalCheckedByZone: {},
+    summary: [],
+    warningSummary: [],
+    infoSummary: [],
+  },
+  projectInfo: {
+    type: 'next',
+    projectType: 'next',
+    isMonorepo: false,
+    zones: [],
+    structure: {},
+    rootPath: '/project',
+  },
+  config: {},
+  rootDir: '/project',
+  run: {
+    toolVersion: '1.2.3',
+    configHash: 'abc123',
+    startedAt: '2025-01-01T00:00:00.000Z',
+    durationMs: 42,
+  },
+};
+
+describe('json.formatter', () => {
+  it('includes every violation with zone and location', () => {
+    const report = buildJsonReport(context);
+
+    expect(report.schemaVersion).toBe(1);
+    expect(report.tool).toEqual({
+      name: 'frontend-standards-checker',
+      version: '1.2.3',
+    });
+    expect(report.run).toEqual({
+      startedAt: '2025-01-01T00:00:00.000Z',
+      durationMs: 42,
+      configHash: 'abc123',
+    });
+    expect(report.project).toEqual({
+      name: 'project',
+      type: 'next',
+      isMonorepo: false,
+      zones: ['src'],
+    });
+    expect(report.summary.totalFiles).toBe(2);
+    expect(report.summary.zones['src']).toEqual({
+      files: 2,
+      errors: 1,
+      warnings: 1,
+      infos: 0,
+    });
+    expect(report.violations).toEqual([
+      {
+        rule: 'No var',
+        ruleId: 'content/no-var',
+        category: 'content',
+        severity: 'error',
+        message: 'Use let or const',
+        zone: 'src',
+        filePath: 'src/a.ts',
+        line: 2,
+        column: 1,
+      },
+      {
+        rule: 'Component size limit',
+        ruleId: null,
+        category: null,
+        severity: 'warning',
+        message: 'Too large',
+        zone: 'src',
+        filePath: 'src/Big.tsx',
+        line: null,
+        column: null,
+      },
+    ]);
+    expect(report.baseline).toBeNull();
+  });
+
+  it('uses null run information when it is not available', async () => {
+    const { run: _run, ...withoutRun } = context;
+    const report = JSON.parse(await jsonFormatter.format(withoutRun));
+    expect(report.tool.version).toBe('unknown');
+    expect(report.run).toEqual({
+      startedAt: null,
+      durationMs: null,
+      configHash: null,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { formatJunit, escapeXml } from '../junit.formatter';
+import type { IValidationError } from '../../../types';
+
+const makeError = (
+  severity: IValidationError['severity'],
+  filePath: string,
+  line?: number
+): IValidationError => ({
+  rule: severity === 'error' ? 'No var' : 'Commented code',
+  message: severity === 'error' ? 'Use <let> or "const"' : 'Remove it',
+  filePath,
+  ...(line !== undefined ? { line } : {}),
+  severity,
+  category: 'content',
+});
+
+describe('junit.formatter', () => {
+  it('escapes XML special characters', () => {
+    expect(escapeXml(`a<b>&"c"'d'\u0001`)).toBe(
+      'a&lt;b&gt;&amp;&quot;c&quot;&apos;d&apos;'
+    );
+  });
+
+  it('maps zones to suites, files to test cases and errors to failures', () => {
+    const xml = formatJunit(
+      [
+        {
+          zone: 'src',
+          files: [
+            '/project/src/a.ts',
+            '/project/src/b.ts',
+            '/project/src/c.ts',
+          ],
+          errors: [
+            makeError('error', '/project/src/a.ts', 3),
+            makeError('warning', '/project/src/a.ts', 5),
+            makeError('info', '/project/src/b.ts'),
+          ],
+        },
+        { zone: 'apps/web', files: [], errors: [] },
+      ],
+      '/project'
+    );
+
+    expect(xml).toContain(
+      '<testsuites name="frontend-standards-checker" tests="3" failures="1" errors="0">'
+    );
+    expect(xml).toContain(
+      '<testsuite name="src" tests="3" failures="1" errors="0" skipped="0">'
+    );
+    expect(xml).toContain(
+      '<failure message="Use &lt;let&gt; or &quot;const&quot;" type="No var" line="3">'
+    );
+    expect(xml).toContain(
+      '<system-out>[warning] Commented code: Remove it (line 5)</system-out>'
+    );
+    expect(xml).toContain(
+      '<system-out>[info] Commented code: Remove it</system-out>'
+    );
+    expect(xml).toContain('<testcase name="src/c.ts" classname="src" />');
+    expect(xml).toContain(
+      '<testsuite name="apps/web" tests="0" failures="0" errors="0" skipped="0">'
+    );
+  });
+
+  it('adds test cases for violations outside of the validated files', () => {
+    const xml = formatJunit(
+      [
+        {
+          zone: '.',
+          files: [],
+          errors: [makeError('error', '/project/src/components:12')],
+        },
+      ],
+      '/project'
+    );
+    expect(xml).toContain('<testcase name="src/components" classname=".">');
+    expect(xml).toContain('tests="1" failures="1"');
+  });
+});
@@ -0,0 +1,122 @@
+import { formatSarif, toProjectRelativePath } from '../sarif.formatter';
+import { toRuleId } from '../../../helpers/ruleId.helper';
+import type { IValidationError, IValidationRule } from '../../../types';
+
+const rules: IValidationRule[] = [
+  {
+    name: 'No console.log',
+    check: () => false,
+    message: 'No console.log allowed in production code',
+    category: 'content',
+    severity: 'warning',
+  },
+  {
+    name: 'No var',
+    check: () => false,
+    message: 'Use let or const instead of var',
+    category: 'content',
+    severity: 'error',
+  },
+];
+
+const errors: IValidationError[] = [
+  {
+    rule: 'No var',
+    message: 'Use let or const instead of var',
+    filePath: '/project/src/utils/math.ts',
+    line: 2,
+    column: 3,
+    severity: 'error',
+    category: 'content',
+  },
+  {
+    rule: 'Commented code',
+    message: 'Commented code found',
+    filePath: '/project/src/index.ts:7',
+    line: 7,
+    severity: 'info',
+    category: 'content',
+  },
+  {
+    rule: 'Component size limit',
+    message: 'Component is too large',
+    filePath: '/project/src/components/Big.tsx',
+    severity: 'warning',
+    category: 'structure',
+  },
+];
+
+describe('sarif.formatter', () => {
+  it('builds rule ids and relative paths', () => {
+    expect(toRuleId('No console.log')).toBe('no-console-log');
+    expect(toRuleId('Interface naming with I prefix')).toBe(
+      'interface-naming-with-i-prefix'
+    );
+    expect(toProjectRelativePath('/project/src/a.ts:12', '/project')).toBe(
+      'src/a.ts'
+    );
+    expect(toProjectRelativePath('src/a.ts', '/project')).toBe('src/a.ts');
+  });
+
+  it('produces a SARIF 2.1.0 log with descriptors and results', () => {
+    const log = formatSarif(errors, rules, '/project');
+    const run = log.runs[0]!;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.name).toBe('frontend-standards-checker');
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual([
+      'no-console-log',
+      'no-var',
+      'commented-code',
+      'component-size-limit',
+    ]);
+    expect(run.tool.driver.rules[0]).toEqual({
+      id: 'no-console-log',
+      name: 'No console.log',
+      shortDescription: { text: 'No console.log allowed in production code' },
+      defaultConfiguration: { level: 'warning' },
+      properties: { category: 'content' },
+    });
+
+    expect(run.results.map((r) => [r.ruleId, r.ruleIndex, r.level])).toEqual([
+      ['no-var', 1, 'error'],
+      ['commented-code', 2, 'note'],
+      ['component-size-limit', 3, 'warning'],
+    ]);
+    expect(run.results[0]!.locations[0]!.physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/utils/math.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 2, startColumn: 3 },
+    });
+    expect(run.results[1]!.locations[0]!.physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/index.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 7 },
+    });
+    expect(
+      run.results[2]!.locations[0]!.physicalLocation.region
+    ).toBeUndefined();
+    expect(run.originalUriBaseIds['%SRCROOT%']!.uri).toBe('file:///project/');
+  });
+
+  it('uses namespaced rule IDs when available', () => {
+    const log = formatSarif(
+      [
+        {
+          rule: 'No var',
+          ruleId: 'content/no-var',
+          message: 'Use let or const',
+          filePath: '/project/src/a.ts',
+          severity: 'error',
+        },
+      ],
+      [{ ...rules[0]!, id: 'content/no-console-log' }],
+      '/project'
+    );
+    const run = log.runs[0]!;
+
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual([
+      'content/no-console-log',
+      'content/no-var',
+    ]);
+    expect(run.results[0]!.ruleId).toBe('content/no-var');
+  });
+});
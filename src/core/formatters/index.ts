@@ -0,0 +1,40 @@
+import type { IOutputFormat, IReportFormatter } from '../../types/index.js';
+import { jsonFormatter } from './json.formatter.js';
+import { sarifFormatter } from './sarif.formatter.js';
+import { junitFormatter } from './junit.formatter.js';
+
+export { jsonFormatter, buildJsonReport } from './json.formatter.js';
+export { sarifFormatter, formatSarif } from './sarif.formatter.js';
+export { junitFormatter, formatJunit } from './junit.formatter.js';
+
+/**
+ * Formatters that don't depend on Reporter internals. The "text" formatter is
+ * registered by the Reporter itself.
+ */
+export const builtInFormatters: IReportFormatter[] = [
+  jsonFormatter,
+  sarifFormatter,
+  junitFormatter,
+];
+
+/**
+ * Normalize outputFormat / --format into a list of formatter names.
+ * Accepts a single name, a comma separated list or an array; "both" is kept
+ * as an alias of "text,json".
+ */
+export function resolveOutputFormats(
+  outputFormat: IOutputFormat | IOutputFormat[] | undefined | null
+): string[] {
+  const raw = Array.isArray(outputFormat)
+    ? outputFormat
+    : (outputFormat ?? 'text').split(',');
+
+  const formats: string[] = [];
+  for (const entry of raw) {
+    const names = entry.trim() === 'both' ? ['text', 'json'] : [entry.trim()];
+    for (const name of names) {
+      if (name && !formats.includes(name)) formats.push(name);
+    }
+  }
+  return formats.length > 0 ? formats : ['text'];
+}
@@ -0,0 +1,84 @@
+import path from 'path';
+import type {
+  IReportFormatter,
+  IFormatterContext,
+  IJsonReport,
+  IJsonReportViolation,
+  IJsonReportZoneSummary,
+} from '../../types/index.js';
+import { toProjectRelativePath } from './sarif.formatter.js';
+
+/**
+ * Build the versioned JSON report with every violation
+ */
+export function buildJsonReport({
+  zoneErrors,
+  zoneFiles,
+  reportData,
+  projectInfo,
+  rootDir,
+  run,
+  baseline,
+}: IFormatterContext): IJsonReport {
+  const violations: IJsonReportViolation[] = [];
+  const zones: Record<string, IJsonReportZoneSummary> = {};
+
+  for (const [zone, errors] of Object.entries(zoneErrors)) {
+    zones[zone] = {
+      files: zoneFiles[zone]?.length ?? 0,
+      errors: reportData.errorsByZone[zone] ?? 0,
+      warnings: reportData.warningsByZone[zone] ?? 0,
+      infos: reportData.infosByZone[zone] ?? 0,
+    };
+    for (const error of errors) {
+      violations.push({
+        rule: error.rule,
+        ruleId: error.ruleId ?? null,
+        category: error.category ?? null,
+        severity: error.severity,
+        message: error.message,
+        zone,
+        filePath: toProjectRelativePath(error.filePath, rootDir),
+        line: error.line ?? null,
+        column: error.column ?? null,
+      });
+    }
+  }
+
+  return {
+    schemaVersion: 1,
+    tool: {
+      name: 'frontend-standards-checker',
+      version: run?.toolVersion ?? 'unknown',
+    },
+    run: {
+      startedAt: run?.startedAt ?? null,
+      durationMs: run?.durationMs ?? null,
+      configHash: run?.configHash ?? null,
+    },
+    project: {
+      name: path.basename(rootDir),
+      type: projectInfo.type ?? projectInfo.projectType,
+      isMonorepo: projectInfo.isMonorepo,
+      zones: Object.keys(zoneErrors),
+    },
+    summary: {
+      totalFiles: Object.values(zones).reduce((sum, z) => sum + z.files, 0),
+      totalErrors: reportData.totalErrors,
+      totalWarnings: reportData.totalWarnings,
+      totalInfos: reportData.totalInfos,
+      errorsByRule: reportData.errorsByRule,
+      warningsByRule: reportData.warningsByRule,
+      infosByRule: reportData.infosByRule,
+      zones,
+    },
+    baseline: baseline ?? null,
+    violations,
+  };
+}
+
+export const jsonFormatter: IReportFormatter = {
+  name: 'json',
+  extension: '.json',
+  format: (context) => JSON.stringify(buildJsonReport(context), null, 2),
+};
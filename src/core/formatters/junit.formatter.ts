@@ -0,0 +1,132 @@
+import type { IValidationError, IReportFormatter } from '../../types/index.js';
+import { toProjectRelativePath } from './sarif.formatter.js';
+
+export interface IJunitZone {
+  zone: string;
+  files: string[];
+  errors: IValidationError[];
+}
+
+/**
+ * Escape text for XML attributes and element content
+ */
+export function escapeXml(value: string): string {
+  return (
+    value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+      // Control characters are not allowed in XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  );
+}
+
+function describeViolation(error: IValidationError): string {
+  // Most rule messages already mention the line
+  const location =
+    error.line !== undefined && !error.message.includes(`line ${error.line}`)
+      ? ` (line ${error.line})`
+      : '';
+  return `[${error.severity}] ${error.rule}: ${error.message}${location}`;
+}
+
+/**
+ * Build a JUnit XML report: one <testsuite> per zone and one <testcase> per
+ * validated file. Only error-severity violations become <failure>s; warnings
+ * and infos are written to <system-out> so they don't fail the build.
+ */
+export function formatJunit(zones: IJunitZone[], rootDir: string): string {
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+
+  for (const { zone, files, errors } of zones) {
+    const errorsByFile = new Map<string, IValidationError[]>();
+    for (const file of files) {
+      errorsByFile.set(toProjectRelativePath(file, rootDir), []);
+    }
+    for (const error of errors) {
+      const file = toProjectRelativePath(error.filePath, rootDir);
+      const fileErrors = errorsByFile.get(file) ?? [];
+      fileErrors.push(error);
+      errorsByFile.set(file, fileErrors);
+    }
+
+    const cases: string[] = [];
+    let suiteFailures = 0;
+
+    for (const [file, fileErrors] of errorsByFile) {
+      const failures = fileErrors.filter((e) => e.severity === 'error');
+      const others = fileErrors.filter((e) => e.severity !== 'error');
+      const caseLines = [
+        `    <testcase name="${escapeXml(file)}" classname="${escapeXml(
+          zone
+        )}">`,
+      ];
+
+      for (const failure of failures) {
+        const lineAttr =
+          failure.line !== undefined ? ` line="${failure.line}"` : '';
+        caseLines.push(
+          `      <failure message="${escapeXml(
+            failure.message
+          )}" type="${escapeXml(failure.rule)}"${lineAttr}>${escapeXml(
+            describeViolation(failure)
+          )}</failure>`
+        );
+      }
+      if (others.length > 0) {
+        caseLines.push(
+          `      <system-out>${escapeXml(
+            others.map(describeViolation).join('\n')
+          )}</system-out>`
+        );
+      }
+
+      if (caseLines.length === 1) {
+        cases.push(caseLines[0]!.replace(/>$/, ' />'));
+      } else {
+        caseLines.push('    </testcase>');
+        cases.push(caseLines.join('\n'));
+      }
+      if (failures.length > 0) suiteFailures++;
+    }
+
+    totalTests += errorsByFile.size;
+    totalFailures += suiteFailures;
+    suites.push(
+      [
+        `  <testsuite name="${escapeXml(zone)}" tests="${
+          errorsByFile.size
+        }" failures="${suiteFailures}" errors="0" skipped="0">`,
+        ...cases,
+        '  </testsuite>',
+      ].join('\n')
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="frontend-standards-checker" tests="${totalTests}" failures="${totalFailures}" errors="0">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+export const junitFormatter: IReportFormatter = {
+  name: 'junit',
+  extension: '.junit.xml',
+  format: ({ zoneErrors, zoneFiles, rootDir }) =>
+    formatJunit(
+      Object.entries(zoneErrors).map(([zone, errors]) => ({
+        zone,
+        files: zoneFiles[zone] ?? [],
+        errors,
+      })),
+      rootDir
+    ),
+};
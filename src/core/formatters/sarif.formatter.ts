@@ -0,0 +1,149 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  IValidationError,
+  IValidationRule,
+  ISarifLevel,
+  ISarifLog,
+  ISarifReportingDescriptor,
+  ISarifResult,
+  IReportFormatter,
+} from '../../types/index.js';
+import { toRuleId } from '../../helpers/ruleId.helper.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+interface IRuleMetadata {
+  id?: string | undefined;
+  message: string;
+  category?: string | undefined;
+  severity?: string | undefined;
+}
+
+const SEVERITY_TO_LEVEL: Record<string, ISarifLevel> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+/**
+ * Path relative to the project root with forward slashes. Some validators
+ * append ":line" to the file path, which is stripped.
+ */
+export function toProjectRelativePath(filePath: string, rootDir: string) {
+  const withoutLine = filePath.replace(/:\d+$/, '');
+  const absPath = path.isAbsolute(withoutLine)
+    ? withoutLine
+    : path.resolve(rootDir, withoutLine);
+  return path.relative(rootDir, absPath).split(path.sep).join('/');
+}
+
+function toDescriptor(
+  name: string,
+  rule: IRuleMetadata
+): ISarifReportingDescriptor {
+  const descriptor: ISarifReportingDescriptor = {
+    id: rule.id ?? toRuleId(name),
+    name,
+    shortDescription: { text: rule.message },
+    defaultConfiguration: {
+      level: SEVERITY_TO_LEVEL[rule.severity ?? 'error'] ?? 'error',
+    },
+  };
+  if (rule.category) {
+    descriptor.properties = { category: rule.category };
+  }
+  return descriptor;
+}
+
+/**
+ * Build a SARIF 2.1.0 log from the validation errors.
+ * Every configured rule becomes a reportingDescriptor; violations of rules that are
+ * not configured (e.g. built-in validators) get a descriptor on the fly.
+ */
+export function formatSarif(
+  errors: IValidationError[],
+  rules: IValidationRule[],
+  rootDir: string
+): ISarifLog {
+  const descriptors: ISarifReportingDescriptor[] = [];
+  const indexById = new Map<string, number>();
+
+  const register = (name: string, rule: IRuleMetadata): number => {
+    const id = rule.id ?? toRuleId(name);
+    const existing = indexById.get(id);
+    if (existing !== undefined) return existing;
+    descriptors.push(toDescriptor(name, rule));
+    indexById.set(id, descriptors.length - 1);
+    return descriptors.length - 1;
+  };
+
+  rules.forEach((rule) => register(rule.name, rule));
+
+  const results: ISarifResult[] = errors.map((error) => {
+    const ruleIndex = register(error.rule, {
+      id: error.ruleId,
+      message: error.rule,
+      category: error.category,
+      severity: error.severity,
+    });
+    const result: ISarifResult = {
+      ruleId: descriptors[ruleIndex]!.id,
+      ruleIndex,
+      level: SEVERITY_TO_LEVEL[error.severity] ?? 'error',
+      message: { text: error.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: toProjectRelativePath(error.filePath, rootDir),
+              uriBaseId: '%SRCROOT%',
+            },
+          },
+        },
+      ],
+    };
+    if (error.line !== undefined) {
+      result.locations[0]!.physicalLocation.region = {
+        startLine: error.line,
+        ...(error.column !== undefined ? { startColumn: error.column } : {}),
+      };
+    }
+    return result;
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'frontend-standards-checker',
+            informationUri: 'https://github.com/juandape/frontend-standards',
+            rules: descriptors,
+          },
+        },
+        originalUriBaseIds: {
+          '%SRCROOT%': { uri: `${pathToFileURL(rootDir).href}/` },
+        },
+        results,
+      },
+    ],
+  };
+}
+
+export const sarifFormatter: IReportFormatter = {
+  name: 'sarif',
+  extension: '.sarif',
+  format: ({ zoneErrors, config, rootDir }) =>
+    JSON.stringify(
+      formatSarif(
+        Object.values(zoneErrors).flat(),
+        config.rules ?? [],
+        rootDir
+      ),
+      null,
+      2
+    ),
+};
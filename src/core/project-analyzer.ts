@@ -9,7 +9,11 @@ import type {
   IProjectInfo,
   IZoneInfo,
   IPackageJsonContent,
+  IRuleProfileName,
 } from '../types/index.js';
+import { findGlobDirectories, isGlobPattern } from '../helpers/glob.helper.js';
+
+const REACT_NATIVE_PACKAGES = ['react-native', 'expo'];
 
 /**
  * Project analyzer for detecting project type, structure, and zones
@@ -82,6 +86,17 @@ export class ProjectAnalyzer implements IProjectAnalyzer {
     return this.detectProjectTypeFromHeuristics(projectPath, hasPackageJson);
   }
 
+  /**
+   * Rule profile matching the detected type of the project
+   */
+  suggestProfile(projectPath: string = this.rootDir): IRuleProfileName[] {
+    const projectType = this.detectProjectType(projectPath);
+    if (projectType === 'react-native') return ['recommended', 'react-native'];
+    if (projectType === 'next') return ['recommended', 'next'];
+    if (projectType === 'node') return ['recommended', 'library'];
+    return ['recommended'];
+  }
+
   /**
    * Detect project type from package.json dependencies
    */
@@ -97,6 +112,17 @@ export class ProjectAnalyzer implements IProjectAnalyzer {
         return 'next';
       }
 
+      // Check for React Native and Expo apps
+      if (
+        REACT_NATIVE_PACKAGES.some(
+          (name) =>
+            packageJson.dependencies?.[name] ||
+            packageJson.devDependencies?.[name]
+        )
+      ) {
+        return 'react-native';
+      }
+
       // Check for React app
       if (
         packageJson.dependencies?.react ||
@@ -285,6 +311,21 @@ export class ProjectAnalyzer implements IProjectAnalyzer {
     }
 
     for (const customZone of customZones) {
+      // Globs like `apps/*/src` add a zone for every matching directory
+      if (isGlobPattern(customZone)) {
+        zones.push(
+          ...findGlobDirectories(this.rootDir, customZone).map((zone) => {
+            const zonePath = path.join(this.rootDir, zone);
+            return {
+              name: zone,
+              path: zonePath,
+              type: this.detectZoneType(zonePath),
+            };
+          })
+        );
+        continue;
+      }
+
       const customZonePath = path.join(this.rootDir, customZone);
       if (
         fs.existsSync(customZonePath) &&
@@ -363,6 +404,7 @@ export class ProjectAnalyzer implements IProjectAnalyzer {
     const structures: Record<string, string[]> = {
       next: ['app', 'components', 'public', 'src'],
       react: ['src', 'public'],
+      'react-native': ['src'],
       angular: ['src', 'e2e'],
       vue: ['src', 'public'],
       node: ['src', 'package.json', 'lib'],
@@ -9,8 +9,13 @@ import type {
   IProcessedReportData,
   ISummaryItem,
   IReportGenerationResult,
+  IBaselineSummary,
+  IReportFormatter,
+  IFormatterContext,
+  IReportRunInfo,
 } from '../types';
 import { getGitLastAuthor } from '../helpers/index.js';
+import { builtInFormatters, resolveOutputFormats } from './formatters/index.js';
 
 /**
  * Reporter for generating detailed validation reports
@@ -32,6 +37,10 @@ export class Reporter implements IReporter {
   public logDir: string;
   public readonly logger: ILogger;
   public includeCollaborators: boolean = true;
+  public baselineSummary: IBaselineSummary | null = null;
+  public runInfo: IReportRunInfo | null = null;
+  private readonly outputTarget: string | null;
+  private readonly formatters = new Map<string, IReportFormatter>();
   private _originalZoneErrors: Record<string, IValidationError[]> = {};
 
   private getFileMeta(filePath: string): {
@@ -71,12 +80,70 @@ export class Reporter implements IReporter {
       now.getSeconds()
     )}`;
     this.logDir = path.join(rootDir, 'logs-standards-validations', folderName);
+    this.outputTarget = outputPath;
     this.outputPath =
-      outputPath ?? path.join(this.logDir, 'frontend-standards.log');
+      outputPath && outputPath !== '-'
+        ? outputPath
+        : path.join(this.logDir, 'frontend-standards.log');
     this.logger = logger;
+
+    this.registerFormatter({
+      name: 'text',
+      extension: '.log',
+      format: ({ reportData, projectInfo, config }) =>
+        this.formatReport(reportData, projectInfo, config),
+    });
+    builtInFormatters.forEach((formatter) => this.registerFormatter(formatter));
+
     // Mostrar en consola la ruta generada
-    // eslint-disable-next-line no-console
-    console.log(`📝 Log folder for this run: ${this.logDir}`);
+    if (outputPath === null) {
+      // eslint-disable-next-line no-console
+      console.log(`📝 Log folder for this run: ${this.logDir}`);
+    }
+  }
+
+  /**
+   * Register a report formatter, replacing any formatter with the same name
+   */
+  registerFormatter(formatter: IReportFormatter): void {
+    this.formatters.set(formatter.name, formatter);
+  }
+
+  /**
+   * Names of the available report formats
+   */
+  getFormatterNames(): string[] {
+    return Array.from(this.formatters.keys());
+  }
+
+  /**
+   * Formatters of the configured output formats, in order. Unknown formats,
+   * and several formats streamed to stdout, are rejected.
+   */
+  resolveFormatters(config: IStandardsConfiguration): IReportFormatter[] {
+    (config.formatters ?? []).forEach((formatter) =>
+      this.registerFormatter(formatter)
+    );
+    const formats = resolveOutputFormats(config.outputFormat);
+    const formatters = formats.map((name) => {
+      const formatter = this.formatters.get(name);
+      if (!formatter) {
+        throw new Error(
+          `Unknown output format "${name}". Available formats: ${this.getFormatterNames().join(
+            ', '
+          )}`
+        );
+      }
+      return formatter;
+    });
+    if (this.outputTarget === '-' && formatters.length > 1) {
+      throw new Error(
+        `Only one output format can be streamed to stdout, got ${formats.join(
+          ', '
+        )}. Use --output <path> to write several formats`
+      );
+    }
+    return formatters;
   }
 
   /**
@@ -85,22 +152,56 @@ export class Reporter implements IReporter {
   async generate(
     zoneErrors: Record<string, IValidationError[]>,
     projectInfo: IProjectAnalysisResult,
-    config: IStandardsConfiguration
+    config: IStandardsConfiguration,
+    zoneFiles: Record<string, string[]> = {}
   ): Promise<IReportGenerationResult> {
     // Store original errors for detailed reporting
     this.setOriginalZoneErrors(zoneErrors);
 
+    const formatters = this.resolveFormatters(config);
+
     const reportData = this.processErrors(zoneErrors);
-    const reportContent = await this.formatReport(
+    const context: IFormatterContext = {
+      zoneErrors: Object.fromEntries(
+        Object.entries(zoneErrors).map(([zone, errors]) => [
+          zone,
+          errors.filter((error) => this.isReportableError(error)),
+        ])
+      ),
+      zoneFiles: Object.fromEntries(
+        Object.entries(zoneFiles).map(([zone, files]) => [
+          zone,
+          files.filter((file) => !this.isJestFile(file)),
+        ])
+      ),
       reportData,
       projectInfo,
-      config
-    );
+      config,
+      rootDir: this.rootDir,
+      run: this.runInfo,
+      baseline: this.baselineSummary,
+    };
 
-    await this.saveReport(reportContent);
+    const outputFiles: string[] = [];
+    for (const [index, formatter] of formatters.entries()) {
+      const content = await formatter.format(context);
+      if (this.outputTarget === '-') {
+        process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+        continue;
+      }
+
+      const filePath = this.getFormatterOutputPath(formatter, index === 0);
+      if (formatter.name === 'text') {
+        await this.saveReport(content, filePath);
+      } else {
+        this.writeOutput(filePath, content);
+      }
+      outputFiles.push(filePath);
+    }
 
     return {
-      logFile: this.outputPath,
+      logFile: outputFiles[0] ?? '-',
+      outputFiles,
       totalErrors: reportData.totalErrors,
       totalWarnings: reportData.totalWarnings,
       totalInfos: reportData.totalInfos,
@@ -112,6 +213,50 @@ export class Reporter implements IReporter {
     };
   }
 
+  /**
+   * Where a formatter writes its report. Without --output everything goes to the
+   * run's log folder; with --output the first format uses that path and the
+   * others get the same base name with their own extension.
+   */
+  private getFormatterOutputPath(
+    formatter: IReportFormatter,
+    isPrimary: boolean
+  ): string {
+    if (!this.outputTarget) {
+      return path.join(this.logDir, `frontend-standards${formatter.extension}`);
+    }
+    if (isPrimary) {
+      return this.outputTarget;
+    }
+    const ext = path.extname(this.outputTarget);
+    const base = ext
+      ? this.outputTarget.slice(0, -ext.length)
+      : this.outputTarget;
+    return `${base}${formatter.extension}`;
+  }
+
+  private writeOutput(filePath: string, content: string): void {
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, 'utf8');
+      this.logger.debug(`Report saved to: ${filePath}`);
+    } catch (error) {
+      this.logger.error(`Failed to save report: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Errors that are shown in the report: no Jest files and no "present" markers
+   */
+  private isReportableError(error: IValidationError): boolean {
+    return (
+      !this.isJestFile(error.filePath) &&
+      !error.message.startsWith('✅') &&
+      !error.message.startsWith('Present:')
+    );
+  }
+
   /**
    * Process errors and generate statistics
    */
@@ -277,6 +422,11 @@ export class Reporter implements IReporter {
     lines.push(`Project: ${path.basename(this.rootDir)}`);
     lines.push(`Project Type: ${projectInfo.type}`);
     lines.push(`Monorepo: ${projectInfo.isMonorepo ? 'Yes' : 'No'}`);
+    if (this.baselineSummary) {
+      lines.push(
+        `Baseline: ${this.baselineSummary.suppressed} suppressed, ${this.baselineSummary.fixed} fixed since baseline (${this.baselineSummary.path})`
+      );
+    }
     lines.push('');
     lines.push(
       '💡 TIP: Use Cmd+Click (Mac) or Ctrl+Click (Windows/Linux) on file paths to open them directly in your editor'
@@ -520,17 +670,24 @@ export class Reporter implements IReporter {
   /**
    * Save report to file
    */
-  async saveReport(content: string): Promise<void> {
+  async saveReport(
+    content: string,
+    filePath: string = this.outputPath
+  ): Promise<void> {
     try {
       // Crear la carpeta de logs si no existe
       if (!fs.existsSync(this.logDir)) {
         fs.mkdirSync(this.logDir, { recursive: true });
       }
+      const targetDir = path.dirname(filePath);
+      if (targetDir && !fs.existsSync(targetDir)) {
+        fs.mkdirSync(targetDir, { recursive: true });
+      }
       // Get last modification date
       let modDate = 'No date';
       try {
-        if (fs.existsSync(this.outputPath)) {
-          const stats = fs.statSync(this.outputPath);
+        if (fs.existsSync(filePath)) {
+          const stats = fs.statSync(filePath);
           modDate = stats.mtime
             ? stats.mtime.toLocaleString('es-ES', {
                 timeZone: 'America/Bogota',
@@ -540,8 +697,8 @@ export class Reporter implements IReporter {
       } catch {}
       // Add info to log content (at the end)
       const logWithMeta = `${content}\n\n---\nLast modification: ${modDate}`;
-      fs.writeFileSync(this.outputPath, logWithMeta, 'utf8');
-      this.logger.debug(`Report saved to: ${this.outputPath}`);
+      fs.writeFileSync(filePath, logWithMeta, 'utf8');
+      this.logger.debug(`Report saved to: ${filePath}`);
       // Copiar el viewer HTML en la carpeta de logs
       const possibleViewerPaths = [
         path.join(this.rootDir, 'frontend-standards-log-viewer.html'),
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type {
+  ILogger,
+  IValidationError,
+  ICacheFile,
+  IResultCacheOptions,
+} from '../types/index.js';
+
+const CACHE_FILE_NAME = 'results.json';
+
+// Entries of the 'memory' strategy live as long as the process
+const memoryStore = new Map<string, ICacheFile>();
+
+/**
+ * Per-file validation result cache. An entry is reused only when the file
+ * content, the rule set and the tool version all match the cached run.
+ */
+export class ResultCache {
+  public readonly rootDir: string;
+  public readonly logger: ILogger;
+  public readonly filePath: string;
+  private readonly options: IResultCacheOptions;
+  private data: ICacheFile;
+  private dirty = false;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(rootDir: string, logger: ILogger, options: IResultCacheOptions) {
+    this.rootDir = rootDir;
+    this.logger = logger;
+    this.options = options;
+    this.filePath = path.join(
+      options.cacheDir ?? ResultCache.getDefaultDir(rootDir),
+      CACHE_FILE_NAME
+    );
+    this.data = this.load();
+  }
+
+  /**
+   * Default cache location, next to other tools' caches
+   */
+  static getDefaultDir(rootDir: string): string {
+    return path.join(rootDir, 'node_modules', '.cache', 'frontend-standards');
+  }
+
+  /**
+   * Cached violations for a file, or null when it must be validated again
+   */
+  get(filePath: string, content: string): IValidationError[] | null {
+    const entry = this.data.entries[this.toKey(filePath)];
+    const expired =
+      entry !== undefined &&
+      this.options.ttl !== undefined &&
+      Date.now() - entry.cachedAt > this.options.ttl;
+
+    if (!entry || expired || entry.hash !== this.hashContent(content)) {
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    return entry.errors;
+  }
+
+  set(filePath: string, content: string, errors: IValidationError[]): void {
+    this.data.entries[this.toKey(filePath)] = {
+      hash: this.hashContent(content),
+      cachedAt: Date.now(),
+      errors,
+    };
+    this.dirty = true;
+  }
+
+  /**
+   * Persist new entries. Failing to write the cache never fails the run.
+   */
+  save(): void {
+    if (!this.dirty) return;
+
+    if (this.options.strategy === 'memory') {
+      memoryStore.set(this.filePath, this.data);
+    } else {
+      try {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify(this.data), 'utf8');
+      } catch (error) {
+        this.logger.warn(
+          `Could not write cache file ${this.filePath}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+        return;
+      }
+    }
+    this.dirty = false;
+  }
+
+  getStats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  private load(): ICacheFile {
+    const empty: ICacheFile = {
+      version: 1,
+      toolVersion: this.options.toolVersion,
+      rulesetHash: this.options.rulesetHash,
+      entries: {},
+    };
+
+    let cached: ICacheFile | undefined;
+    if (this.options.strategy === 'memory') {
+      cached = memoryStore.get(this.filePath);
+    } else if (fs.existsSync(this.filePath)) {
+      try {
+        cached = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      } catch (error) {
+        this.logger.debug(
+          `Ignoring unreadable cache file ${this.filePath}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    if (
+      cached?.version !== 1 ||
+      cached.toolVersion !== this.options.toolVersion ||
+      cached.rulesetHash !== this.options.rulesetHash ||
+      typeof cached.entries !== 'object'
+    ) {
+      if (cached) {
+        this.logger.debug('Cache invalidated: tool version or rules changed');
+      }
+      return empty;
+    }
+    return cached;
+  }
+
+  private hashContent(content: string): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+  }
+
+  private toKey(filePath: string): string {
+    const absolute = path.isAbsolute(filePath)
+      ? filePath
+      : path.join(this.rootDir, filePath);
+    return path.relative(this.rootDir, absolute).split(path.sep).join('/');
+  }
+}
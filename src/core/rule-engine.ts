@@ -7,7 +7,37 @@ import type {
   IValidationError,
   IStandardsConfiguration,
   IRuleEngineInitOptions,
+  IFixResult,
+  ITextEdit,
+  IRuleOptions,
+  IProjectInfo,
+  IZoneInfo,
+  IRuleSelection,
+  IRuleOverride,
 } from '../types';
+import {
+  applySuppressions,
+  UNUSED_SUPPRESSION_RULE_ID,
+} from '../helpers/suppression.helper.js';
+import { applyTextEdits, getLineOffsets } from '../helpers/fix.helper.js';
+import { matchesRule } from '../helpers/ruleId.helper.js';
+import { matchesGlob } from '../helpers/glob.helper.js';
+import { resolveRuleOptions } from '../helpers/ruleOptions.helper.js';
+import { ADDITIONAL_VALIDATOR_RULES } from './additional-validators.js';
+
+// Fixes can uncover new violations, so they are applied repeatedly until
+// the content stops changing
+const MAX_FIX_PASSES = 10;
+
+// Reported by the additional validators, which handle exports and scopes
+const VALIDATOR_HANDLED_RULES = [
+  'content/no-unused-variables',
+  'No unused variables',
+];
+
+// Validator whose thresholds are the options of the rule with the same ID
+const COMPLEX_FUNCTION_RULE_ID =
+  'documentation/missing-comment-in-complex-function';
 
 /**
  * Rule engine for validating file content against defined rules
@@ -16,11 +46,19 @@ export class RuleEngine implements IRuleEngine {
   public readonly logger: ILogger;
   public rules: IValidationRule[];
   public config: IStandardsConfiguration | null;
+  private rootDir: string | null;
+  private projectType: IProjectInfo['projectType'] | null;
+  private zones: IZoneInfo[];
+  private selection: IRuleSelection;
 
   constructor(logger: ILogger) {
     this.logger = logger;
     this.rules = [];
     this.config = null;
+    this.rootDir = null;
+    this.projectType = null;
+    this.zones = [];
+    this.selection = {};
   }
 
   /**
@@ -57,33 +95,375 @@ export class RuleEngine implements IRuleEngine {
    */
   initialize(
     config: IStandardsConfiguration,
-    _options?: IRuleEngineInitOptions
+    options?: IRuleEngineInitOptions
   ): void {
     this.config = config;
     this.rules = config.rules || [];
+    this.rootDir = options?.rootDir ?? null;
+    this.projectType = options?.projectType ?? null;
+    this.zones = options?.zones ?? [];
+    this.selection = options ?? {};
     this.logger.debug(
       `Initialized rule engine with ${this.rules.length} rules`
     );
   }
 
+  /**
+   * Rules that apply to a file: the configured rules changed by every
+   * override whose globs match the file, in order, without the rules whose
+   * appliesTo excludes the file
+   */
+  getRulesForFile(filePath: string): IValidationRule[] {
+    const relativePath = this.rootDir
+      ? path.relative(this.rootDir, filePath)
+      : filePath;
+    const selected = this.rules.filter((rule) => this.isSelected(rule));
+    let rules = selected.length === this.rules.length ? this.rules : selected;
+
+    for (const override of this.getOverridesForFile(relativePath)) {
+      rules = rules.filter(
+        (rule) => !override.disabledRules.some((ref) => matchesRule(rule, ref))
+      );
+      for (const overrideRule of override.rules) {
+        if (!this.isSelected(overrideRule)) continue;
+        const index = rules.findIndex((rule) =>
+          matchesRule(rule, overrideRule.id ?? overrideRule.name)
+        );
+        rules =
+          index === -1
+            ? [...rules, overrideRule]
+            : rules.map((rule, i) => (i === index ? overrideRule : rule));
+      }
+    }
+
+    if (!rules.some((rule) => rule.appliesTo)) return rules;
+    const projectType = this.getProjectTypeForFile(filePath);
+    return rules.filter((rule) =>
+      this.appliesToFile(rule, relativePath, projectType)
+    );
+  }
+
+  /**
+   * Rules turned off for a file by the configuration and by the overrides
+   * whose globs match it, in order
+   */
+  private getDisabledRulesForFile(filePath: string): string[] {
+    const relativePath = this.rootDir
+      ? path.relative(this.rootDir, filePath)
+      : filePath;
+    let disabledRules = this.config?.disabledRules ?? [];
+
+    for (const override of this.getOverridesForFile(relativePath)) {
+      disabledRules = [
+        ...disabledRules.filter(
+          (ref) =>
+            !override.rules.some((rule) =>
+              matchesRule(this.withDefinitionAliases(rule), ref)
+            )
+        ),
+        ...override.disabledRules,
+      ];
+    }
+    return disabledRules;
+  }
+
+  private getOverridesForFile(relativePath: string): IRuleOverride[] {
+    return (this.config?.overrides ?? []).filter(
+      (override) =>
+        matchesGlob(relativePath, override.files) &&
+        !matchesGlob(relativePath, override.excludedFiles ?? [])
+    );
+  }
+
+  /**
+   * Whether the rule passes the category and rule filters of the run
+   */
+  private isSelected(
+    rule: Pick<IValidationRule, 'id' | 'name' | 'aliases'> & {
+      category?: string;
+    }
+  ): boolean {
+    const {
+      skipStructure,
+      skipNaming,
+      skipContent,
+      onlyCategories,
+      onlyRules,
+      skipRules,
+    } = this.selection;
+    const category = rule.category ?? 'content';
+    if (
+      (skipStructure && category === 'structure') ||
+      (skipNaming && category === 'naming') ||
+      (skipContent && category === 'content')
+    ) {
+      return false;
+    }
+    if (onlyCategories && !onlyCategories.includes(category)) return false;
+    if (onlyRules && !onlyRules.some((ref) => matchesRule(rule, ref))) {
+      return false;
+    }
+    return !skipRules?.some((ref) => matchesRule(rule, ref));
+  }
+
+  private hasSelection(): boolean {
+    const {
+      skipStructure,
+      skipNaming,
+      skipContent,
+      onlyCategories,
+      onlyRules,
+      skipRules,
+    } = this.selection;
+    return Boolean(
+      skipStructure ||
+        skipNaming ||
+        skipContent ||
+        onlyCategories ||
+        onlyRules ||
+        skipRules
+    );
+  }
+
+  /**
+   * Violations whose rule is selected; the additional validators and
+   * suppression directives report theirs by ID and category
+   */
+  private selectErrors(errors: IValidationError[]): IValidationError[] {
+    return errors.filter((error) =>
+      this.isSelected(this.getReportedRule(error))
+    );
+  }
+
+  /**
+   * The rule a violation reports, with the aliases of its definition so
+   * that deprecated IDs keep selecting and turning off the rule
+   */
+  private getReportedRule(
+    error: IValidationError
+  ): Pick<IValidationRule, 'id' | 'name' | 'aliases'> & { category?: string } {
+    return {
+      ...this.withDefinitionAliases({
+        ...(error.ruleId ? { id: error.ruleId } : {}),
+        name: error.rule,
+      }),
+      ...(error.category ? { category: error.category } : {}),
+    };
+  }
+
+  /**
+   * A rule with the aliases of the definition that shares its ID, so that an
+   * override of the rule also matches its deprecated IDs
+   */
+  private withDefinitionAliases(
+    rule: Pick<IValidationRule, 'id' | 'name' | 'aliases'>
+  ): Pick<IValidationRule, 'id' | 'name' | 'aliases'> {
+    if (rule.aliases || !rule.id) return rule;
+    const definition = this.findDefinition(rule.id);
+    return definition?.aliases
+      ? { ...rule, aliases: definition.aliases }
+      : rule;
+  }
+
+  /**
+   * Definition of a rule among the configured rules, then among the rules
+   * of the additional validators
+   */
+  private findDefinition(
+    ruleId: string | undefined
+  ): Pick<IValidationRule, 'aliases' | 'appliesTo'> | undefined {
+    if (!ruleId) return undefined;
+    return [...this.rules, ...ADDITIONAL_VALIDATOR_RULES].find(
+      (rule) => rule.id === ruleId
+    );
+  }
+
+  private appliesToFile(
+    rule: Pick<IValidationRule, 'appliesTo'>,
+    relativePath: string,
+    projectType: IProjectInfo['projectType'] | null
+  ): boolean {
+    const { appliesTo } = rule;
+    if (!appliesTo) return true;
+
+    if (
+      appliesTo.extensions &&
+      !appliesTo.extensions.includes(path.extname(relativePath))
+    ) {
+      return false;
+    }
+    if (appliesTo.files && !matchesGlob(relativePath, appliesTo.files)) {
+      return false;
+    }
+    const excludedFiles = projectType && appliesTo.excludedFiles?.[projectType];
+    if (excludedFiles && matchesGlob(relativePath, excludedFiles)) {
+      return false;
+    }
+    return (
+      !appliesTo.frameworks ||
+      projectType === null ||
+      appliesTo.frameworks.includes(projectType)
+    );
+  }
+
+  /**
+   * Type of the innermost zone containing a file, or of the project when
+   * that zone's type is generic. Null when neither is known.
+   */
+  private getProjectTypeForFile(
+    filePath: string
+  ): IProjectInfo['projectType'] | null {
+    const fullPath = path.resolve(this.rootDir ?? '', filePath);
+    const zone = this.zones
+      .filter((candidate) => {
+        const relative = path.relative(
+          path.resolve(this.rootDir ?? '', candidate.path),
+          fullPath
+        );
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+      })
+      .sort((a, b) => b.path.length - a.path.length)[0];
+
+    if (zone && zone.type !== 'generic') return zone.type;
+    return this.projectType === 'generic' ? null : this.projectType;
+  }
+
   /**
    * Validate a file against all rules
+   * @param fileContent Content to validate instead of the file on disk
    */
-  async validateFile(filePath: string): Promise<IValidationError[]> {
+  async validateFile(
+    filePath: string,
+    fileContent?: string
+  ): Promise<IValidationError[]> {
     if (this.isConfigFile(filePath)) {
       this.logger.debug(`Skipping configuration file: ${filePath}`);
       return [];
     }
 
     try {
-      const content = fs.readFileSync(filePath, 'utf8');
+      const content = fileContent ?? fs.readFileSync(filePath, 'utf8');
       const errors = await this.validateFileContent(content, filePath);
-      return this.deduplicateErrors(errors);
+      const { knownRules, ruleIdsByAlias } = await this.getRuleReferences();
+      let kept = applySuppressions(
+        errors,
+        content,
+        filePath,
+        knownRules,
+        ruleIdsByAlias
+      );
+      // Directives of rules that didn't run aren't unused
+      if (this.hasSelection()) {
+        kept = kept.filter(
+          (error) => error.ruleId !== UNUSED_SUPPRESSION_RULE_ID
+        );
+      }
+      return this.deduplicateErrors(this.selectErrors(kept));
     } catch (error) {
       return this.handleValidationError(error, filePath);
     }
   }
 
+  /**
+   * Apply the auto-fixes of every rule with unsuppressed violations.
+   * The file is not written; callers decide what to do with the result.
+   */
+  async fixFile(filePath: string, content?: string): Promise<IFixResult> {
+    const originalContent = content ?? fs.readFileSync(filePath, 'utf8');
+    const appliedRules = new Set<string>();
+    let fixedContent = originalContent;
+    let passes = 0;
+
+    if (!this.isConfigFile(filePath)) {
+      const fixableRules = this.getRulesForFile(filePath).filter(
+        (rule) => rule.fix
+      );
+      while (passes < MAX_FIX_PASSES) {
+        let changed = false;
+        // Each rule sees the output of the previous one, so edits of
+        // different rules never conflict
+        for (const rule of fixableRules) {
+          const edits = await this.getFixEdits(rule, fixedContent, filePath);
+          const next = applyTextEdits(fixedContent, edits).content;
+          if (next === fixedContent) continue;
+          fixedContent = next;
+          appliedRules.add(rule.name);
+          changed = true;
+        }
+        if (!changed) break;
+        passes++;
+      }
+    }
+
+    return {
+      filePath,
+      originalContent,
+      fixedContent,
+      changed: fixedContent !== originalContent,
+      appliedRules: [...appliedRules],
+      passes,
+    };
+  }
+
+  /**
+   * Edits proposed by a rule for its unsuppressed violations. When some
+   * violations are suppressed, edits touching those lines are dropped.
+   */
+  private async getFixEdits(
+    rule: IValidationRule,
+    content: string,
+    filePath: string
+  ): Promise<ITextEdit[]> {
+    try {
+      const errors: IValidationError[] = [];
+      await this.applyRule(rule, content, filePath, errors);
+      if (errors.length === 0) return [];
+
+      const { knownRules, ruleIdsByAlias } = this.getConfiguredRuleReferences();
+      const kept = applySuppressions(
+        errors,
+        content,
+        filePath,
+        knownRules,
+        ruleIdsByAlias
+      ).filter((error) => errors.includes(error));
+      if (kept.length === 0) return [];
+
+      const edits =
+        rule.fix?.(
+          content,
+          filePath,
+          resolveRuleOptions(rule.optionsSchema, rule.options)
+        ) ?? [];
+      const suppressedLines = errors
+        .filter((error) => !kept.includes(error))
+        .map((error) => error.line)
+        .filter((line): line is number => line !== undefined);
+      if (suppressedLines.length === 0) return edits;
+
+      const offsets = getLineOffsets(content);
+      return edits.filter((edit) => {
+        const firstLine = this.lineAt(offsets, edit.start);
+        const lastLine = this.lineAt(
+          offsets,
+          Math.max(edit.start, edit.end - 1)
+        );
+        return !suppressedLines.some(
+          (line) => line >= firstLine && line <= lastLine
+        );
+      });
+    } catch (error) {
+      this.logRuleError(rule.name, filePath, error);
+      return [];
+    }
+  }
+
+  private lineAt(offsets: number[], offset: number): number {
+    let line = 1;
+    while (line < offsets.length && offsets[line]! <= offset) line++;
+    return line;
+  }
+
   private async validateFileContent(
     content: string,
     filePath: string
@@ -98,17 +478,59 @@ export class RuleEngine implements IRuleEngine {
       await this.runAdditionalValidations(content, filePath, errors);
     }
 
-    await this.runAlwaysApplicableValidations(filePath, errors);
+    await this.runAlwaysApplicableValidations(content, filePath, errors);
     return errors;
   }
 
+  /**
+   * Names, IDs and aliases that inline suppression directives may reference
+   */
+  private async getRuleReferences(): Promise<{
+    knownRules: Set<string>;
+    ruleIdsByAlias: Map<string, string>;
+  }> {
+    const validators = await this.loadAdditionalValidators();
+    const { knownRules, ruleIdsByAlias } = this.getConfiguredRuleReferences();
+    for (const rule of validators?.ADDITIONAL_VALIDATOR_RULES ?? []) {
+      knownRules.add(rule.id);
+      knownRules.add(rule.name);
+      for (const alias of rule.aliases ?? []) {
+        knownRules.add(alias);
+        ruleIdsByAlias.set(alias, rule.id);
+      }
+    }
+    return { knownRules, ruleIdsByAlias };
+  }
+
+  private getConfiguredRuleReferences(): {
+    knownRules: Set<string>;
+    ruleIdsByAlias: Map<string, string>;
+  } {
+    const knownRules = new Set<string>();
+    const ruleIdsByAlias = new Map<string, string>();
+    const overrideRules = (this.config?.overrides ?? []).flatMap(
+      (override) => override.rules
+    );
+    for (const rule of [...this.rules, ...overrideRules]) {
+      knownRules.add(rule.name);
+      if (rule.id) knownRules.add(rule.id);
+      for (const alias of rule.aliases ?? []) {
+        knownRules.add(alias);
+        if (rule.id) ruleIdsByAlias.set(alias, rule.id);
+      }
+    }
+    return { knownRules, ruleIdsByAlias };
+  }
+
   private async runBasicRules(
     content: string,
     filePath: string,
     errors: IValidationError[]
   ): Promise<void> {
-    for (const rule of this.rules) {
-      if (rule.name === 'No unused variables') continue;
+    for (const rule of this.getRulesForFile(filePath)) {
+      if (VALIDATOR_HANDLED_RULES.some((ref) => matchesRule(rule, ref))) {
+        continue;
+      }
 
       try {
         await this.applyRule(rule, content, filePath, errors);
@@ -124,7 +546,11 @@ export class RuleEngine implements IRuleEngine {
     filePath: string,
     errors: IValidationError[]
   ): Promise<void> {
-    const ruleResult = await rule.check(content, filePath);
+    const ruleResult = await rule.check(
+      content,
+      filePath,
+      resolveRuleOptions(rule.optionsSchema, rule.options)
+    );
     if (Array.isArray(ruleResult)) {
       if (ruleResult.length === 0) return; // No violaciones, no agregar error
       for (const line of ruleResult) {
@@ -147,6 +573,7 @@ export class RuleEngine implements IRuleEngine {
   private createErrorInfo(rule: any, filePath: string): IValidationError {
     return {
       rule: rule.name,
+      ...(rule.id ? { ruleId: rule.id } : {}),
       message: rule.message,
       filePath,
       severity: rule.severity ?? 'error',
@@ -167,20 +594,69 @@ export class RuleEngine implements IRuleEngine {
   ): Promise<void> {
     const validators = await this.loadAdditionalValidators();
     if (validators) {
-      this.runContentValidators(validators, content, filePath, errors);
+      const validatorErrors: IValidationError[] = [];
+      this.runContentValidators(validators, content, filePath, validatorErrors);
+      errors.push(
+        ...this.selectErrors(
+          this.configureValidatorErrors(validatorErrors, filePath)
+        )
+      );
     }
   }
 
   private async runAlwaysApplicableValidations(
+    content: string,
     filePath: string,
     errors: IValidationError[]
   ): Promise<void> {
     const validators = await this.loadAdditionalValidators();
     if (validators) {
-      this.runFileValidators(validators, filePath, errors);
+      const validatorErrors: IValidationError[] = [];
+      this.runFileValidators(validators, content, filePath, validatorErrors);
+      errors.push(
+        ...this.selectErrors(
+          this.configureValidatorErrors(validatorErrors, filePath)
+        )
+      );
     }
   }
 
+  /**
+   * Apply the configuration of their rule for the file to violations of the
+   * additional validators: turned off rules and rules whose appliesTo
+   * excludes the file report nothing, and configured rules report with their
+   * severity
+   */
+  private configureValidatorErrors(
+    errors: IValidationError[],
+    filePath: string
+  ): IValidationError[] {
+    if (errors.length === 0) return errors;
+
+    const relativePath = this.rootDir
+      ? path.relative(this.rootDir, filePath)
+      : filePath;
+    const projectType = this.getProjectTypeForFile(filePath);
+    const rules = this.getRulesForFile(filePath);
+    const disabledRules = this.getDisabledRulesForFile(filePath);
+    return errors.flatMap((error) => {
+      const reported = this.getReportedRule(error);
+      if (disabledRules.some((ref) => matchesRule(reported, ref))) return [];
+      const definition = this.findDefinition(error.ruleId);
+      if (
+        definition &&
+        !this.appliesToFile(definition, relativePath, projectType)
+      ) {
+        return [];
+      }
+
+      const rule = rules.find((candidate) =>
+        matchesRule(candidate, error.ruleId ?? error.rule)
+      );
+      return [rule?.severity ? { ...error, severity: rule.severity } : error];
+    });
+  }
+
   private logRuleError(
     ruleName: string,
     filePath: string,
@@ -195,7 +671,9 @@ export class RuleEngine implements IRuleEngine {
   private deduplicateErrors(errors: IValidationError[]): IValidationError[] {
     const seen = new Set<string>();
     return errors.filter((err) => {
-      const key = `${err.filePath}|${err.rule}|${err.line ?? 'no-line'}`;
+      const key = `${err.filePath}|${err.ruleId ?? err.rule}|${
+        err.line ?? 'no-line'
+      }`;
       if (seen.has(key)) return false;
       seen.add(key);
       return true;
@@ -213,6 +691,7 @@ export class RuleEngine implements IRuleEngine {
     return [
       {
         rule: 'File validation error',
+        ruleId: 'content/file-validation-error',
         message: `Could not validate file: ${
           error instanceof Error ? error.message : String(error)
         }`,
@@ -227,13 +706,13 @@ export class RuleEngine implements IRuleEngine {
    * Validate content with context (compatibility method)
    */
   async validate(
-    _content: string,
+    content: string,
     filePath: string,
     _context?: any
   ): Promise<IValidationError[]> {
-    // For now, we use validateFile method which reads the file content
-    // In future, we could refactor to use the provided content directly
-    return this.validateFile(filePath);
+    // The given content may differ from the file on disk, e.g. when the
+    // staged version of the file is checked
+    return this.validateFile(filePath, content);
   }
 
   /**
@@ -283,7 +762,13 @@ export class RuleEngine implements IRuleEngine {
       errors.push(...(checkInlineStyles(content, filePath) ?? []));
       errors.push(...(checkCommentedCode(content, filePath) ?? []));
       errors.push(...(checkHardcodedData(content, filePath) ?? []));
-      errors.push(...(checkFunctionComments(content, filePath) ?? []));
+      errors.push(
+        ...(checkFunctionComments(
+          content,
+          filePath,
+          this.getRuleOptions(COMPLEX_FUNCTION_RULE_ID, filePath)
+        ) ?? [])
+      );
       errors.push(...(checkFunctionNaming(content, filePath) ?? []));
       errors.push(...(checkInterfaceNaming(content, filePath) ?? []));
       errors.push(...(checkStyleConventions(content, filePath) ?? []));
@@ -295,11 +780,23 @@ export class RuleEngine implements IRuleEngine {
     }
   }
 
+  /**
+   * Options of a configured rule, for validators reporting under its ID.
+   * Validators fall back to their defaults when the rule isn't configured.
+   */
+  private getRuleOptions(ruleId: string, filePath: string): IRuleOptions {
+    const rule = this.getRulesForFile(filePath).find(
+      (candidate) => candidate.id === ruleId
+    );
+    return rule ? resolveRuleOptions(rule.optionsSchema, rule.options) : {};
+  }
+
   /**
    * Run file validators that apply to all files
    */
   private runFileValidators(
     additionalValidators: any,
+    content: string,
     filePath: string,
     errors: IValidationError[]
   ): void {
@@ -313,7 +810,7 @@ export class RuleEngine implements IRuleEngine {
       const enumError = checkEnumsOutsideTypes(filePath);
       if (enumError) errors.push(enumError);
 
-      const hookExtError = checkHookFileExtension(filePath);
+      const hookExtError = checkHookFileExtension(filePath, content);
       if (hookExtError) errors.push(hookExtError);
 
       const assetError = checkAssetNaming(filePath);
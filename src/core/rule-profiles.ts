@@ -0,0 +1,170 @@
+import type {
+  IBaseRuleProfile,
+  IBaseRuleProfileName,
+  IRuleProfileLayer,
+  IRuleProfileLayerName,
+  IRuleProfileName,
+  IRuleProfileSelection,
+  IRuleSeverity,
+  IRulesObjectFormat,
+  IValidationRule,
+} from '../types/index.js';
+
+// Rules about the team's git and release process rather than the code
+const PROCESS_RULES = [
+  'structure/gitflow-branch-naming-convention',
+  'structure/sync-branch-validation',
+  'structure/proper-release-versioning',
+];
+
+// Rules that only make sense for one kind of project; layers enable them
+const FRAMEWORK_RULES = [
+  'naming/next-js-app-router-naming',
+  'react/client-component-directive',
+  'performance/next-js-image-optimization',
+  'structure/platform-specific-code-organization',
+];
+
+// Rules legacy code has to pass no matter what
+const CRITICAL_RULES = [
+  'content/no-merge-conflicts-markers',
+  'content/no-committed-credentials',
+];
+
+const LEGACY_CATEGORIES = ['content', 'typescript', 'react', 'accessibility'];
+
+const ESCALATED_SEVERITY: Record<IRuleSeverity, IRuleSeverity> = {
+  error: 'error',
+  warning: 'error',
+  info: 'warning',
+};
+
+function isFrameworkRule(rule: IValidationRule): boolean {
+  return FRAMEWORK_RULES.includes(rule.id ?? '');
+}
+
+export const BASE_RULE_PROFILES: Record<
+  IBaseRuleProfileName,
+  IBaseRuleProfile
+> = {
+  recommended: {
+    description:
+      'Default rules and severities, without git process and framework specific rules',
+    enabled: (rule) =>
+      !PROCESS_RULES.includes(rule.id ?? '') && !isFrameworkRule(rule),
+    severity: (rule) => rule.severity ?? 'error',
+  },
+  strict: {
+    description:
+      'Every rule except framework specific ones; warnings become errors and suggestions warnings',
+    enabled: (rule) => !isFrameworkRule(rule),
+    severity: (rule) => ESCALATED_SEVERITY[rule.severity ?? 'error'],
+  },
+  legacy: {
+    description:
+      'Content, TypeScript, React and accessibility rules as warnings, critical rules as errors; no naming, structure or style rules',
+    enabled: (rule) =>
+      CRITICAL_RULES.includes(rule.id ?? '') ||
+      (LEGACY_CATEGORIES.includes(rule.category ?? 'content') &&
+        rule.severity !== 'info' &&
+        !isFrameworkRule(rule)),
+    severity: (rule) =>
+      CRITICAL_RULES.includes(rule.id ?? '') ? 'error' : 'warning',
+  },
+};
+
+export const RULE_PROFILE_LAYERS: Record<
+  IRuleProfileLayerName,
+  IRuleProfileLayer
+> = {
+  next: {
+    description: 'Next.js app router naming, client directives and images',
+    rules: {
+      'naming/next-js-app-router-naming': true,
+      'react/client-component-directive': true,
+      'performance/next-js-image-optimization': true,
+    },
+  },
+  'react-native': {
+    description: 'Platform specific files; no web only styling and a11y rules',
+    rules: {
+      'structure/platform-specific-code-organization': true,
+      'content/no-inline-styles': false,
+      'style/tailwind-css-preference': false,
+      'accessibility/form-inputs-missing-labels': false,
+      'accessibility/links-missing-accessible-names': false,
+      'accessibility/color-contrast-considerations': false,
+    },
+  },
+  library: {
+    description:
+      'No app folder structure or import aliases; documented public API',
+    rules: {
+      'structure/folder-structure': false,
+      'structure/src-structure': false,
+      'imports/use-absolute-imports': false,
+      'documentation/should-have-tsdoc-comments': 'warning',
+      'typescript/explicit-return-types-for-functions': 'warning',
+    },
+  },
+};
+
+export const RULE_PROFILE_NAMES = [
+  ...Object.keys(BASE_RULE_PROFILES),
+  ...Object.keys(RULE_PROFILE_LAYERS),
+] as IRuleProfileName[];
+
+function isBaseProfile(name: IRuleProfileName): name is IBaseRuleProfileName {
+  return name in BASE_RULE_PROFILES;
+}
+
+/**
+ * Why a `profile` setting is invalid, or null when it is valid
+ */
+export function findProfileSelectionError(selection: unknown): string | null {
+  const names = Array.isArray(selection) ? selection : [selection];
+  const unknown = names.find(
+    (name) => !RULE_PROFILE_NAMES.includes(name as IRuleProfileName)
+  );
+  if (unknown !== undefined) {
+    return `Unknown rule profile ${JSON.stringify(
+      unknown
+    )}, expected one of ${RULE_PROFILE_NAMES.join(', ')}`;
+  }
+
+  const bases = names.filter((name) => isBaseProfile(name));
+  if (bases.length > 1) {
+    return `Only one base profile can be used, got ${bases.join(' and ')}`;
+  }
+  return null;
+}
+
+/**
+ * The default rules as configured by a profile and its layers, in object
+ * format. Without a base profile the layers apply to `recommended`.
+ */
+export function resolveProfileRules(
+  selection: IRuleProfileSelection,
+  defaultRules: IValidationRule[]
+): IRulesObjectFormat {
+  const error = findProfileSelectionError(selection);
+  if (error) throw new Error(error);
+
+  const names = Array.isArray(selection) ? selection : [selection];
+  const base = BASE_RULE_PROFILES[names.find(isBaseProfile) ?? 'recommended'];
+  const layers = names
+    .filter((name): name is IRuleProfileLayerName => !isBaseProfile(name))
+    .map((name) => RULE_PROFILE_LAYERS[name]);
+
+  const rules: IRulesObjectFormat = {};
+  for (const rule of defaultRules) {
+    if (!rule.id) continue;
+
+    let setting: boolean | IRuleSeverity = base.enabled(rule);
+    for (const layer of layers) {
+      setting = layer.rules[rule.id] ?? setting;
+    }
+    rules[rule.id] = setting === true ? base.severity(rule) : setting;
+  }
+  return rules;
+}
@@ -0,0 +1,246 @@
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { Worker } from 'worker_threads';
+import type {
+  ILogger,
+  IValidationError,
+  IValidationTask,
+  IValidationWorkerMessage,
+  IValidationPoolOptions,
+} from '../types/index.js';
+import { findPackageRoot } from '../helpers/runInfo.helper.js';
+
+type IPendingTask = IValidationTask & {
+  resolve: (errors: IValidationError[]) => void;
+};
+
+type IPoolWorker = {
+  worker: Worker;
+  task: IPendingTask | null;
+  timer: NodeJS.Timeout | null;
+};
+
+/**
+ * Same shape as the error the rule engine reports for unreadable files
+ */
+export function createFileValidationError(
+  filePath: string,
+  reason: string
+): IValidationError {
+  return {
+    rule: 'File validation error',
+    ruleId: 'content/file-validation-error',
+    message: `Could not validate file: ${reason}`,
+    filePath,
+    severity: 'error',
+    category: 'content',
+  };
+}
+
+/**
+ * tsx ESM API, used to run the TypeScript worker when running bin/cli.ts.
+ * Loaders registered by tsx in the main thread do not apply to workers.
+ */
+function resolveTsxApi(script: string): string | null {
+  try {
+    return createRequire(script)
+      .resolve('tsx/esm/api')
+      .replace(/\.cjs$/, '.mjs');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Worker entry point of the running build: the compiled file next to
+ * dist/bin/cli.js, or the TypeScript source when running bin/cli.ts
+ */
+export function resolveWorkerScript(rootDir: string): string | null {
+  const packageRoot = findPackageRoot(rootDir);
+  if (!packageRoot) return null;
+
+  if (process.argv[1]?.endsWith('.ts')) {
+    const script = path.join(
+      packageRoot,
+      'src',
+      'core',
+      'validation-worker.ts'
+    );
+    return fs.existsSync(script) && resolveTsxApi(script) ? script : null;
+  }
+  // The build also copies package.json into dist/
+  return (
+    [
+      path.join(packageRoot, 'dist', 'src', 'core', 'validation-worker.js'),
+      path.join(packageRoot, 'src', 'core', 'validation-worker.js'),
+    ].find((script) => fs.existsSync(script)) ?? null
+  );
+}
+
+function createWorker(script: string, workerData: unknown): Worker {
+  const tsxApi = script.endsWith('.ts') ? resolveTsxApi(script) : null;
+  if (!tsxApi) return new Worker(script, { workerData });
+
+  const url = JSON.stringify(pathToFileURL(script).href);
+  return new Worker(
+    `import(${JSON.stringify(pathToFileURL(tsxApi).href)})` +
+      `.then((api) => api.tsImport(${url}, ${url}));`,
+    { eval: true, workerData }
+  );
+}
+
+/**
+ * Pool of worker threads that validate files in parallel. Each worker loads
+ * the configuration itself, without repeating its warnings, since rules
+ * cannot be sent between threads.
+ * A file that takes longer than the timeout, or crashes its worker, gets a
+ * 'File validation error' and the worker is replaced.
+ */
+export class ValidationPool {
+  public readonly logger: ILogger;
+  private readonly options: IValidationPoolOptions;
+  private readonly workers: IPoolWorker[] = [];
+  private readonly queue: IPendingTask[] = [];
+  private nextId = 0;
+  private closed = false;
+
+  constructor(logger: ILogger, options: IValidationPoolOptions) {
+    this.logger = logger;
+    this.options = options;
+  }
+
+  /**
+   * Validate a file in the next free worker
+   * @param zone Zone of the file, whose config files apply to it
+   * @param content Content to validate instead of the file on disk
+   */
+  validate(
+    filePath: string,
+    zone?: string,
+    content?: string
+  ): Promise<IValidationError[]> {
+    if (this.closed) {
+      return Promise.reject(new Error('Validation pool is closed'));
+    }
+    return new Promise((resolve) => {
+      this.queue.push({
+        id: this.nextId++,
+        filePath,
+        ...(zone !== undefined ? { zone } : {}),
+        ...(content !== undefined ? { content } : {}),
+        resolve,
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate every worker. Files still queued resolve without violations.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.queue.splice(0).forEach((task) => task.resolve([]));
+    const workers = this.workers.splice(0);
+    await Promise.all(
+      workers.map((slot) => {
+        if (slot.timer) clearTimeout(slot.timer);
+        slot.task?.resolve([]);
+        return slot.worker.terminate();
+      })
+    );
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.workers.find((candidate) => !candidate.task);
+      if (!slot) {
+        if (this.workers.length >= this.options.size) return;
+        slot = this.spawn();
+      }
+      this.run(slot, this.queue.shift()!);
+    }
+  }
+
+  private spawn(): IPoolWorker {
+    const slot: IPoolWorker = {
+      worker: createWorker(this.options.workerScript, this.options.workerData),
+      task: null,
+      timer: null,
+    };
+    slot.worker.on('message', (message: IValidationWorkerMessage) =>
+      this.handleMessage(slot, message)
+    );
+    slot.worker.on('error', (error) =>
+      this.replace(slot, `worker crashed: ${error.message}`)
+    );
+    slot.worker.on('exit', (code) =>
+      this.replace(slot, `worker exited with code ${code}`)
+    );
+    this.workers.push(slot);
+    return slot;
+  }
+
+  private run(slot: IPoolWorker, task: IPendingTask): void {
+    slot.task = task;
+    slot.timer = setTimeout(
+      () =>
+        this.replace(
+          slot,
+          `validation timed out after ${this.options.timeoutMs}ms`
+        ),
+      this.options.timeoutMs
+    );
+    const message: IValidationTask = {
+      id: task.id,
+      filePath: task.filePath,
+      ...(task.zone !== undefined ? { zone: task.zone } : {}),
+      ...(task.content !== undefined ? { content: task.content } : {}),
+    };
+    slot.worker.postMessage(message);
+  }
+
+  private handleMessage(
+    slot: IPoolWorker,
+    message: IValidationWorkerMessage
+  ): void {
+    if (message.type === 'log') {
+      this.logger[message.level](message.message);
+      return;
+    }
+
+    const task = slot.task;
+    if (!task || task.id !== message.id) return;
+    if (slot.timer) clearTimeout(slot.timer);
+    slot.timer = null;
+    slot.task = null;
+    task.resolve(
+      message.type === 'result'
+        ? message.errors
+        : [createFileValidationError(task.filePath, message.message)]
+    );
+    this.dispatch();
+  }
+
+  /**
+   * Drop a hung or crashed worker; its current file fails validation
+   */
+  private replace(slot: IPoolWorker, reason: string): void {
+    const index = this.workers.indexOf(slot);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+
+    if (slot.timer) clearTimeout(slot.timer);
+    slot.worker.removeAllListeners();
+    slot.worker.on('error', () => undefined);
+    void slot.worker.terminate();
+
+    const task = slot.task;
+    if (task) {
+      this.logger.error(`Failed to validate file ${task.filePath}: ${reason}`);
+      task.resolve([createFileValidationError(task.filePath, reason)]);
+    }
+    this.dispatch();
+  }
+}
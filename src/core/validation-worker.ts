@@ -0,0 +1,92 @@
+import { parentPort, workerData } from 'worker_threads';
+import type {
+  ILogger,
+  IRuleEngineInitOptions,
+  IValidationTask,
+  IValidationWorkerData,
+  IValidationWorkerMessage,
+} from '../types/index.js';
+import { ConfigLoader } from './config-loader.js';
+import { RuleEngine } from './rule-engine.js';
+
+/**
+ * Worker thread entry of the ValidationPool: loads the configuration once and
+ * validates the files it receives. Warnings and errors go back to the main
+ * thread so they are printed by its logger, except the configuration's
+ * warnings, which the main thread printed when it loaded the configuration.
+ */
+const data = workerData as IValidationWorkerData;
+
+// The selected rules, zone and project types decide which rules run
+const initOptions: IRuleEngineInitOptions = {
+  ...data.selection,
+  rootDir: data.rootDir,
+};
+if (data.projectType) initOptions.projectType = data.projectType;
+if (data.zones) initOptions.zones = data.zones;
+
+function post(message: IValidationWorkerMessage): void {
+  parentPort?.postMessage(message);
+}
+
+const logger: ILogger = {
+  verbose: data.verbose,
+  levels: { ERROR: 0, WARN: 1, INFO: 2, DEBUG: 3 },
+  currentLevel: data.verbose ? 3 : 1,
+  error: (message) => post({ type: 'log', level: 'error', message }),
+  warn: (message) => post({ type: 'log', level: 'warn', message }),
+  info: () => undefined,
+  debug: (message) => {
+    if (data.verbose) post({ type: 'log', level: 'debug', message });
+  },
+};
+
+const configLoader = new ConfigLoader(data.rootDir, {
+  ...logger,
+  warn: () => undefined,
+});
+const ruleEngine = new RuleEngine(logger);
+const ready = configLoader
+  .load(data.configPath)
+  .then((config) => ruleEngine.initialize(config, initOptions));
+
+// Rule engines of zones with config files of their own, loaded on first use
+const zoneRuleEngines = new Map<string, Promise<RuleEngine>>();
+
+async function loadZoneRuleEngine(zone: string): Promise<RuleEngine> {
+  await ready;
+  const config = await configLoader.loadZone(zone, data.configPath);
+  if (!config) return ruleEngine;
+
+  const zoneRuleEngine = new RuleEngine(logger);
+  zoneRuleEngine.initialize(config, initOptions);
+  return zoneRuleEngine;
+}
+
+function getRuleEngine(zone?: string): Promise<RuleEngine> {
+  if (zone === undefined) return ready.then(() => ruleEngine);
+  if (!zoneRuleEngines.has(zone)) {
+    zoneRuleEngines.set(zone, loadZoneRuleEngine(zone));
+  }
+  return zoneRuleEngines.get(zone)!;
+}
+
+parentPort?.on(
+  'message',
+  async ({ id, filePath, zone, content }: IValidationTask) => {
+    try {
+      const engine = await getRuleEngine(zone);
+      post({
+        type: 'result',
+        id,
+        errors: await engine.validateFile(filePath, content),
+      });
+    } catch (error) {
+      post({
+        type: 'error',
+        id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+);
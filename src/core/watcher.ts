@@ -0,0 +1,424 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  ILogger,
+  IValidationError,
+  IGitIgnorePattern,
+  IWatchContext,
+  IWatcherOptions,
+  IViolationDiff,
+  IZoneSetup,
+} from '../types/index.js';
+import type { RuleEngine } from './rule-engine.js';
+import type { FileScanner } from '../utils/file-scanner.js';
+import { IGNORE_FILES } from '../utils/file-scanner.js';
+import { countSeverities } from '../helpers/general.helper.js';
+import { CONFIG_FILE_NAMES } from '../helpers/configLoader.helper.js';
+
+const DEFAULT_DEBOUNCE_MS = 150;
+
+function violationKey(error: IValidationError): string {
+  return `${error.ruleId ?? error.rule}|${error.line ?? ''}|${error.message}`;
+}
+
+/**
+ * Compare the violations of a file before and after a change
+ */
+export function diffViolations(
+  before: IValidationError[],
+  after: IValidationError[]
+): IViolationDiff {
+  const beforeKeys = new Set(before.map(violationKey));
+  const afterKeys = new Set(after.map(violationKey));
+  return {
+    added: after.filter((error) => !beforeKeys.has(violationKey(error))),
+    resolved: before.filter((error) => !afterKeys.has(violationKey(error))),
+  };
+}
+
+function isInZone(relativePath: string, zone: string): boolean {
+  return (
+    zone === '.' ||
+    relativePath === zone ||
+    relativePath.startsWith(`${zone.replace(/\/$/, '')}/`)
+  );
+}
+
+/**
+ * Watch mode: keeps the rule engine, configuration and ignore patterns in
+ * memory and re-validates only the files that change on disk
+ */
+export class Watcher {
+  public readonly rootDir: string;
+  public readonly logger: ILogger;
+  private readonly ruleEngine: RuleEngine;
+  private readonly fileScanner: FileScanner;
+  private readonly options: IWatcherOptions;
+  private context: IWatchContext | null = null;
+  private gitignorePatterns: IGitIgnorePattern[] = [];
+  // Current violations by project relative path
+  private readonly violations = new Map<string, IValidationError[]>();
+  private readonly pending = new Set<string>();
+  private readonly fsWatchers: fs.FSWatcher[] = [];
+  // Watchers of the project directories by project relative path
+  private readonly directoryWatchers = new Map<string, fs.FSWatcher>();
+  private timer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    rootDir: string,
+    logger: ILogger,
+    ruleEngine: RuleEngine,
+    fileScanner: FileScanner,
+    options: IWatcherOptions
+  ) {
+    this.rootDir = rootDir;
+    this.logger = logger;
+    this.ruleEngine = ruleEngine;
+    this.fileScanner = fileScanner;
+    this.options = options;
+  }
+
+  /**
+   * Validate every file once, then start watching the project
+   */
+  async start(): Promise<void> {
+    await this.reload();
+
+    this.watchDirectory('');
+    // A config passed with --config may live outside of the project
+    const configRelative = this.toRelative(this.options.configPath);
+    if (
+      configRelative.startsWith('..') &&
+      fs.existsSync(this.options.configPath)
+    ) {
+      this.fsWatchers.push(
+        fs.watch(this.options.configPath, () =>
+          this.schedule(this.options.configPath)
+        )
+      );
+    }
+
+    this.logger.info('👀 Watching for changes... (press Ctrl+C to stop)');
+  }
+
+  /**
+   * Stop watching and drop pending changes
+   */
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.pending.clear();
+    this.fsWatchers.forEach((watcher) => watcher.close());
+    this.fsWatchers.length = 0;
+    this.directoryWatchers.forEach((watcher) => watcher.close());
+    this.directoryWatchers.clear();
+  }
+
+  /**
+   * Watch a directory and the directories below it that are not ignored.
+   * Each directory has a watcher of its own: recursive watchers are not
+   * available on Linux before Node 20 and would include node_modules.
+   * @param dir Directory relative to the root
+   * @param scheduleFiles Queue the files found, for directories created
+   * while watching
+   */
+  private watchDirectory(dir: string, scheduleFiles = false): void {
+    if (dir && this.isIgnoredDirectory(dir)) return;
+    const dirPath = path.join(this.rootDir, dir);
+
+    if (!this.directoryWatchers.has(dir)) {
+      try {
+        const watcher = fs.watch(dirPath, (_event, filename) => {
+          if (!filename) return;
+          const relativePath = dir
+            ? `${dir}/${filename.toString()}`
+            : filename.toString();
+          this.schedule(relativePath);
+          this.updateDirectoryWatchers(relativePath);
+        });
+        // Watchers of removed directories may fail instead of closing
+        watcher.on('error', () => this.unwatchDirectory(dir));
+        this.directoryWatchers.set(dir, watcher);
+      } catch (error) {
+        this.logger.debug(
+          `Could not watch ${dirPath}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        return;
+      }
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dirPath, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        this.watchDirectory(relativePath, scheduleFiles);
+      } else if (scheduleFiles) {
+        this.schedule(relativePath);
+      }
+    }
+  }
+
+  /**
+   * Watch a directory created while watching, or stop watching a removed one
+   */
+  private updateDirectoryWatchers(relativePath: string): void {
+    const fullPath = path.join(this.rootDir, relativePath);
+    if (!fs.existsSync(fullPath)) {
+      this.unwatchDirectory(relativePath);
+    } else if (
+      !this.directoryWatchers.has(relativePath) &&
+      fs.statSync(fullPath).isDirectory()
+    ) {
+      this.watchDirectory(relativePath, true);
+    }
+  }
+
+  /**
+   * Close the watchers of a directory and the directories below it
+   */
+  private unwatchDirectory(dir: string): void {
+    for (const [watchedDir, watcher] of this.directoryWatchers) {
+      if (watchedDir === dir || watchedDir.startsWith(`${dir}/`)) {
+        watcher.close();
+        this.directoryWatchers.delete(watchedDir);
+      }
+    }
+  }
+
+  /**
+   * Whether a directory is ignored by the default patterns, the ignore
+   * files or the ignorePatterns of the configuration
+   */
+  private isIgnoredDirectory(relativePath: string): boolean {
+    return this.fileScanner.isIgnored(
+      relativePath,
+      this.gitignorePatterns,
+      this.context?.config.ignorePatterns || [],
+      true
+    );
+  }
+
+  /**
+   * Queue a changed path; changes are processed together after a short delay
+   * so that editors saving several files at once trigger a single run
+   */
+  schedule(filePath: string): void {
+    this.pending.add(this.toRelative(path.resolve(this.rootDir, filePath)));
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const changed = [...this.pending];
+      this.pending.clear();
+      this.queue = this.queue
+        .then(() => this.handleChanges(changed))
+        .catch((error) =>
+          this.logger.error(
+            'Watch mode failed to process changes:',
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+    }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+
+  /**
+   * Re-validate the changed files, or everything when the config, the
+   * config file of a zone or an ignore file changed
+   */
+  async handleChanges(changed: string[]): Promise<void> {
+    const configRelative = this.toRelative(this.options.configPath);
+    if (
+      changed.includes(configRelative) ||
+      changed.some((file) => this.isZoneConfigFile(file))
+    ) {
+      this.logger.info(`\n🔄 Configuration changed, reloading...`);
+      await this.reload();
+      return;
+    }
+    // Ignore files change which files are watched
+    if (changed.some((file) => this.isIgnoreFile(file))) {
+      this.logger.info(`\n🔄 Ignore files changed, reloading...`);
+      await this.reload();
+      return;
+    }
+
+    const files = changed.filter(
+      (file) => this.violations.has(file) || this.isWatchedFile(file)
+    );
+    if (files.length === 0) return;
+
+    for (const file of files) {
+      const before = this.violations.get(file) ?? [];
+      const after = await this.validate(file);
+      this.printDiff(file, diffViolations(before, after));
+    }
+    this.printTotals();
+  }
+
+  /**
+   * Load the configuration and validate every file in the active zones.
+   * On later reloads only the differences with the previous run are printed.
+   */
+  async reload(): Promise<void> {
+    const isFirstRun = this.context === null;
+    this.context = await this.options.load();
+    this.fileScanner.resetGitignorePatterns();
+    this.gitignorePatterns = await this.fileScanner.loadGitignorePatterns();
+
+    const previous = new Map(this.violations);
+    this.violations.clear();
+
+    const { zones } = this.context;
+    for (const zone of zones) {
+      const config =
+        this.context.zoneSetups?.get(zone)?.config ?? this.context.config;
+      const files = await this.fileScanner.scanZone(zone, {
+        extensions: config.extensions || ['.js', '.ts', '.jsx', '.tsx'],
+        ignorePatterns: config.ignorePatterns || [],
+        excludePatterns: config.zones?.excludePatterns || [],
+        zones: [zone],
+        includePackages: config.zones?.includePackages || false,
+        customZones: config.zones?.customZones || [],
+      });
+      for (const file of files) {
+        if (this.ruleEngine.isConfigurationFile(file.path)) continue;
+        await this.validate(
+          this.toRelative(path.resolve(this.rootDir, file.path))
+        );
+      }
+    }
+
+    if (!isFirstRun) {
+      const files = new Set([...previous.keys(), ...this.violations.keys()]);
+      for (const file of files) {
+        this.printDiff(
+          file,
+          diffViolations(
+            previous.get(file) ?? [],
+            this.violations.get(file) ?? []
+          )
+        );
+      }
+    }
+    this.printTotals();
+
+    // Directories may no longer be ignored after a change of the ignore files
+    if (this.directoryWatchers.size > 0) this.watchDirectory('');
+  }
+
+  /**
+   * Current violations by project relative path
+   */
+  getViolations(): Map<string, IValidationError[]> {
+    return new Map(this.violations);
+  }
+
+  private async validate(relativePath: string): Promise<IValidationError[]> {
+    const fullPath = path.join(this.rootDir, relativePath);
+    if (!fs.existsSync(fullPath) || !this.isWatchedFile(relativePath)) {
+      this.violations.delete(relativePath);
+      return [];
+    }
+
+    const ruleEngine =
+      this.getZoneSetup(relativePath)?.ruleEngine ?? this.ruleEngine;
+    const errors = await ruleEngine.validateFile(fullPath);
+    this.violations.set(relativePath, errors);
+    return errors;
+  }
+
+  /**
+   * Whether a file belongs to the active zones and is not ignored
+   */
+  private isWatchedFile(relativePath: string): boolean {
+    if (!this.context || relativePath.startsWith('..')) return false;
+    const { zones } = this.context;
+    const config =
+      this.getZoneSetup(relativePath)?.config ?? this.context.config;
+
+    const extensions = config.extensions || ['.js', '.ts', '.jsx', '.tsx'];
+    if (!extensions.includes(path.extname(relativePath))) return false;
+    if (
+      this.fileScanner.isIgnored(relativePath, this.gitignorePatterns, [
+        ...(config.ignorePatterns || []),
+        ...(config.zones?.excludePatterns || []),
+      ])
+    ) {
+      return false;
+    }
+    if (this.ruleEngine.isConfigurationFile(relativePath)) return false;
+
+    return zones.some((zone) => isInZone(relativePath, zone));
+  }
+
+  /**
+   * Setup of the innermost zone with config files of its own containing a file
+   */
+  private getZoneSetup(relativePath: string): IZoneSetup | undefined {
+    const zoneSetups = this.context?.zoneSetups;
+    if (!zoneSetups) return undefined;
+
+    const zone = [...zoneSetups.keys()]
+      .filter((candidate) => isInZone(relativePath, candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    return zone === undefined ? undefined : zoneSetups.get(zone);
+  }
+
+  /**
+   * Whether a changed file is a config file that zones may pick up
+   */
+  private isZoneConfigFile(relativePath: string): boolean {
+    const fileName = path.posix.basename(relativePath);
+    return (
+      fileName !== 'package.json' &&
+      CONFIG_FILE_NAMES.includes(fileName) &&
+      !relativePath.startsWith('..') &&
+      !relativePath.split('/').includes('node_modules')
+    );
+  }
+
+  /**
+   * Whether a changed file is a .gitignore or .standardsignore file
+   */
+  private isIgnoreFile(relativePath: string): boolean {
+    return (
+      IGNORE_FILES.includes(path.posix.basename(relativePath)) &&
+      !relativePath.startsWith('..') &&
+      !relativePath.split('/').includes('node_modules')
+    );
+  }
+
+  private printDiff(relativePath: string, diff: IViolationDiff): void {
+    const describe = (error: IValidationError) =>
+      `${relativePath}${error.line !== undefined ? `:${error.line}` : ''} [${
+        error.severity
+      }] ${error.rule}: ${error.message}`;
+
+    diff.added.forEach((error) => this.logger.info(`➕ ${describe(error)}`));
+    diff.resolved.forEach((error) =>
+      this.logger.info(`✅ Resolved ${describe(error)}`)
+    );
+  }
+
+  private printTotals(): void {
+    const all = [...this.violations.values()].flat();
+    const { errorsCount, warningsCount } = countSeverities(all);
+    const filesWithViolations = [...this.violations.values()].filter(
+      (errors) => errors.length > 0
+    ).length;
+    this.logger.info(
+      `📊 ${errorsCount} errors, ${warningsCount} warnings in ${filesWithViolations} of ${this.violations.size} files`
+    );
+  }
+
+  private toRelative(fullPath: string): string {
+    return path.relative(this.rootDir, fullPath).split(path.sep).join('/');
+  }
+}
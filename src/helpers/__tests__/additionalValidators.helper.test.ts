@@ -194,6 +194,15 @@ describe('additionalValidators.helper', () => {
       );
       expect(result.isComplex).toBe(true);
     });
+    it('usa los umbrales de las opciones', () => {
+      const lines = ['function foo() {', 'if (a) {', 'return 1;', '}', '}'];
+      const analyze = (options = {}) =>
+        helpers.analyzeFunctionComplexity(lines, 0, lines.join('\n'), options)
+          .isComplex;
+      expect(analyze()).toBe(false);
+      expect(analyze({ minComplexityScore: 1 })).toBe(true);
+      expect(analyze({ maxLines: 3 })).toBe(true);
+    });
   });
 
   describe('hasProperComments', () => {
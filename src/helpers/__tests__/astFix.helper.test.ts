@@ -0,0 +1,100 @@
+import { applyTextEdits } from '../fix.helper';
+import { renameInterfaceEdits, varToLetEdits } from '../astFix.helper';
+
+const renameInterfaces = (content: string, filePath = 'file.tsx') =>
+  applyTextEdits(content, renameInterfaceEdits(content, filePath)).content;
+const replaceVar = (content: string, filePath = 'file.ts') =>
+  applyTextEdits(content, varToLetEdits(content, filePath)).content;
+
+describe('astFix.helper', () => {
+  describe('renameInterfaceEdits', () => {
+    it('renames the declaration and type references only', () => {
+      const content = [
+        'interface Props { title: string }',
+        'interface Other extends Props {}',
+        '// Props are required',
+        "const labels = { Props: 'x' };",
+        'const Foo = (p: Props): Props[] => labels.Props;',
+        'const Bar = () => <div title="Props">Props</div>;',
+      ].join('\n');
+
+      expect(renameInterfaces(content)).toBe(
+        [
+          'interface IProps { title: string }',
+          'interface IOther extends IProps {}',
+          '// Props are required',
+          "const labels = { Props: 'x' };",
+          'const Foo = (p: IProps): IProps[] => labels.Props;',
+          'const Bar = () => <div title="Props">Props</div>;',
+        ].join('\n')
+      );
+    });
+
+    it('leaves exported, shadowed and clashing interfaces alone', () => {
+      const unchanged = [
+        'export interface State {}',
+        'interface Exported {}\nexport type { Exported };',
+        'interface Value {}\nconst Value = 1;',
+        'interface Props {}\ninterface IProps {}',
+        "interface Window {}\ndeclare module 'x' {}",
+      ];
+      for (const content of unchanged) {
+        expect(renameInterfaces(content)).toBe(content);
+      }
+    });
+  });
+
+  describe('varToLetEdits', () => {
+    it('replaces var whose names are only used in their block', () => {
+      expect(
+        replaceVar(
+          [
+            'var a = 1, b = a;',
+            'function f() {',
+            '  var c = "var x";',
+            '  return c + `var ${b}`;',
+            '}',
+            'for (var i = 0; i < 3; i++) {',
+            '  var item = i * 2;',
+            '  use(item);',
+            '}',
+          ].join('\n')
+        )
+      ).toBe(
+        [
+          'let a = 1, b = a;',
+          'function f() {',
+          '  let c = "var x";',
+          '  return c + `var ${b}`;',
+          '}',
+          'for (let i = 0; i < 3; i++) {',
+          '  let item = i * 2;',
+          '  use(item);',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('reports only when let would change the behavior', () => {
+      const unchanged = [
+        // Used outside its block
+        'if (x) { var y = 1; }\nuse(y);',
+        // Captured per iteration by a closure
+        'for (var i = 0; i < 3; i++) {\n  setTimeout(() => use(i));\n}',
+        // Keeps its value between iterations
+        'while (next()) {\n  var count;\n  count = (count || 0) + 1;\n}',
+        // Used before the declaration or in its own initializer
+        'use(a);\nvar a = 1;',
+        'var cache = cache || {};',
+        // Declared twice
+        'var b = 1;\nvar b = 2;',
+        // let is not allowed as the body of an if
+        'if (x) var z = 1;',
+        'declare var process: unknown;',
+      ];
+      for (const content of unchanged) {
+        expect(replaceVar(content)).toBe(content);
+      }
+    });
+  });
+});
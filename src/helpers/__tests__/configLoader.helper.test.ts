@@ -33,10 +33,60 @@ describe('ConfigLoaderHelper', () => {
       expect(helper.isConfigFile('.prettierrc')).toBe(true);
       expect(helper.isConfigFile('babel.config')).toBe(true);
       expect(helper.isConfigFile('expo.config.js')).toBe(true);
+      expect(helper.isConfigFile('.frontendstandardsrc.yaml')).toBe(true);
       expect(helper.isConfigFile('notaconfig.txt')).toBe(false);
     });
   });
 
+  describe('mergeConfigInputs', () => {
+    const rule = (name: string, id?: string) => ({
+      name,
+      ...(id ? { id } : {}),
+      check: () => false,
+      message: name,
+    });
+
+    it('replaces preset rules with the same ID and keeps the others', () => {
+      const helper = new ConfigLoaderHelper(mockLogger);
+      const merged = helper.mergeConfigInputs(
+        {
+          rules: [rule('No var', 'custom/no-var'), rule('No eval')],
+          overrides: [{ files: ['a/**'], rules: {} }],
+        },
+        {
+          extends: './preset.mjs',
+          merge: false,
+          rules: [rule('Stricter no var', 'custom/no-var')],
+          overrides: [{ files: ['b/**'], rules: {} }],
+        }
+      );
+
+      expect(merged.extends).toBeUndefined();
+      expect(merged.merge).toBe(false);
+      expect((merged.rules as any[]).map((r) => r.name)).toEqual([
+        'No eval',
+        'Stricter no var',
+      ]);
+      expect(merged.overrides?.map((o) => o.files[0])).toEqual([
+        'a/**',
+        'b/**',
+      ]);
+    });
+
+    it('replaces preset rules written in another format', () => {
+      const helper = new ConfigLoaderHelper(mockLogger);
+      const merged = helper.mergeConfigInputs(
+        { rules: [rule('No eval')] },
+        { rules: { 'content/no-var': 'error' } }
+      );
+
+      expect(merged.rules).toEqual({ 'content/no-var': 'error' });
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Rules of the extended config use a different format and are replaced'
+      );
+    });
+  });
+
   describe('checkConsoleLogLines edge', () => {
     it('omite archivos React Native', () => {
       const helper = new ConfigLoaderHelper(mockLogger);
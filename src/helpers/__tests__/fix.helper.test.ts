@@ -0,0 +1,59 @@
+import {
+  applyTextEdits,
+  createUnifiedDiff,
+  getLineOffsets,
+  removeLinesEdit,
+  replaceLineEdit,
+} from '../fix.helper';
+
+describe('fix.helper', () => {
+  const content = 'one\ntwo\nthree\n';
+
+  it('computes line offsets and line edits', () => {
+    expect(getLineOffsets(content)).toEqual([0, 4, 8, 14]);
+    expect(removeLinesEdit(content, 2)).toEqual({ start: 4, end: 8, text: '' });
+    expect(replaceLineEdit(content, 3, 'THREE')).toEqual({
+      start: 8,
+      end: 13,
+      text: 'THREE',
+    });
+  });
+
+  it('applies non-overlapping edits and skips overlapping ones', () => {
+    const result = applyTextEdits(content, [
+      replaceLineEdit(content, 3, 'THREE'),
+      { start: 0, end: 3, text: 'ONE' },
+      { start: 1, end: 5, text: 'x' },
+      { start: 0, end: 0, text: '// header\n' },
+    ]);
+    expect(result.content).toBe('// header\nONE\ntwo\nTHREE\n');
+    expect(result.applied).toHaveLength(3);
+    expect(result.skipped).toEqual([{ start: 1, end: 5, text: 'x' }]);
+  });
+
+  it('creates a unified diff with context lines', () => {
+    const before = 'abcdefghijk'.split('').join('\n') + '\n';
+    const after = before.replace('b', 'B').replace('k', 'k\nl');
+    expect(createUnifiedDiff(before, after, 'src/x.ts')).toBe(
+      [
+        '--- a/src/x.ts',
+        '+++ b/src/x.ts',
+        '@@ -1,5 +1,5 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        ' d',
+        ' e',
+        '@@ -9,4 +9,5 @@',
+        ' i',
+        ' j',
+        ' k',
+        '+l',
+        ' ',
+        '',
+      ].join('\n')
+    );
+    expect(createUnifiedDiff(before, before, 'src/x.ts')).toBe('');
+  });
+});
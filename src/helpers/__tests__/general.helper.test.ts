@@ -73,6 +73,17 @@ describe('async helpers', () => {
     );
   });
 
+  it('loadAndLogConfig carga la config en modo estricto con --strict-config', async () => {
+    const configLoader = { load: jest.fn().mockResolvedValue({}) };
+    const logger: any = { debug: jest.fn() };
+    await helpers.loadAndLogConfig(
+      configLoader,
+      { config: 'path', strictConfig: true },
+      logger
+    );
+    expect(configLoader.load).toHaveBeenCalledWith('path', { strict: true });
+  });
+
   it('analyzeProject retorna projectInfo y loguea', async () => {
     const projectInfo = {
       projectType: 'react',
@@ -260,7 +271,8 @@ describe('async helpers', () => {
     expect(reporter.generate).toHaveBeenCalledWith(
       expect.any(Object),
       projectInfo,
-      config
+      config,
+      { A: [], B: [] }
     );
   });
 });
@@ -350,6 +362,32 @@ describe('general.helper', () => {
     expect(result2.some((f) => f.path === 'e.js')).toBe(true);
   });
 
+  it('filterFileArguments selects files, directories and globs', () => {
+    const file = (filePath: string): any => ({ path: filePath });
+    const files = [
+      file('src/components/Button.tsx'),
+      file('src/features/cart/Cart.tsx'),
+      file('src/features/cart/cart.utils.ts'),
+      file('src/utils/math.ts'),
+    ];
+    const select = (fileArguments: string[]) =>
+      helpers
+        .filterFileArguments(files, fileArguments, '/root')
+        .map((f) => f.path);
+
+    expect(
+      select(['./src/components/Button.tsx', 'src/features/**/*.tsx'])
+    ).toEqual(['src/components/Button.tsx', 'src/features/cart/Cart.tsx']);
+    expect(select(['/root/src/features/', 'src/utils/math.ts'])).toEqual([
+      'src/features/cart/Cart.tsx',
+      'src/features/cart/cart.utils.ts',
+      'src/utils/math.ts',
+    ]);
+    // Paths are not matched by file name like ignore patterns
+    expect(select(['Button.tsx', 'src/util'])).toEqual([]);
+    expect(select(['.'])).toHaveLength(4);
+  });
+
   it('logSummary cubre zoneSummary y paths alternativos', () => {
     const logger: any = {
       info: jest.fn(),
@@ -414,6 +452,7 @@ describe('general.helper', () => {
       gitignorePatterns: [],
       scan: jest.fn(),
       getFilesInCommit: jest.fn(),
+      readStagedContent: jest.fn().mockResolvedValue(null),
       getAllFiles: jest.fn(),
       getAllFilesInDir: jest.fn(),
       getAllFilesInDirSync: jest.fn(),
@@ -557,4 +596,197 @@ describe('general.helper', () => {
       expect.stringContaining('Warnings found: 0')
     );
   });
+
+  it('processZone reuses cached results and caches new ones', async () => {
+    const logger: any = { info: jest.fn(), debug: jest.fn() };
+    const fileScanner: any = {
+      scanZone: jest.fn().mockResolvedValue([
+        { path: 'a.js', content: 'cached' },
+        { path: 'b.js', content: 'new' },
+      ]),
+    };
+    const ruleEngine: any = {
+      isConfigurationFile: () => false,
+      validate: jest.fn().mockResolvedValue([{ severity: 'warning' }]),
+    };
+    const cache: any = {
+      get: jest.fn((file: string) =>
+        file === 'a.js' ? [{ severity: 'error' }] : null
+      ),
+      set: jest.fn(),
+    };
+
+    const result = await helpers.processZone({
+      zone: '.',
+      config: {},
+      changedFiles: [],
+      hasOnlyZone: false,
+      options: { rootDir: '/root' },
+      rootDir: '/root',
+      logger,
+      fileScanner,
+      ruleEngine,
+      projectInfo: {
+        isMonorepo: false,
+        projectType: 'react',
+        zones: [],
+        rootPath: '/root',
+      },
+      cache,
+    });
+
+    expect(ruleEngine.validate).toHaveBeenCalledTimes(1);
+    expect(cache.set).toHaveBeenCalledWith('b.js', 'new', [
+      { severity: 'warning' },
+    ]);
+    expect(result.errorsCount).toBe(1);
+    expect(result.warningsCount).toBe(1);
+    expect(logger.info).toHaveBeenCalledWith('  ♻️  Results from cache: 1');
+  });
+
+  it('processZone only validates the files given as arguments', async () => {
+    const logger: any = { info: jest.fn(), debug: jest.fn() };
+    const fileScanner: any = {
+      scanZone: jest.fn().mockResolvedValue([
+        { path: 'src/a.ts', content: 'a' },
+        { path: 'src/b.ts', content: 'b' },
+      ]),
+    };
+    const ruleEngine: any = {
+      isConfigurationFile: () => false,
+      validate: jest.fn().mockResolvedValue([]),
+    };
+
+    const result = await helpers.processZone({
+      zone: '.',
+      config: { onlyChangedFiles: true },
+      changedFiles: ['/root/src/a.ts'],
+      hasOnlyZone: false,
+      options: { rootDir: '/root', files: ['src/b.ts'] },
+      rootDir: '/root',
+      logger,
+      fileScanner,
+      ruleEngine,
+      projectInfo: {
+        isMonorepo: false,
+        projectType: 'react',
+        zones: [],
+        rootPath: '/root',
+      },
+    });
+
+    expect(result.filesProcessed).toBe(1);
+    expect(ruleEngine.validate).toHaveBeenCalledTimes(1);
+    expect(ruleEngine.validate.mock.calls[0][1]).toBe('src/b.ts');
+  });
+
+  it('processZone validates the staged version of changed files', async () => {
+    const logger: any = { info: jest.fn(), debug: jest.fn() };
+    const fileScanner: any = {
+      scanZone: jest.fn().mockResolvedValue([
+        { path: 'src/a.ts', content: 'working tree' },
+        { path: 'src/b.ts', content: 'not staged' },
+        { path: 'src/c.ts', content: 'intent to add' },
+      ]),
+      readStagedContent: jest.fn((file: string) =>
+        Promise.resolve(file === 'src/a.ts' ? 'staged' : null)
+      ),
+    };
+    const ruleEngine: any = {
+      isConfigurationFile: () => false,
+      validate: jest.fn().mockResolvedValue([]),
+    };
+    const cache: any = { get: jest.fn(() => null), set: jest.fn() };
+    const stagedContents = new Map<string, string>();
+
+    await helpers.processZone({
+      zone: '.',
+      config: { onlyChangedFiles: true },
+      changedFiles: ['/root/src/a.ts', '/root/src/c.ts'],
+      hasOnlyZone: false,
+      options: { rootDir: '/root' },
+      rootDir: '/root',
+      logger,
+      fileScanner,
+      ruleEngine,
+      projectInfo: {
+        isMonorepo: false,
+        projectType: 'react',
+        zones: [],
+        rootPath: '/root',
+      },
+      cache,
+      stagedContents,
+    });
+
+    expect(fileScanner.readStagedContent).toHaveBeenCalledTimes(2);
+    expect(
+      ruleEngine.validate.mock.calls.map((call: any[]) => call.slice(0, 2))
+    ).toEqual([
+      ['staged', 'src/a.ts'],
+      ['intent to add', 'src/c.ts'],
+    ]);
+    expect(cache.get).toHaveBeenCalledWith('src/a.ts', 'staged');
+    expect([...stagedContents]).toEqual([['src/a.ts', 'staged']]);
+  });
+
+  it('processZone validates files through the worker pool in order', async () => {
+    const logger: any = { info: jest.fn(), debug: jest.fn() };
+    const fileScanner: any = {
+      scanZone: jest.fn().mockResolvedValue([
+        { path: 'slow.js', content: 'a' },
+        { path: 'broken.js', content: 'b' },
+      ]),
+    };
+    const ruleEngine: any = {
+      isConfigurationFile: () => false,
+      validate: jest.fn(),
+    };
+    const timeoutError = {
+      rule: 'File validation error',
+      filePath: 'broken.js',
+      severity: 'error',
+    };
+    const pool: any = {
+      validate: jest.fn((file: string) =>
+        file === 'slow.js'
+          ? new Promise((resolve) =>
+              setTimeout(() => resolve([{ filePath: file }]), 10)
+            )
+          : Promise.resolve([timeoutError])
+      ),
+    };
+    const cache: any = { get: jest.fn(() => null), set: jest.fn() };
+
+    const result = await helpers.processZone({
+      zone: '.',
+      config: {},
+      changedFiles: [],
+      hasOnlyZone: false,
+      options: { rootDir: '/root' },
+      rootDir: '/root',
+      logger,
+      fileScanner,
+      ruleEngine,
+      projectInfo: {
+        isMonorepo: false,
+        projectType: 'react',
+        zones: [],
+        rootPath: '/root',
+      },
+      cache,
+      pool,
+    });
+
+    expect(ruleEngine.validate).not.toHaveBeenCalled();
+    expect(result.errors.map((error) => error.filePath)).toEqual([
+      'slow.js',
+      'broken.js',
+    ]);
+    // Files that could not be validated are not cached
+    expect(cache.set).toHaveBeenCalledTimes(1);
+    expect(cache.set).toHaveBeenCalledWith('slow.js', 'a', [
+      { filePath: 'slow.js' },
+    ]);
+  });
 });
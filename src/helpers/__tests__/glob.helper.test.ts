@@ -0,0 +1,126 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  findGlobDirectories,
+  globToRegExp,
+  isGlobPattern,
+  matchesGlob,
+  matchesIgnoreGlob,
+  rebaseGlob,
+} from '../glob.helper';
+
+describe('glob.helper', () => {
+  it('converts glob patterns into regular expressions', () => {
+    expect(globToRegExp('src/legacy/**').test('src/legacy/a/b.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/a/b.ts')).toBe(false);
+    expect(globToRegExp('**/*.stories.tsx').test('Button.stories.tsx')).toBe(
+      true
+    );
+    expect(globToRegExp('file?.{ts,tsx}').test('file1.tsx')).toBe(true);
+    expect(globToRegExp('file?.{ts,tsx}').test('file1.js')).toBe(false);
+    expect(globToRegExp('a+b(c).ts').test('a+b(c).ts')).toBe(true);
+  });
+
+  it('matches paths relative to the project root', () => {
+    const patterns = ['**/*.stories.tsx', 'src/legacy/**'];
+
+    expect(matchesGlob('src/components/Button.stories.tsx', patterns)).toBe(
+      true
+    );
+    expect(matchesGlob('./src/legacy/old.ts', patterns)).toBe(true);
+    expect(matchesGlob('src\\legacy\\old.ts', patterns)).toBe(true);
+    expect(matchesGlob('src/components/Button.tsx', patterns)).toBe(false);
+  });
+
+  it('matches patterns without a slash against the file name', () => {
+    expect(matchesGlob('src/utils/math.test.ts', ['*.test.ts'])).toBe(true);
+    expect(matchesGlob('src/utils/math.ts', ['*.test.ts'])).toBe(false);
+  });
+
+  it('supports character classes', () => {
+    expect(globToRegExp('src/[ab].ts').test('src/a.ts')).toBe(true);
+    expect(globToRegExp('src/[ab].ts').test('src/c.ts')).toBe(false);
+    expect(globToRegExp('v[0-9].ts').test('v7.ts')).toBe(true);
+    expect(globToRegExp('[!a]*.ts').test('b.ts')).toBe(true);
+    expect(globToRegExp('[!a]*.ts').test('a.ts')).toBe(false);
+    expect(globToRegExp('a[!b]c').test('a/c')).toBe(false);
+    expect(() => globToRegExp('src/[ab.ts')).toThrow(
+      'Unterminated character class'
+    );
+  });
+
+  it('lets the last matching pattern win with negations', () => {
+    const patterns = ['src/**', '!src/keep/**'];
+    expect(matchesGlob('src/a.ts', patterns)).toBe(true);
+    expect(matchesGlob('src/keep/a.ts', patterns)).toBe(false);
+    expect(matchesGlob('src/keep/a.ts', [...patterns, '*.ts'])).toBe(true);
+  });
+
+  it('ignores paths whose directories match', () => {
+    expect(matchesIgnoreGlob('apps/web/dist/main.js', ['dist'])).toBe(true);
+    expect(matchesIgnoreGlob('src/distance.ts', ['dist'])).toBe(false);
+    expect(
+      matchesIgnoreGlob('src/__generated__/api.ts', ['**/__generated__/**'])
+    ).toBe(true);
+    expect(matchesIgnoreGlob('src/a.ts', [])).toBe(false);
+  });
+
+  it('finds the directories matching a glob', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fsc-glob-'));
+    try {
+      for (const sub of [
+        'apps/web/src',
+        'apps/admin/src',
+        'apps/docs',
+        'packages/ui/src/__generated__',
+        'node_modules/pkg/src/__generated__',
+      ]) {
+        fs.mkdirSync(path.join(dir, sub), { recursive: true });
+      }
+      fs.writeFileSync(path.join(dir, 'apps/file.ts'), '');
+
+      expect(findGlobDirectories(dir, 'apps/*/src')).toEqual([
+        'apps/admin/src',
+        'apps/web/src',
+      ]);
+      expect(findGlobDirectories(dir, 'apps/*')).toEqual([
+        'apps/admin',
+        'apps/docs',
+        'apps/web',
+      ]);
+      expect(findGlobDirectories(dir, '**/__generated__')).toEqual([
+        'packages/ui/src/__generated__',
+      ]);
+      expect(findGlobDirectories(dir, 'missing/*')).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('tells glob patterns from paths', () => {
+    expect(isGlobPattern('src/**/*.tsx')).toBe(true);
+    expect(isGlobPattern('src/file?.ts')).toBe(true);
+    expect(isGlobPattern('src/{a,b}.ts')).toBe(true);
+    expect(isGlobPattern('src/components/Button.tsx')).toBe(false);
+  });
+
+  it('makes patterns of a subdirectory relative to the project root', () => {
+    expect(rebaseGlob('src/legacy/**', 'apps/web')).toBe(
+      'apps/web/src/legacy/**'
+    );
+    expect(rebaseGlob('./src/*.ts', 'apps/web')).toBe('apps/web/src/*.ts');
+    expect(rebaseGlob('*.test.ts', 'apps/web')).toBe('*.test.ts');
+    expect(rebaseGlob('src/**', '')).toBe('src/**');
+  });
+
+  it('keeps negated patterns negated when rebasing them', () => {
+    expect(rebaseGlob('!**/*.test.ts', 'apps/web')).toBe(
+      '!apps/web/**/*.test.ts'
+    );
+    expect(rebaseGlob('!./src/legacy/**', 'apps/web')).toBe(
+      '!apps/web/src/legacy/**'
+    );
+    expect(rebaseGlob('!*.test.ts', 'apps/web')).toBe('!*.test.ts');
+  });
+});
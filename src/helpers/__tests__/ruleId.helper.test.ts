@@ -0,0 +1,48 @@
+import {
+  toRuleId,
+  matchesRule,
+  assignRuleIds,
+  findDuplicateRuleIds,
+} from '../ruleId.helper';
+import type { IValidationRule } from '../../types';
+
+const rule = (name: string, id?: string): IValidationRule => ({
+  name,
+  ...(id ? { id } : {}),
+  check: () => false,
+  message: 'm',
+});
+
+describe('ruleId.helper', () => {
+  it('converts rule names into id segments', () => {
+    expect(toRuleId('No console.log')).toBe('no-console-log');
+    expect(toRuleId('Avoid React.FC')).toBe('avoid-react-fc');
+  });
+
+  it('matches rules by id, display name and alias', () => {
+    const noVar = { ...rule('No var', 'content/no-var'), aliases: ['Var'] };
+    expect(matchesRule(noVar, 'content/no-var')).toBe(true);
+    expect(matchesRule(noVar, 'No var')).toBe(true);
+    expect(matchesRule(noVar, 'Var')).toBe(true);
+    expect(matchesRule(noVar, 'content/no-console-log')).toBe(false);
+  });
+
+  it('assigns custom ids only to rules without one', () => {
+    expect(
+      assignRuleIds([rule('No var', 'content/no-var'), rule('My Rule!')]).map(
+        (r) => r.id
+      )
+    ).toEqual(['content/no-var', 'custom/my-rule']);
+  });
+
+  it('finds duplicate ids', () => {
+    expect(
+      findDuplicateRuleIds([
+        rule('A', 'custom/a'),
+        rule('B', 'custom/b'),
+        rule('A again', 'custom/a'),
+        rule('No id'),
+      ])
+    ).toEqual(['custom/a']);
+  });
+});
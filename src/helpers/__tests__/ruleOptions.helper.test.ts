@@ -0,0 +1,49 @@
+import { resolveRuleOptions, validateRuleOptions } from '../ruleOptions.helper';
+import type { IRuleOptionsSchema } from '../../types';
+
+const schema: IRuleOptionsSchema = {
+  maxLines: { type: 'number', default: 200 },
+  countBlankLines: { type: 'boolean', default: true },
+  allowed: { type: 'string[]', default: [] },
+};
+
+describe('ruleOptions.helper', () => {
+  it('keeps options matching the schema', () => {
+    expect(
+      validateRuleOptions(schema, { maxLines: 300, allowed: ['a', 'b'] })
+    ).toEqual({
+      options: { maxLines: 300, allowed: ['a', 'b'] },
+      problems: [],
+    });
+  });
+
+  it('drops unknown options and values of the wrong type', () => {
+    expect(
+      validateRuleOptions(schema, {
+        maxLines: '300',
+        countBlankLines: false,
+        allowed: [1],
+        maxDepth: 2,
+      })
+    ).toEqual({
+      options: { countBlankLines: false },
+      problems: [
+        'option "maxLines" must be of type number',
+        'option "allowed" must be of type string[]',
+        'unknown option "maxDepth"',
+      ],
+    });
+    expect(validateRuleOptions(undefined, { maxLines: 1 }).problems).toEqual([
+      'unknown option "maxLines"',
+    ]);
+  });
+
+  it('merges configured values over the schema defaults', () => {
+    expect(resolveRuleOptions(schema, { maxLines: 300 })).toEqual({
+      maxLines: 300,
+      countBlankLines: true,
+      allowed: [],
+    });
+    expect(resolveRuleOptions(undefined, undefined)).toEqual({});
+  });
+});
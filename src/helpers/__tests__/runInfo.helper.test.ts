@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getToolVersion,
+  hashConfiguration,
+  hashRuleset,
+} from '../runInfo.helper';
+
+describe('runInfo.helper', () => {
+  it('hashes configurations independently of key order', () => {
+    const check = () => true;
+    const a = hashConfiguration({
+      extensions: ['.ts'],
+      rules: [{ name: 'r', message: 'm', check }],
+    });
+    const b = hashConfiguration({
+      rules: [{ message: 'm', name: 'r', check }],
+      extensions: ['.ts'],
+    });
+    expect(a).toBe(b);
+    expect(a).toHaveLength(16);
+  });
+
+  it('changes the hash when a rule implementation changes', () => {
+    const base = { name: 'r', message: 'm' };
+    expect(
+      hashConfiguration({ rules: [{ ...base, check: () => true }] })
+    ).not.toBe(hashConfiguration({ rules: [{ ...base, check: () => false }] }));
+  });
+
+  it('changes the hash when only some rules are selected', () => {
+    const config = { rules: [{ name: 'r', message: 'm', check: () => true }] };
+    expect(hashConfiguration(config, {})).toBe(hashConfiguration(config));
+    expect(hashConfiguration(config, { skipRules: ['r'] })).not.toBe(
+      hashConfiguration(config)
+    );
+  });
+
+  it('hashes the overrides, turned off rules and profile of each config', () => {
+    const rules = [{ name: 'r', message: 'm', check: () => true }];
+    const override = { files: ['src/**'], rules: [], disabledRules: ['r'] };
+    const hash = hashRuleset([{ rules }, { rules }]);
+
+    expect(hashRuleset([{ rules, extensions: ['.ts'] }, { rules }])).toBe(hash);
+    expect(hashRuleset([{ rules, overrides: [override] }, { rules }])).not.toBe(
+      hash
+    );
+    expect(hashRuleset([{ rules }, { rules, overrides: [override] }])).not.toBe(
+      hashRuleset([{ rules, overrides: [override] }, { rules }])
+    );
+    expect(hashRuleset([{ rules, disabledRules: ['r'] }, { rules }])).not.toBe(
+      hash
+    );
+    expect(hashRuleset([{ rules, profile: 'legacy' }, { rules }])).not.toBe(
+      hash
+    );
+  });
+
+  it('finds the checker version in the project node_modules', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fsc-version-'));
+    const originalArgv = process.argv;
+    try {
+      const pkgDir = path.join(
+        dir,
+        'node_modules',
+        'frontend-standards-checker'
+      );
+      fs.mkdirSync(pkgDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(pkgDir, 'package.json'),
+        JSON.stringify({ name: 'frontend-standards-checker', version: '9.9.9' })
+      );
+      process.argv = [originalArgv[0]!];
+      expect(getToolVersion(dir)).toBe('9.9.9');
+      expect(getToolVersion(path.join(dir, 'missing'))).toBe('unknown');
+    } finally {
+      process.argv = originalArgv;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
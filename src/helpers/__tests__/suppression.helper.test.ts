@@ -0,0 +1,164 @@
+import {
+  parseSuppressionDirectives,
+  buildSuppressionRanges,
+  applySuppressions,
+  UNUSED_SUPPRESSION_RULE,
+  UNKNOWN_SUPPRESSION_RULE,
+} from '../suppression.helper';
+import type { IValidationError } from '../../types';
+
+const makeError = (rule: string, line?: number): IValidationError => ({
+  rule,
+  message: `${rule} violation`,
+  filePath: 'src/file.ts',
+  ...(line !== undefined ? { line } : {}),
+  severity: 'error',
+  category: 'content',
+});
+
+const known = new Set(['No var', 'No console.log', 'Component size limit']);
+
+describe('parseSuppressionDirectives', () => {
+  it('parses every directive kind with rule lists and reasons', () => {
+    const content = [
+      '// standards-disable-next-line No var, No console.log',
+      'var a = 1;',
+      'var b = 2; // standards-disable-line No var -- legacy code',
+      '/* standards-disable */',
+      '/* standards-enable */',
+      '{/* standards-disable-file Component size limit */}',
+    ].join('\n');
+
+    expect(parseSuppressionDirectives(content)).toEqual([
+      {
+        kind: 'disable-next-line',
+        rules: ['No var', 'No console.log'],
+        line: 1,
+      },
+      { kind: 'disable-line', rules: ['No var'], line: 3 },
+      { kind: 'disable', rules: [], line: 4 },
+      { kind: 'enable', rules: [], line: 5 },
+      { kind: 'disable-file', rules: ['Component size limit'], line: 6 },
+    ]);
+  });
+
+  it('ignores text that only looks similar', () => {
+    expect(
+      parseSuppressionDirectives('const x = "standards-disabled";')
+    ).toEqual([]);
+  });
+});
+
+describe('buildSuppressionRanges', () => {
+  it('closes blocks on enable and leaves unterminated blocks open', () => {
+    const ranges = buildSuppressionRanges(
+      [
+        { kind: 'disable', rules: ['No var'], line: 2 },
+        { kind: 'enable', rules: [], line: 5 },
+        { kind: 'disable', rules: [], line: 8 },
+      ],
+      20
+    );
+    expect(ranges.map((r) => [r.rule, r.startLine, r.endLine])).toEqual([
+      ['No var', 2, 5],
+      [null, 8, 20],
+    ]);
+  });
+});
+
+describe('applySuppressions', () => {
+  it('returns errors untouched when there are no directives', () => {
+    const errors = [makeError('No var', 1)];
+    expect(applySuppressions(errors, 'var a;', 'src/file.ts', known)).toBe(
+      errors
+    );
+  });
+
+  it('suppresses next-line, same-line and block violations', () => {
+    const content = [
+      '// standards-disable-next-line No var',
+      'var a = 1;',
+      'console.log(a); // standards-disable-line',
+      '/* standards-disable No var */',
+      'var b = 2;',
+      '/* standards-enable No var */',
+      'var c = 3;',
+    ].join('\n');
+    const result = applySuppressions(
+      [
+        makeError('No var', 2),
+        makeError('No console.log', 3),
+        makeError('No var', 5),
+        makeError('No var', 7),
+      ],
+      content,
+      'src/file.ts',
+      known
+    );
+    expect(result).toEqual([makeError('No var', 7)]);
+  });
+
+  it('only silences line-less errors with disable-file', () => {
+    const content = '// standards-disable-next-line\nconst a = 1;';
+    const withLineDirective = applySuppressions(
+      [makeError('Component size limit')],
+      content,
+      'src/file.ts',
+      known
+    );
+    expect(withLineDirective.map((e) => e.rule)).toEqual([
+      'Component size limit',
+      UNUSED_SUPPRESSION_RULE,
+    ]);
+
+    const withFileDirective = applySuppressions(
+      [makeError('Component size limit')],
+      '/* standards-disable-file Component size limit */',
+      'src/file.ts',
+      known
+    );
+    expect(withFileDirective).toEqual([]);
+  });
+
+  it('reports unused and unknown directives', () => {
+    const content = [
+      '// standards-disable-next-line No var',
+      'const a = 1;',
+      '// standards-disable-next-line No such rule',
+      'const b = 2;',
+    ].join('\n');
+    const result = applySuppressions([], content, 'src/file.ts', known);
+    expect(result).toEqual([
+      expect.objectContaining({
+        rule: UNUSED_SUPPRESSION_RULE,
+        line: 1,
+        severity: 'warning',
+      }),
+      expect.objectContaining({
+        rule: UNKNOWN_SUPPRESSION_RULE,
+        line: 3,
+        severity: 'warning',
+      }),
+    ]);
+  });
+
+  it('matches directives by rule id and alias', () => {
+    const error = { ...makeError('No var', 2), ruleId: 'content/no-var' };
+    const byId = applySuppressions(
+      [error],
+      '// standards-disable-next-line content/no-var\nvar a = 1;',
+      'src/file.ts',
+      new Set(['content/no-var'])
+    );
+    expect(byId).toEqual([]);
+
+    const byAlias = applySuppressions(
+      [error],
+      '// standards-disable-next-line Var keyword\nvar a = 1;',
+      'src/file.ts',
+      new Set(['Var keyword']),
+      new Map([['Var keyword', 'content/no-var']])
+    );
+    expect(byAlias).toEqual([]);
+  });
+});
@@ -1,5 +1,24 @@
 import path from 'path';
-import { IValidationError } from '../types/index.js';
+import {
+  IRuleOptions,
+  IRuleOptionsSchema,
+  IValidationError,
+} from '../types/index.js';
+import { resolveRuleOptions } from './ruleOptions.helper.js';
+
+// Options of the "Missing comment in complex function" rule
+export const COMPLEX_FUNCTION_OPTIONS: IRuleOptionsSchema = {
+  minComplexityScore: {
+    type: 'number',
+    default: 3,
+    description: 'Complexity score from which a function needs a comment',
+  },
+  maxLines: {
+    type: 'number',
+    default: 8,
+    description: 'Lines a function may have without a comment',
+  },
+};
 
 export const isConfigOrConstantsFile = (filePath: string): boolean => {
   return /config|constants/i.test(filePath) && filePath.endsWith('.ts');
@@ -70,6 +89,7 @@ export function createNameMismatchError(
 ): IValidationError {
   return {
     rule: 'Component function name match',
+    ruleId: 'naming/component-function-name-match',
     message: `The function '${functionName}' (line ${lineNumber}) must have the same name as its containing folder '${dirName}'. ${
       dirName === dirName.toLowerCase()
         ? 'The folder must follow PascalCase and the function must have exactly the same name.'
@@ -88,6 +108,7 @@ export function createNoFunctionError(
 ): IValidationError {
   return {
     rule: 'Component function name match',
+    ruleId: 'naming/component-function-name-match',
     message: `No main exported function found in index.tsx. The folder '${dirName}' must contain a function with the same name.`,
     filePath: filePath,
     line: 1,
@@ -157,7 +178,8 @@ export function shouldSkipFunction(
 export function analyzeFunctionComplexity(
   lines: string[],
   startIndex: number,
-  content: string
+  content: string,
+  options: IRuleOptions = {}
 ) {
   let complexityScore = 0;
   let braceCount = 0;
@@ -191,7 +213,8 @@ export function analyzeFunctionComplexity(
   const isComplex = determineComplexity(
     complexityScore,
     linesInFunction,
-    functionContent
+    functionContent,
+    resolveRuleOptions(COMPLEX_FUNCTION_OPTIONS, options)
   );
 
   return { complexityScore, linesInFunction, isComplex };
@@ -226,12 +249,14 @@ function calculateLineComplexity(line: string): number {
 function determineComplexity(
   score: number,
   lines: number,
-  functionContent: string
+  functionContent: string,
+  options: IRuleOptions
 ): boolean {
+  const minScore = options['minComplexityScore'] as number;
   return (
-    score >= 3 ||
-    lines > 8 ||
-    (score >= 2 && /async|await|Promise/.test(functionContent))
+    score >= minScore ||
+    lines > (options['maxLines'] as number) ||
+    (score >= minScore - 1 && /async|await|Promise/.test(functionContent))
   );
 }
 
@@ -276,6 +301,7 @@ export function createCommentError(
 ): IValidationError {
   return {
     rule: 'Missing comment in complex function',
+    ruleId: 'documentation/missing-comment-in-complex-function',
     message: `Complex function '${functionName}' (complexity: ${analysis.complexityScore.toFixed(
       1
     )}, lines: ${
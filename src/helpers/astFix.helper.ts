@@ -0,0 +1,312 @@
+import path from 'path';
+import ts from 'typescript';
+import type { ITextEdit } from '../types/index.js';
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.js': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+};
+
+/**
+ * Parse a file without type checking it. Files without a known extension
+ * are parsed as TSX.
+ */
+export function parseSourceFile(
+  content: string,
+  filePath: string
+): ts.SourceFile {
+  const scriptKind = SCRIPT_KINDS[path.extname(filePath)] ?? ts.ScriptKind.TSX;
+  return ts.createSourceFile(
+    filePath || 'file.tsx',
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind
+  );
+}
+
+function forEachDescendant(
+  node: ts.Node,
+  visit: (child: ts.Node) => void
+): void {
+  ts.forEachChild(node, (child) => {
+    visit(child);
+    forEachDescendant(child, visit);
+  });
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind)
+  );
+}
+
+/**
+ * Whether a node is in a `declare` statement, where there is no code to fix
+ */
+function isAmbient(node: ts.Node): boolean {
+  for (let current: ts.Node = node; current; current = current.parent) {
+    if (hasModifier(current, ts.SyntaxKind.DeclareKeyword)) return true;
+  }
+  return node.getSourceFile().isDeclarationFile;
+}
+
+/**
+ * Identifiers that name a binding: variables, parameters, functions,
+ * classes, types and imports
+ */
+function isDeclarationName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isVariableDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isBindingElement(parent) ||
+      ts.isFunctionDeclaration(parent) ||
+      ts.isFunctionExpression(parent) ||
+      ts.isClassDeclaration(parent) ||
+      ts.isClassExpression(parent) ||
+      ts.isInterfaceDeclaration(parent) ||
+      ts.isTypeAliasDeclaration(parent) ||
+      ts.isEnumDeclaration(parent) ||
+      ts.isModuleDeclaration(parent) ||
+      ts.isTypeParameterDeclaration(parent) ||
+      ts.isImportClause(parent) ||
+      ts.isImportSpecifier(parent) ||
+      ts.isNamespaceImport(parent) ||
+      ts.isImportEqualsDeclaration(parent)) &&
+    parent.name === node
+  );
+}
+
+/**
+ * Identifiers that are not a reference to a binding, e.g. `a.Name`,
+ * `{ Name: 1 }` or `<div Name="" />`
+ */
+function isNonReferenceName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+    (ts.isQualifiedName(parent) && parent.right === node) ||
+    (ts.isPropertyAssignment(parent) && parent.name === node) ||
+    (ts.isPropertyDeclaration(parent) && parent.name === node) ||
+    (ts.isPropertySignature(parent) && parent.name === node) ||
+    (ts.isMethodDeclaration(parent) && parent.name === node) ||
+    (ts.isMethodSignature(parent) && parent.name === node) ||
+    (ts.isGetAccessorDeclaration(parent) && parent.name === node) ||
+    (ts.isSetAccessorDeclaration(parent) && parent.name === node) ||
+    (ts.isEnumMember(parent) && parent.name === node) ||
+    (ts.isBindingElement(parent) && parent.propertyName === node) ||
+    (ts.isJsxAttribute(parent) && parent.name === node) ||
+    ts.isLabeledStatement(parent) ||
+    ts.isBreakOrContinueStatement(parent)
+  );
+}
+
+/**
+ * Rename file-local interfaces to use the "I" prefix: the declarations and
+ * the type references to them. Interfaces that are exported, share their
+ * name with another declaration or whose new name is taken are left alone.
+ */
+export function renameInterfaceEdits(
+  content: string,
+  filePath: string
+): ITextEdit[] {
+  const sourceFile = parseSourceFile(content, filePath);
+  const identifiers: ts.Identifier[] = [];
+  const exportedNames = new Set<string>();
+  let hasModuleDeclaration = false;
+  forEachDescendant(sourceFile, (node) => {
+    if (ts.isIdentifier(node)) identifiers.push(node);
+    // Interfaces in `declare module` augment other files' types
+    if (ts.isModuleDeclaration(node)) hasModuleDeclaration = true;
+    if (ts.isExportSpecifier(node) || ts.isExportAssignment(node)) {
+      exportedNames.add(
+        (ts.isExportSpecifier(node)
+          ? node.propertyName ?? node.name
+          : node.expression
+        ).getText(sourceFile)
+      );
+    }
+  });
+  if (hasModuleDeclaration) return [];
+
+  const interfaces = identifiers.filter(
+    (node) =>
+      ts.isInterfaceDeclaration(node.parent) &&
+      node.parent.name === node &&
+      !hasModifier(node.parent, ts.SyntaxKind.ExportKeyword) &&
+      !/^I[A-Z][a-zA-Z0-9]*$/.test(node.text)
+  );
+  const names = new Set(interfaces.map((node) => node.text));
+  const edits: ITextEdit[] = [];
+
+  for (const name of names) {
+    const newName = `I${name}`;
+    const sameName = identifiers.filter((node) => node.text === name);
+    const hasOtherDeclaration = sameName.some(
+      (node) =>
+        isDeclarationName(node) && !ts.isInterfaceDeclaration(node.parent)
+    );
+    if (
+      exportedNames.has(name) ||
+      hasOtherDeclaration ||
+      identifiers.some((node) => node.text === newName)
+    ) {
+      continue;
+    }
+
+    for (const node of sameName) {
+      const parent = node.parent;
+      const isTypeReference =
+        (ts.isInterfaceDeclaration(parent) && parent.name === node) ||
+        (ts.isTypeReferenceNode(parent) && parent.typeName === node) ||
+        (ts.isExpressionWithTypeArguments(parent) &&
+          parent.expression === node &&
+          ts.isHeritageClause(parent.parent));
+      if (!isTypeReference) continue;
+      edits.push({
+        start: node.getStart(sourceFile),
+        end: node.getEnd(),
+        text: newName,
+      });
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Names bound by a declaration, including destructured ones
+ */
+function getBindingNames(name: ts.BindingName): ts.Identifier[] {
+  if (ts.isIdentifier(name)) return [name];
+  return name.elements.flatMap((element) =>
+    ts.isBindingElement(element) ? getBindingNames(element.name) : []
+  );
+}
+
+function isIterationStatement(node: ts.Node): boolean {
+  return (
+    ts.isForStatement(node) ||
+    ts.isForInStatement(node) ||
+    ts.isForOfStatement(node) ||
+    ts.isWhileStatement(node) ||
+    ts.isDoStatement(node)
+  );
+}
+
+function contains(outer: ts.Node, inner: ts.Node): boolean {
+  return inner.pos >= outer.pos && inner.end <= outer.end;
+}
+
+/**
+ * Block that a `let` in place of the declaration list would be scoped to,
+ * or undefined when `let` is not allowed there (e.g. `if (a) var b = 1;`)
+ */
+function getLetScope(list: ts.VariableDeclarationList): ts.Node | undefined {
+  const parent = list.parent;
+  if (
+    ts.isForStatement(parent) ||
+    ts.isForInStatement(parent) ||
+    ts.isForOfStatement(parent)
+  ) {
+    return parent;
+  }
+  if (!ts.isVariableStatement(parent)) return undefined;
+  const scope = parent.parent;
+  if (ts.isCaseClause(scope) || ts.isDefaultClause(scope)) {
+    return scope.parent;
+  }
+  return ts.isBlock(scope) || ts.isSourceFile(scope) || ts.isModuleBlock(scope)
+    ? scope
+    : undefined;
+}
+
+/**
+ * Whether replacing `var` with `let` keeps the behavior of a declaration:
+ * every use of its names is inside the new block scope and after the
+ * declaration, the names are declared once, and a declaration in a loop is
+ * neither captured by a function in the loop nor left uninitialized.
+ */
+function canUseLet(
+  list: ts.VariableDeclarationList,
+  identifiers: ts.Identifier[]
+): boolean {
+  const scope = getLetScope(list);
+  if (!scope) return false;
+
+  let loop: ts.Node | undefined;
+  for (
+    let node: ts.Node = list.parent;
+    !ts.isSourceFile(node);
+    node = node.parent
+  ) {
+    if (ts.isFunctionLike(node)) break;
+    if (isIterationStatement(node)) {
+      loop = node;
+      break;
+    }
+  }
+  const isLoopInitializer = loop !== undefined && list.parent === loop;
+  if (
+    loop &&
+    !isLoopInitializer &&
+    list.declarations.some((declaration) => !declaration.initializer)
+  ) {
+    return false;
+  }
+
+  return list.declarations.every((declaration) =>
+    getBindingNames(declaration.name).every((binding) =>
+      identifiers.every((node) => {
+        if (node === binding || node.text !== binding.text) return true;
+        if (isNonReferenceName(node)) return true;
+        if (isDeclarationName(node)) return false;
+        // let can not be used before its declaration, e.g. `var a = a || 1`
+        if (!contains(scope, node) || node.pos < declaration.end) {
+          return false;
+        }
+        if (!loop) return true;
+        // Each iteration gets its own binding with let, which closures notice
+        for (
+          let parent = node.parent;
+          parent !== loop;
+          parent = parent.parent
+        ) {
+          if (ts.isFunctionLike(parent)) return false;
+        }
+        return true;
+      })
+    )
+  );
+}
+
+/**
+ * Replace `var` with `let` where that doesn't change the behavior of the
+ * code. Other `var` declarations are left for a manual fix.
+ */
+export function varToLetEdits(content: string, filePath: string): ITextEdit[] {
+  const sourceFile = parseSourceFile(content, filePath);
+  const identifiers: ts.Identifier[] = [];
+  const varLists: ts.VariableDeclarationList[] = [];
+  forEachDescendant(sourceFile, (node) => {
+    if (ts.isIdentifier(node)) identifiers.push(node);
+    if (
+      ts.isVariableDeclarationList(node) &&
+      (node.flags & ts.NodeFlags.BlockScoped) === 0
+    ) {
+      varLists.push(node);
+    }
+  });
+
+  return varLists
+    .filter((list) => !isAmbient(list) && canUseLet(list, identifiers))
+    .map((list) => {
+      const start = list.getStart(sourceFile);
+      return { start, end: start + 'var'.length, text: 'let' };
+    });
+}
@@ -1,7 +1,50 @@
 import fs from 'fs';
 import path from 'path';
-import type { ILogger } from '../types/index.js';
-import { isReactNativeProject } from '../utils/file-scanner.js';
+import { load as loadYaml } from 'js-yaml';
+import type { ILogger, IStandardsConfigurationInput } from '../types/index.js';
+import { matchesRule } from './ruleId.helper.js';
+
+/**
+ * Configuration files in order of precedence. Each directory from the
+ * project root up to the filesystem root is searched for them in turn.
+ */
+export const CONFIG_FILE_NAMES = [
+  'checkFrontendStandards.config.mjs',
+  'checkFrontendStandards.config.js',
+  'checkFrontendStandards.config.cjs',
+  'checkFrontendStandards.config.ts',
+  'checkFrontendStandards.config.mts',
+  '.frontendstandardsrc.json',
+  '.frontendstandardsrc.yaml',
+  '.frontendstandardsrc.yml',
+  'package.json',
+];
+
+/**
+ * Names of tool configuration files, as regular expressions
+ */
+export const CONFIG_FILE_PATTERNS = [
+  '\\.config\\.(js|ts|mjs|cjs|json)$',
+  '^(jest|vite|webpack|tailwind|next|eslint|prettier|babel|rollup|tsconfig)\\.config\\.',
+  '^(vitest|nuxt|quasar)\\.config\\.',
+  '^tsconfig.*\\.json$',
+  '^\\.eslintrc',
+  '^\\.prettierrc',
+  '^\\.frontendstandardsrc',
+  '^babel\\.config',
+  '^postcss\\.config',
+  '^stylelint\\.config',
+  '^cypress\\.config',
+  '^playwright\\.config',
+  '^storybook\\.config',
+  '^metro\\.config',
+  '^expo\\.config',
+];
+
+/**
+ * Key of package.json holding the configuration
+ */
+export const PACKAGE_JSON_CONFIG_KEY = 'frontendStandards';
 
 /**
  * Helper functions for ConfigLoader
@@ -14,9 +57,24 @@ export class ConfigLoaderHelper {
   }
 
   /**
-   * Try to load config file using both ESM and CommonJS methods
+   * Load a config file. JSON, YAML and package.json are parsed, TypeScript
+   * is transpiled first, and JavaScript is loaded with import or require.
    */
   async tryLoadConfig(configPath: string): Promise<any> {
+    const fileName = path.basename(configPath);
+    if (fileName === 'package.json') {
+      return readPackageConfig(configPath);
+    }
+    if (fileName.endsWith('.json')) {
+      return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    }
+    if (/\.ya?ml$/.test(fileName)) {
+      return loadYaml(fs.readFileSync(configPath, 'utf8'));
+    }
+    if (/\.m?ts$/.test(fileName)) {
+      return this.loadTypeScriptConfig(configPath);
+    }
+
     let importError: any = null;
 
     // Try ESM dynamic import first
@@ -50,30 +108,120 @@ export class ConfigLoaderHelper {
   }
 
   /**
-   * Check if file is a config file
+   * Transpile a TypeScript config to an ES module next to it, so that its
+   * imports resolve from the same place, and import that
    */
-  isConfigFile(filePath: string): boolean {
-    const fileName = path.basename(filePath);
+  private async loadTypeScriptConfig(configPath: string): Promise<any> {
+    const source = fs.readFileSync(configPath, 'utf8');
+    const compiledPath = path.join(
+      path.dirname(configPath),
+      `.${path.basename(configPath)}.${process.pid}.mjs`
+    );
 
-    // Common configuration file patterns
-    const configPatterns = [
-      /\.config\.(js|ts|mjs|cjs|json)$/,
-      /^(jest|vite|webpack|tailwind|next|eslint|prettier|babel|rollup|tsconfig)\.config\./,
-      /^(vitest|nuxt|quasar)\.config\./,
-      /^tsconfig.*\.json$/,
-      /^\.eslintrc/,
-      /^\.prettierrc/,
-      /^babel\.config/,
-      /^postcss\.config/,
-      /^stylelint\.config/,
-      /^cypress\.config/,
-      /^playwright\.config/,
-      /^storybook\.config/,
-      /^metro\.config/,
-      /^expo\.config/,
-    ];
+    fs.writeFileSync(
+      compiledPath,
+      await this.transpileTypeScriptConfig(source, configPath)
+    );
+    try {
+      const configModule = await import(compiledPath);
+      return configModule?.default ?? configModule;
+    } finally {
+      fs.rmSync(compiledPath, { force: true });
+    }
+  }
+
+  /**
+   * Strip the types of a TypeScript config, without type checking it
+   */
+  async transpileTypeScriptConfig(
+    source: string,
+    fileName: string
+  ): Promise<string> {
+    const { default: ts } = await import('typescript');
+    return ts.transpileModule(source, {
+      fileName,
+      compilerOptions: {
+        module: ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2022,
+      },
+    }).outputText;
+  }
+
+  /**
+   * Merge a configuration over the preset it extends. The configuration
+   * wins for settings it defines; rules are merged by key (object format)
+   * or by ID (arrays), ignorePatterns, overrides and formatters accumulate.
+   */
+  mergeConfigInputs(
+    base: IStandardsConfigurationInput,
+    config: IStandardsConfigurationInput
+  ): IStandardsConfigurationInput {
+    const merged: IStandardsConfigurationInput = { ...base, ...config };
+    delete merged.extends;
+
+    const rules = this.mergeRules(base.rules, config.rules);
+    if (rules) merged.rules = rules;
+    if (base.zones || config.zones) {
+      merged.zones = { ...base.zones, ...config.zones };
+    }
+    if (base.ignorePatterns || config.ignorePatterns) {
+      merged.ignorePatterns = [
+        ...new Set([
+          ...(base.ignorePatterns ?? []),
+          ...(config.ignorePatterns ?? []),
+        ]),
+      ];
+    }
+    if (base.overrides || config.overrides) {
+      merged.overrides = [
+        ...(base.overrides ?? []),
+        ...(config.overrides ?? []),
+      ];
+    }
+    if (base.formatters || config.formatters) {
+      merged.formatters = [
+        ...(base.formatters ?? []),
+        ...(config.formatters ?? []),
+      ];
+    }
+
+    return merged;
+  }
+
+  private mergeRules(
+    base: IStandardsConfigurationInput['rules'],
+    rules: IStandardsConfigurationInput['rules']
+  ): IStandardsConfigurationInput['rules'] {
+    if (!base || !rules) return rules ?? base;
+
+    if (Array.isArray(base) && Array.isArray(rules)) {
+      return [
+        ...base.filter(
+          (baseRule) =>
+            !rules.some((rule) => matchesRule(baseRule, rule.id ?? rule.name))
+        ),
+        ...rules,
+      ];
+    }
+    if (!Array.isArray(base) && !Array.isArray(rules)) {
+      return { ...base, ...rules };
+    }
 
-    return configPatterns.some((pattern) => pattern.test(fileName));
+    this.logger.warn(
+      'Rules of the extended config use a different format and are replaced'
+    );
+    return rules;
+  }
+
+  /**
+   * Check if file is a config file
+   */
+  isConfigFile(
+    filePath: string,
+    patterns: string[] = CONFIG_FILE_PATTERNS
+  ): boolean {
+    const fileName = path.basename(filePath);
+    return patterns.some((pattern) => new RegExp(pattern).test(fileName));
   }
 
   /**
@@ -113,18 +261,7 @@ export class ConfigLoaderHelper {
       filePath.includes('__tests__');
 
     // Skip check for debug/test files in all projects
-    if (isDebugTestFile) {
-      return true;
-    }
-
-    // No additional checks needed for non-React Native projects
-    if (!isReactNativeProject(filePath)) {
-      return false;
-    }
-
-    // For React Native, we already checked debug/test files above
-    // So we just need to check if it's React Native to apply the rule
-    return false;
+    return isDebugTestFile;
   }
 
   // Removed unused hasConsoleInCode method
@@ -386,6 +523,18 @@ export class ConfigLoaderHelper {
   }
 }
 
+/**
+ * Configuration under the `frontendStandards` key of a package.json, if any
+ */
+export function readPackageConfig(packageJsonPath: string): unknown {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+    return pkg?.[PACKAGE_JSON_CONFIG_KEY];
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Lee el contenido de un archivo si existe.
  */
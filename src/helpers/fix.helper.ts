@@ -0,0 +1,202 @@
+import type { ITextEdit } from '../types/index.js';
+
+/**
+ * Character offset where each line starts (index 0 is line 1)
+ */
+export function getLineOffsets(content: string): number[] {
+  const offsets = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') offsets.push(i + 1);
+  }
+  return offsets;
+}
+
+/**
+ * Edit that removes whole lines (1-based, inclusive) including the line break
+ */
+export function removeLinesEdit(
+  content: string,
+  startLine: number,
+  endLine: number = startLine
+): ITextEdit {
+  const offsets = getLineOffsets(content);
+  const start = offsets[startLine - 1] ?? content.length;
+  const end = offsets[endLine] ?? content.length;
+  return { start, end, text: '' };
+}
+
+/**
+ * Edit that replaces the text of a line (1-based), keeping its line break
+ */
+export function replaceLineEdit(
+  content: string,
+  line: number,
+  text: string
+): ITextEdit {
+  const offsets = getLineOffsets(content);
+  const start = offsets[line - 1] ?? content.length;
+  const nextStart = offsets[line];
+  const end = nextStart === undefined ? content.length : nextStart - 1;
+  return { start, end, text };
+}
+
+/**
+ * Apply edits from last to first. Edits overlapping an already accepted edit
+ * are skipped and can be retried on the next pass.
+ */
+export function applyTextEdits(
+  content: string,
+  edits: ITextEdit[]
+): { content: string; applied: ITextEdit[]; skipped: ITextEdit[] } {
+  const sorted = [...edits]
+    .filter((edit) => edit.start >= 0 && edit.end <= content.length)
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const applied: ITextEdit[] = [];
+  const skipped: ITextEdit[] = [];
+  let lastEnd = 0;
+  for (const edit of sorted) {
+    if (edit.start < lastEnd) {
+      skipped.push(edit);
+      continue;
+    }
+    applied.push(edit);
+    lastEnd = Math.max(lastEnd, edit.end);
+  }
+
+  let result = content;
+  for (let i = applied.length - 1; i >= 0; i--) {
+    const edit = applied[i]!;
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  return { content: result, applied, skipped };
+}
+
+type IDiffOp = { type: ' ' | '-' | '+'; text: string };
+
+// Above this many line comparisons the changed region is shown as one block
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffLines(oldLines: string[], newLines: string[]): IDiffOp[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const ops: IDiffOp[] = oldLines
+    .slice(0, prefix)
+    .map((text) => ({ type: ' ', text }));
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    ops.push(...a.map((text) => ({ type: '-' as const, text })));
+    ops.push(...b.map((text) => ({ type: '+' as const, text })));
+  } else {
+    // Longest common subsequence table, filled from the end
+    const width = b.length + 1;
+    const table = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        table[i * width + j] =
+          a[i] === b[j]
+            ? table[(i + 1) * width + j + 1]! + 1
+            : Math.max(table[(i + 1) * width + j]!, table[i * width + j + 1]!);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        ops.push({ type: ' ', text: a[i]! });
+        i++;
+        j++;
+      } else if (
+        i < a.length &&
+        (j >= b.length ||
+          table[(i + 1) * width + j]! >= table[i * width + j + 1]!)
+      ) {
+        ops.push({ type: '-', text: a[i]! });
+        i++;
+      } else {
+        ops.push({ type: '+', text: b[j]! });
+        j++;
+      }
+    }
+  }
+
+  ops.push(
+    ...oldLines
+      .slice(oldLines.length - suffix)
+      .map((text) => ({ type: ' ' as const, text }))
+  );
+  return ops;
+}
+
+/**
+ * Unified diff (like `diff -u`) between two versions of a file.
+ * Returns an empty string when there are no changes.
+ */
+export function createUnifiedDiff(
+  oldContent: string,
+  newContent: string,
+  filePath: string,
+  context = 3
+): string {
+  if (oldContent === newContent) return '';
+
+  const ops = diffLines(oldContent.split('\n'), newContent.split('\n'));
+  const lines = [`--- a/${filePath}`, `+++ b/${filePath}`];
+
+  let index = 0;
+  while (index < ops.length) {
+    // Find the next change
+    while (index < ops.length && ops[index]!.type === ' ') index++;
+    if (index >= ops.length) break;
+
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+    // Extend while changes are within 2 * context lines of each other
+    let lastChange = index;
+    while (hunkEnd < ops.length) {
+      if (ops[hunkEnd]!.type !== ' ') lastChange = hunkEnd;
+      else if (hunkEnd - lastChange > context * 2) break;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < hunkStart; k++) {
+      if (ops[k]!.type !== '+') oldLine++;
+      if (ops[k]!.type !== '-') newLine++;
+    }
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    lines.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${
+        newCount === 0 ? newLine - 1 : newLine
+      },${newCount} @@`
+    );
+    hunk.forEach((op) => lines.push(`${op.type}${op.text}`));
+    index = hunkEnd;
+  }
+
+  return lines.join('\n') + '\n';
+}
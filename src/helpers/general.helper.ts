@@ -1,3 +1,4 @@
+import fs from 'fs';
 import path from 'path';
 import type {
   IValidationError,
@@ -6,7 +7,10 @@ import type {
   IStandardsConfiguration,
   IProjectInfo,
   IProcessZoneOptions,
+  IFileInfo,
 } from '../types/index.js';
+import { createUnifiedDiff } from './fix.helper.js';
+import { globToRegExp, isGlobPattern } from './glob.helper.js';
 
 import type { IReportGenerationResult } from '../types/reporter.type.js';
 
@@ -23,12 +27,31 @@ function isJestFile(filePath: string | undefined | null): boolean {
   );
 }
 
+/**
+ * Count errors and warnings, excluding Jest files
+ */
+export function countSeverities(errors: IValidationError[]): {
+  errorsCount: number;
+  warningsCount: number;
+} {
+  let errorsCount = 0;
+  let warningsCount = 0;
+  for (const error of errors) {
+    if (isJestFile(error.filePath)) continue;
+    if (error.severity === 'error') errorsCount++;
+    else if (error.severity === 'warning') warningsCount++;
+  }
+  return { errorsCount, warningsCount };
+}
+
 export async function loadAndLogConfig(
   configLoader: any,
   options: any,
   logger: Logger
 ): Promise<IStandardsConfiguration> {
-  const config = await configLoader.load(options.config);
+  const config = await configLoader.load(options.config, {
+    strict: options.strictConfig ?? false,
+  });
   if (options.debug) {
     logger.debug('Configuration loaded:', JSON.stringify(config, null, 2));
   }
@@ -115,8 +138,10 @@ export async function generateReport(
   config: IStandardsConfiguration
 ): Promise<IReportGenerationResult> {
   const zoneErrors: Record<string, IValidationError[]> = {};
+  const zoneFiles: Record<string, string[]> = {};
   zoneResults.forEach((zone) => {
     zoneErrors[zone.zone] = zone.errors;
+    zoneFiles[zone.zone] = zone.files ?? [];
     logger.debug(
       `🐛 Zone ${zone.zone}: ${zone.errors.length} errors before reporter`
     );
@@ -130,7 +155,7 @@ export async function generateReport(
     `🐛 Total errors being passed to reporter: ${totalErrorsToReporter}`
   );
 
-  return await reporter.generate(zoneErrors, projectInfo, config);
+  return await reporter.generate(zoneErrors, projectInfo, config, zoneFiles);
 }
 
 export interface ZoneSummary {
@@ -185,6 +210,100 @@ export function filterChangedFiles(
   });
 }
 
+/**
+ * Files selected by the path arguments of `check`: files, directories or
+ * globs, relative to the project root or absolute
+ */
+export function filterFileArguments(
+  files: IFileInfo[],
+  fileArguments: string[],
+  rootDir: string
+): IFileInfo[] {
+  const patterns = fileArguments.map((argument) =>
+    (path.isAbsolute(argument) ? path.relative(rootDir, argument) : argument)
+      .replace(/\\/g, '/')
+      .replace(/^\.\/?/, '')
+      .replace(/\/$/, '')
+  );
+  return files.filter((file) => {
+    const filePath = file.path.replace(/\\/g, '/');
+    return patterns.some((pattern) =>
+      isGlobPattern(pattern)
+        ? globToRegExp(pattern).test(filePath)
+        : pattern === '' ||
+          filePath === pattern ||
+          filePath.startsWith(`${pattern}/`)
+    );
+  });
+}
+
+/**
+ * Apply auto-fixes to the zone files before validation. In dry-run mode the
+ * changes are printed as a unified diff instead of written.
+ * @returns Number of files with changes
+ */
+async function fixZoneFiles(
+  files: IFileInfo[],
+  {
+    options,
+    rootDir,
+    logger,
+    ruleEngine,
+  }: Pick<IProcessZoneOptions, 'options' | 'rootDir' | 'logger' | 'ruleEngine'>
+): Promise<number> {
+  // Keep stdout clean when a report is streamed there
+  const diffStream = options.output === '-' ? process.stderr : process.stdout;
+  let changedCount = 0;
+
+  for (const file of files) {
+    const result = await ruleEngine.fixFile(file.path, file.content);
+    if (!result.changed) continue;
+    changedCount++;
+
+    if (options.fixDryRun) {
+      diffStream.write(
+        createUnifiedDiff(
+          result.originalContent,
+          result.fixedContent,
+          file.path.split(path.sep).join('/')
+        )
+      );
+      continue;
+    }
+
+    fs.writeFileSync(
+      file.fullPath ?? path.join(rootDir, file.path),
+      result.fixedContent,
+      'utf8'
+    );
+    file.content = result.fixedContent;
+    if (options.verbose) {
+      logger.info(
+        `  🔧 Fixed ${file.path} (${result.appliedRules.join(', ')})`
+      );
+    }
+  }
+
+  return changedCount;
+}
+
+/**
+ * Replace the content of files with their staged version from the git index
+ */
+async function readStagedFiles(
+  files: IFileInfo[],
+  fileScanner: IProcessZoneOptions['fileScanner'],
+  stagedContents?: Map<string, string>
+): Promise<void> {
+  for (const file of files) {
+    const stagedContent = await fileScanner.readStagedContent(file.path);
+    if (stagedContent !== null) {
+      file.content = stagedContent;
+      stagedContents?.set(file.path, stagedContent);
+    }
+  }
+}
+
 export async function processZone({
   zone,
   config,
@@ -196,24 +315,32 @@ export async function processZone({
   fileScanner,
   ruleEngine,
   projectInfo,
+  cache = null,
+  pool = null,
+  stagedContents,
 }: IProcessZoneOptions): Promise<IZoneResult> {
   logger.info(`\n📂 Processing zone: ${zone}`);
 
   let files = await fileScanner.scanZone(zone, {
     extensions: config.extensions || ['.js', '.ts', '.jsx', '.tsx'],
     ignorePatterns: config.ignorePatterns || [],
+    excludePatterns: config.zones?.excludePatterns || [],
     zones: [zone],
     includePackages: config.zones?.includePackages || false,
     customZones: config.zones?.customZones || [],
   });
 
-  if (
+  let isStagedCheck = false;
+  if (options.files?.length) {
+    files = filterFileArguments(files, options.files, rootDir);
+  } else if (
     (options.onlyChangedFiles || config.onlyChangedFiles) &&
     !hasOnlyZone &&
     changedFiles.length > 0
   ) {
     const originalCount = files.length;
     files = filterChangedFiles(files, changedFiles, rootDir);
+    isStagedCheck = true;
     logger.debug(
       `Filtered ${originalCount} files to ${files.length} changed files in zone ${zone}`
     );
@@ -236,30 +363,70 @@ export async function processZone({
     return !isConfigFile;
   });
 
-  for (const file of validFiles) {
+  if (options.fix || options.fixDryRun) {
+    const fixedCount = await fixZoneFiles(validFiles, {
+      options,
+      rootDir,
+      logger,
+      ruleEngine,
+    });
+    logger.info(
+      options.fixDryRun
+        ? `  🔧 Files with fixes available: ${fixedCount}`
+        : `  🔧 Files fixed: ${fixedCount}`
+    );
+  }
+
+  // Fixes go to the working tree, but what gets committed is the staged
+  // version, which differs from it when only part of a file is staged
+  if (isStagedCheck) {
+    await readStagedFiles(validFiles, fileScanner, stagedContents);
+  }
+
+  let cachedCount = 0;
+  const validateZoneFile = async (file: IFileInfo) => {
     if (options.verbose) {
       logger.info(`  🔍 Validating: ${file.path}`);
     }
 
-    const fileErrors = await ruleEngine.validate(file.content, file.path, {
-      filePath: file.path,
-      content: file.content,
-      projectInfo,
-      config,
-    });
+    const cachedErrors = cache?.get(file.path, file.content) ?? null;
+    if (cachedErrors) {
+      cachedCount++;
+      return cachedErrors;
+    }
 
-    zoneErrors.push(...fileErrors);
+    const fileErrors = pool
+      ? await pool.validate(file.path, zone, file.content)
+      : await ruleEngine.validate(file.content, file.path, {
+          filePath: file.path,
+          content: file.content,
+          projectInfo,
+          config,
+        });
+    // Files that could not be validated are retried on the next run
+    if (!fileErrors.some((error) => error.rule === 'File validation error')) {
+      cache?.set(file.path, file.content, fileErrors);
+    }
+    return fileErrors;
+  };
+
+  if (pool) {
+    const results = await Promise.all(validFiles.map(validateZoneFile));
+    results.forEach((fileErrors) => zoneErrors.push(...fileErrors));
+  } else {
+    for (const file of validFiles) {
+      zoneErrors.push(...(await validateZoneFile(file)));
+    }
   }
 
   // Exclude Jest files from error counts
-  const zoneErrorsCount = zoneErrors.filter(
-    (e) => e.severity === 'error' && !isJestFile(e.filePath)
-  ).length;
-  const zoneWarningsCount = zoneErrors.filter(
-    (e) => e.severity === 'warning' && !isJestFile(e.filePath)
-  ).length;
+  const { errorsCount: zoneErrorsCount, warningsCount: zoneWarningsCount } =
+    countSeverities(zoneErrors);
 
   logger.info(`  ✅ Files processed: ${files.length}`);
+  if (cache) {
+    logger.info(`  ♻️  Results from cache: ${cachedCount}`);
+  }
   logger.info(`  ❌ Errors found: ${zoneErrorsCount}`);
   logger.info(`  ⚠️  Warnings found: ${zoneWarningsCount}`);
 
@@ -269,5 +436,8 @@ export async function processZone({
     errors: zoneErrors,
     errorsCount: zoneErrorsCount,
     warningsCount: zoneWarningsCount,
+    files: validFiles.map(
+      (file) => file.fullPath ?? path.join(rootDir, file.path)
+    ),
   };
 }
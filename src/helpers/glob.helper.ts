@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+
+// Never searched for directories matching `**`
+const SKIPPED_DIRECTORIES = ['node_modules', '.git'];
+
+/**
+ * Convert a glob pattern into a regular expression matching whole paths.
+ * Supports `**`, `*`, `?`, `[a-z]` / `[!a-z]` classes and `{a,b}`
+ * alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === '[') {
+      const negated = pattern[i + 1] === '!' || pattern[i + 1] === '^';
+      const start = negated ? i + 2 : i + 1;
+      // "]" right after the opening bracket is part of the class
+      const end = pattern.indexOf(']', start + 1);
+      if (end === -1) {
+        throw new Error(
+          `Unterminated character class in glob pattern "${pattern}"`
+        );
+      }
+      const members = pattern.slice(start, end).replace(/[\\\]^]/g, '\\$&');
+      source += negated ? `[^/${members}]` : `[${members}]`;
+      i = end;
+    } else if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches no directory at all
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a path argument is a glob pattern rather than a file or directory
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+/**
+ * Whether a path relative to the project root matches the patterns.
+ * Patterns without a slash match the file name in any directory, and
+ * `!` patterns exclude paths again; the last matching pattern wins.
+ */
+export function matchesGlob(relativePath: string, patterns: string[]): boolean {
+  const normalizedPath = relativePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  let matched = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    const normalizedPattern = (negated ? pattern.slice(1) : pattern).replace(
+      /^\.\//,
+      ''
+    );
+    const target = normalizedPattern.includes('/')
+      ? normalizedPath
+      : path.posix.basename(normalizedPath);
+    if (globToRegExp(normalizedPattern).test(target)) matched = !negated;
+  }
+  return matched;
+}
+
+/**
+ * Whether ignore patterns exclude a path: the path or one of its parent
+ * directories matches them
+ */
+export function matchesIgnoreGlob(
+  relativePath: string,
+  patterns: string[]
+): boolean {
+  const segments = relativePath
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .split('/')
+    .filter(Boolean);
+  return segments.some((_, index) =>
+    matchesGlob(segments.slice(0, index + 1).join('/'), patterns)
+  );
+}
+
+/**
+ * Directories under the root matching a glob such as `packages/*`, as
+ * paths relative to the root
+ */
+export function findGlobDirectories(
+  rootDir: string,
+  pattern: string
+): string[] {
+  const segments = pattern
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .split('/')
+    .filter(Boolean);
+  let matches = [''];
+
+  for (const segment of segments) {
+    const next = new Set<string>();
+    for (const dir of matches) {
+      if (segment === '**') {
+        next.add(dir);
+        listDirectories(rootDir, dir, true).forEach((sub) => next.add(sub));
+      } else {
+        const regExp = globToRegExp(segment);
+        listDirectories(rootDir, dir, false)
+          .filter((sub) => regExp.test(path.posix.basename(sub)))
+          .forEach((sub) => next.add(sub));
+      }
+    }
+    matches = [...next];
+  }
+  return matches.filter(Boolean).sort();
+}
+
+function listDirectories(
+  rootDir: string,
+  dir: string,
+  recursive: boolean
+): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(rootDir, dir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries
+    .filter(
+      (entry) =>
+        entry.isDirectory() &&
+        !(recursive && SKIPPED_DIRECTORIES.includes(entry.name))
+    )
+    .flatMap((entry) => {
+      const sub = dir ? `${dir}/${entry.name}` : entry.name;
+      return recursive ? [sub, ...listDirectories(rootDir, sub, true)] : [sub];
+    });
+}
+
+/**
+ * Turn a pattern relative to a project subdirectory into one relative to
+ * the project root. Patterns without a slash match file names anywhere and
+ * are kept as they are; negated patterns stay negated.
+ */
+export function rebaseGlob(pattern: string, baseDir: string): string {
+  const negated = pattern.startsWith('!');
+  const normalizedPattern = (negated ? pattern.slice(1) : pattern).replace(
+    /^\.\//,
+    ''
+  );
+  const normalizedDir = baseDir.replace(/\\/g, '/');
+  if (!normalizedPattern.includes('/') || normalizedDir === '') {
+    return pattern;
+  }
+  return `${negated ? '!' : ''}${path.posix.join(
+    normalizedDir,
+    normalizedPattern
+  )}`;
+}
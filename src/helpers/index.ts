@@ -2,3 +2,10 @@ export * from './additionalValidators.helper.js';
 export * from './configLoader.helper.js';
 export * from './general.helper.js';
 export * from './reporter.helper.js';
+export * from './suppression.helper.js';
+export * from './runInfo.helper.js';
+export * from './fix.helper.js';
+export * from './astFix.helper.js';
+export * from './ruleId.helper.js';
+export * from './ruleOptions.helper.js';
+export * from './glob.helper.js';
@@ -0,0 +1,50 @@
+import type { IValidationRule } from '../types/index.js';
+
+/**
+ * Convert a rule name into an ID segment ("No console.log" -> "no-console-log")
+ */
+export function toRuleId(ruleName: string): string {
+  return ruleName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+}
+
+/**
+ * Whether a reference (ID, display name or alias) designates the rule.
+ * Display names and aliases are deprecated ways to reference a rule.
+ */
+export function matchesRule(
+  rule: Pick<IValidationRule, 'id' | 'name' | 'aliases'>,
+  reference: string
+): boolean {
+  return (
+    rule.id === reference ||
+    rule.name === reference ||
+    (rule.aliases ?? []).includes(reference)
+  );
+}
+
+/**
+ * Give rules without an ID one in the `custom/` namespace, derived from the
+ * display name
+ */
+export function assignRuleIds(rules: IValidationRule[]): IValidationRule[] {
+  return rules.map((rule) =>
+    rule.id ? rule : { ...rule, id: `custom/${toRuleId(rule.name)}` }
+  );
+}
+
+/**
+ * IDs used by more than one rule
+ */
+export function findDuplicateRuleIds(rules: IValidationRule[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const rule of rules) {
+    if (!rule.id) continue;
+    if (seen.has(rule.id)) duplicates.add(rule.id);
+    seen.add(rule.id);
+  }
+  return [...duplicates];
+}
@@ -0,0 +1,59 @@
+import type {
+  IRuleOptionType,
+  IRuleOptionValue,
+  IRuleOptions,
+  IRuleOptionsSchema,
+  IRuleOptionsValidation,
+} from '../types/index.js';
+
+function hasOptionType(value: unknown, type: IRuleOptionType): boolean {
+  if (type === 'string[]') {
+    return (
+      Array.isArray(value) && value.every((item) => typeof item === 'string')
+    );
+  }
+  if (type === 'number') {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+  return typeof value === type;
+}
+
+/**
+ * Check configured option values against a rule's options schema.
+ * Unknown options and values of the wrong type are reported and dropped.
+ */
+export function validateRuleOptions(
+  schema: IRuleOptionsSchema | undefined,
+  options: Record<string, unknown>
+): IRuleOptionsValidation {
+  const valid: IRuleOptions = {};
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(options)) {
+    const definition = schema?.[key];
+    if (!definition) {
+      problems.push(`unknown option "${key}"`);
+    } else if (!hasOptionType(value, definition.type)) {
+      problems.push(`option "${key}" must be of type ${definition.type}`);
+    } else {
+      valid[key] = value as IRuleOptionValue;
+    }
+  }
+
+  return { options: valid, problems };
+}
+
+/**
+ * Options passed to a rule's check: schema defaults overridden by the
+ * configured values
+ */
+export function resolveRuleOptions(
+  schema?: IRuleOptionsSchema,
+  options: IRuleOptions = {}
+): IRuleOptions {
+  const defaults: IRuleOptions = {};
+  for (const [key, definition] of Object.entries(schema ?? {})) {
+    defaults[key] = definition.default;
+  }
+  return { ...defaults, ...options };
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type {
+  IRuleSelection,
+  IStandardsConfiguration,
+} from '../types/index.js';
+
+const PACKAGE_NAME = 'frontend-standards-checker';
+
+function readToolVersion(packageJsonPath: string): string | null {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+    return pkg.name === PACKAGE_NAME && typeof pkg.version === 'string'
+      ? pkg.version
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Directory of our own package. Looks above the executed script
+ * (dist/bin/cli.js or bin/cli.ts), then in the project's node_modules.
+ */
+export function findPackageRoot(
+  rootDir: string = process.cwd()
+): string | null {
+  const candidates: string[] = [];
+
+  if (process.argv[1]) {
+    let dir = path.dirname(path.resolve(process.argv[1]));
+    for (let i = 0; i < 4; i++) {
+      candidates.push(dir);
+      dir = path.dirname(dir);
+    }
+  }
+  candidates.push(path.join(rootDir, 'node_modules', PACKAGE_NAME), rootDir);
+
+  return (
+    candidates.find((candidate) =>
+      readToolVersion(path.join(candidate, 'package.json'))
+    ) ?? null
+  );
+}
+
+/**
+ * Version of the running checker
+ */
+export function getToolVersion(rootDir: string = process.cwd()): string {
+  const packageRoot = findPackageRoot(rootDir);
+  return (
+    (packageRoot && readToolVersion(path.join(packageRoot, 'package.json'))) ||
+    'unknown'
+  );
+}
+
+/**
+ * Stable JSON serialization: sorted keys, functions serialized by source
+ */
+function stableSerialize(value: unknown): string {
+  if (typeof value === 'function') return JSON.stringify(value.toString());
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableSerialize(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableSerialize(
+            (value as Record<string, unknown>)[key]
+          )}`
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Short hash of the effective configuration, including rule implementations
+ * and the rules selected for the run, so two runs can be compared for
+ * "same config"
+ */
+export function hashConfiguration(
+  config: IStandardsConfiguration,
+  selection: IRuleSelection = {}
+): string {
+  const hashed =
+    Object.keys(selection).length > 0 ? { config, selection } : config;
+  return hashValue(hashed);
+}
+
+/**
+ * Short hash of what decides the violations of a file: the profile, rules,
+ * overrides and turned off rules of each configuration (the root one and
+ * those of zones), and the rules selected for the run
+ */
+export function hashRuleset(
+  configs: IStandardsConfiguration[],
+  selection: IRuleSelection = {}
+): string {
+  const rulesets = configs.map(
+    ({ profile, rules, overrides, disabledRules }) => ({
+      profile,
+      rules,
+      overrides,
+      disabledRules,
+    })
+  );
+  return hashValue({ rulesets, selection });
+}
+
+function hashValue(value: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(stableSerialize(value))
+    .digest('hex')
+    .slice(0, 16);
+}
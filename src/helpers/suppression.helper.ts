@@ -0,0 +1,232 @@
+import type {
+  ISuppressionDirective,
+  ISuppressionKind,
+  ISuppressionRange,
+  IValidationError,
+} from '../types/index.js';
+
+const DIRECTIVE_REGEX =
+  /(?:\/\/|\/\*)\s*standards-(disable-next-line|disable-line|disable-file|disable|enable)(?=\s|\*\/|$)(.*?)(?:\*\/|$)/g;
+
+export const UNUSED_SUPPRESSION_RULE = 'Unused suppression directive';
+export const UNKNOWN_SUPPRESSION_RULE = 'Unknown rule in suppression directive';
+export const UNUSED_SUPPRESSION_RULE_ID =
+  'content/unused-suppression-directive';
+export const UNKNOWN_SUPPRESSION_RULE_ID =
+  'content/unknown-rule-in-suppression-directive';
+
+/**
+ * Parse the rule list of a directive: comma separated names, optionally
+ * followed by a "-- reason" description that is ignored.
+ */
+function parseDirectiveRules(rawRules: string): string[] {
+  const [rulesPart = ''] = rawRules.split(/(?:^|\s)--(?:\s|$)/);
+  return rulesPart
+    .split(',')
+    .map((rule) => rule.trim())
+    .filter((rule) => rule.length > 0);
+}
+
+/**
+ * Find every standards-disable / standards-enable directive in a file
+ */
+export function parseSuppressionDirectives(
+  content: string
+): ISuppressionDirective[] {
+  const directives: ISuppressionDirective[] = [];
+  const lines = content.split('\n');
+
+  lines.forEach((line, idx) => {
+    if (!line.includes('standards-')) return;
+
+    DIRECTIVE_REGEX.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = DIRECTIVE_REGEX.exec(line)) !== null) {
+      directives.push({
+        kind: match[1] as ISuppressionKind,
+        rules: parseDirectiveRules(match[2] ?? ''),
+        line: idx + 1,
+      });
+    }
+  });
+
+  return directives;
+}
+
+/**
+ * Turn directives into line ranges. A rule-less directive produces a single
+ * range with rule `null`, which matches every rule.
+ */
+export function buildSuppressionRanges(
+  directives: ISuppressionDirective[],
+  totalLines: number
+): ISuppressionRange[] {
+  const ranges: ISuppressionRange[] = [];
+  const openBlocks = new Map<string, ISuppressionRange>();
+  const rulesOf = (directive: ISuppressionDirective): (string | null)[] =>
+    directive.rules.length > 0 ? directive.rules : [null];
+
+  for (const directive of directives) {
+    switch (directive.kind) {
+      case 'disable-next-line':
+      case 'disable-line': {
+        const line =
+          directive.kind === 'disable-line'
+            ? directive.line
+            : directive.line + 1;
+        for (const rule of rulesOf(directive)) {
+          ranges.push({
+            directive,
+            rule,
+            startLine: line,
+            endLine: line,
+            fileLevel: false,
+            used: false,
+          });
+        }
+        break;
+      }
+      case 'disable-file':
+        for (const rule of rulesOf(directive)) {
+          ranges.push({
+            directive,
+            rule,
+            startLine: 1,
+            endLine: totalLines,
+            fileLevel: true,
+            used: false,
+          });
+        }
+        break;
+      case 'disable':
+        for (const rule of rulesOf(directive)) {
+          const key = rule ?? '*';
+          if (openBlocks.has(key)) continue;
+          const range: ISuppressionRange = {
+            directive,
+            rule,
+            startLine: directive.line,
+            endLine: totalLines,
+            fileLevel: false,
+            used: false,
+          };
+          openBlocks.set(key, range);
+          ranges.push(range);
+        }
+        break;
+      case 'enable': {
+        const keys =
+          directive.rules.length > 0
+            ? directive.rules
+            : Array.from(openBlocks.keys());
+        for (const key of keys) {
+          const range = openBlocks.get(key);
+          if (!range) continue;
+          range.endLine = directive.line;
+          openBlocks.delete(key);
+        }
+        break;
+      }
+    }
+  }
+
+  return ranges;
+}
+
+function referencesRule(
+  reference: string,
+  error: IValidationError,
+  ruleIdsByAlias: Map<string, string>
+): boolean {
+  if (reference === error.rule) return true;
+  return (
+    error.ruleId !== undefined &&
+    (reference === error.ruleId ||
+      ruleIdsByAlias.get(reference) === error.ruleId)
+  );
+}
+
+function rangeMatches(
+  range: ISuppressionRange,
+  error: IValidationError,
+  ruleIdsByAlias: Map<string, string>
+) {
+  if (
+    range.rule !== null &&
+    !referencesRule(range.rule, error, ruleIdsByAlias)
+  ) {
+    return false;
+  }
+  if (range.fileLevel) return true;
+  // Errors without a line can only be silenced for the whole file
+  if (error.line === undefined) return false;
+  return error.line >= range.startLine && error.line <= range.endLine;
+}
+
+function describeDirective(range: ISuppressionRange): string {
+  const target = range.rule ? ` for "${range.rule}"` : '';
+  return `standards-${range.directive.kind}${target}`;
+}
+
+/**
+ * Drop the errors silenced by inline directives and report directives that
+ * reference unknown rules or no longer silence anything. Directives may
+ * reference a rule by display name, ID or one of its aliases.
+ */
+export function applySuppressions(
+  errors: IValidationError[],
+  content: string,
+  filePath: string,
+  knownRules: Set<string>,
+  ruleIdsByAlias: Map<string, string> = new Map()
+): IValidationError[] {
+  const directives = parseSuppressionDirectives(content);
+  if (directives.length === 0) return errors;
+
+  const ranges = buildSuppressionRanges(directives, content.split('\n').length);
+
+  const kept = errors.filter((error) => {
+    let suppressed = false;
+    for (const range of ranges) {
+      if (rangeMatches(range, error, ruleIdsByAlias)) {
+        range.used = true;
+        suppressed = true;
+      }
+    }
+    return !suppressed;
+  });
+
+  for (const range of ranges) {
+    if (range.rule !== null && !knownRules.has(range.rule)) {
+      kept.push({
+        rule: UNKNOWN_SUPPRESSION_RULE,
+        ruleId: UNKNOWN_SUPPRESSION_RULE_ID,
+        message: `Directive ${describeDirective(
+          range
+        )} references a rule that does not exist (line ${
+          range.directive.line
+        })`,
+        filePath,
+        line: range.directive.line,
+        severity: 'warning',
+        category: 'content',
+      });
+    } else if (!range.used) {
+      kept.push({
+        rule: UNUSED_SUPPRESSION_RULE,
+        ruleId: UNUSED_SUPPRESSION_RULE_ID,
+        message: `Directive ${describeDirective(
+          range
+        )} does not suppress any violation and can be removed (line ${
+          range.directive.line
+        })`,
+        filePath,
+        line: range.directive.line,
+        severity: 'warning',
+        category: 'content',
+      });
+    }
+  }
+
+  return kept;
+}
@@ -1,9 +1,17 @@
 import type {
   ICliOptions,
   IValidationResult,
+  IValidationError,
   IProjectInfo,
   IStandardsConfiguration,
   IZoneResult,
+  IBaselineComparison,
+  IAdvancedConfiguration,
+  IStandardsConfigurationInput,
+  IZoneSetup,
+  IZoneInfo,
+  IRuleEngineInitOptions,
+  IRuleSelection,
 } from './types/index.js';
 import {
   loadAndLogConfig,
@@ -14,14 +22,26 @@ import {
   generateReport,
   logSummary,
   processZone,
+  countSeverities,
+  getToolVersion,
+  hashConfiguration,
+  hashRuleset,
 } from './helpers/index.js';
 
+import { matchesRule } from './helpers/ruleId.helper.js';
 import { Logger } from './utils/logger.js';
 import { ConfigLoader } from './core/config-loader.js';
 import { FileScanner } from './utils/file-scanner.js';
 import { ProjectAnalyzer } from './core/project-analyzer.js';
 import { RuleEngine } from './core/rule-engine.js';
+import { ADDITIONAL_VALIDATOR_RULES } from './core/additional-validators.js';
 import { Reporter } from './core/reporter.js';
+import { BaselineManager } from './core/baseline-manager.js';
+import { Watcher } from './core/watcher.js';
+import { ResultCache } from './core/result-cache.js';
+import { ValidationPool, resolveWorkerScript } from './core/validation-pool.js';
+
+const DEFAULT_FILE_TIMEOUT_MS = 30_000;
 
 /**
  * Main Frontend Standards Checker class
@@ -35,6 +55,7 @@ export class FrontendStandardsChecker {
   private readonly fileScanner: FileScanner;
   private readonly ruleEngine: RuleEngine;
   private readonly reporter: Reporter;
+  private readonly baselineManager: BaselineManager;
 
   constructor(options: Partial<ICliOptions> = {}) {
     this.options = {
@@ -52,7 +73,10 @@ export class FrontendStandardsChecker {
       ...options,
     };
 
-    this.logger = new Logger(this.options.verbose || this.options.debug);
+    this.logger = new Logger(
+      this.options.verbose || this.options.debug,
+      this.options.output === '-'
+    );
     this.configLoader = new ConfigLoader(this.options.rootDir, this.logger);
     this.projectAnalyzer = new ProjectAnalyzer(
       this.options.rootDir,
@@ -65,6 +89,10 @@ export class FrontendStandardsChecker {
       this.options.output ?? null,
       this.logger
     );
+    this.baselineManager = new BaselineManager(
+      this.options.rootDir,
+      this.logger
+    );
   }
 
   /**
@@ -101,25 +129,12 @@ export class FrontendStandardsChecker {
         includeCollaborators = true;
       }
 
-      const config = await loadAndLogConfig(
-        this.configLoader,
-        this.options,
-        this.logger
-      );
-      const projectInfo = await analyzeProject(
-        this.projectAnalyzer,
+      const {
         config,
-        this.logger,
-        this.options
-      );
-      const zonesToValidate = this.determineZones(projectInfo, config);
-      this.logger.info(`🎯 Zones to validate: ${zonesToValidate.join(', ')}`);
-
-      this.ruleEngine.initialize(config, {
-        skipStructure: this.options.skipStructure ?? false,
-        skipNaming: this.options.skipNaming ?? false,
-        skipContent: this.options.skipContent ?? false,
-      });
+        projectInfo,
+        zones: zonesToValidate,
+        zoneSetups,
+      } = await this.prepareValidation();
 
       let totalFiles = 0;
       let totalErrors = 0;
@@ -129,7 +144,11 @@ export class FrontendStandardsChecker {
       let changedFiles: string[] = [];
       const hasOnlyZone = config.zones?.onlyZone !== undefined;
 
-      if (
+      if (this.options.files?.length) {
+        this.logger.info(
+          `🎯 Only checking the given paths: ${this.options.files.join(', ')}`
+        );
+      } else if (
         this.options.onlyChangedFiles !== false &&
         (this.options.onlyChangedFiles || config.onlyChangedFiles) &&
         !hasOnlyZone
@@ -149,24 +168,59 @@ export class FrontendStandardsChecker {
         this.logger.info('🔍 Checking all files in the project');
       }
 
-      for (const zone of zonesToValidate) {
-        const zoneResult = await processZone({
-          zone,
-          config,
-          changedFiles,
-          hasOnlyZone,
-          options: this.options,
-          rootDir: this.options.rootDir,
-          logger: this.logger,
-          fileScanner: this.fileScanner,
-          ruleEngine: this.ruleEngine,
-          projectInfo,
-        });
-
-        zoneResults.push(zoneResult);
-        totalFiles += zoneResult.filesProcessed;
-        totalErrors += zoneResult.errorsCount;
-        totalWarnings += zoneResult.warningsCount;
+      const cache = this.createResultCache(config, zoneSetups);
+      const stagedContents = new Map<string, string>();
+      const pool = this.createValidationPool(
+        config,
+        this.getProjectContext(projectInfo)
+      );
+
+      try {
+        for (const zone of zonesToValidate) {
+          const zoneSetup = zoneSetups.get(zone);
+          const zoneResult = await processZone({
+            zone,
+            config: zoneSetup?.config ?? config,
+            changedFiles,
+            hasOnlyZone,
+            options: this.options,
+            rootDir: this.options.rootDir,
+            logger: this.logger,
+            fileScanner: this.fileScanner,
+            ruleEngine: zoneSetup?.ruleEngine ?? this.ruleEngine,
+            projectInfo,
+            cache,
+            pool,
+            stagedContents,
+          });
+
+          zoneResults.push(zoneResult);
+          totalFiles += zoneResult.filesProcessed;
+          totalErrors += zoneResult.errorsCount;
+          totalWarnings += zoneResult.warningsCount;
+        }
+      } finally {
+        await pool?.close();
+      }
+      cache?.save();
+      if (this.options.files?.length && totalFiles === 0) {
+        this.logger.warn(
+          'No files to validate: the given paths are ignored, have other extensions or are outside the zones'
+        );
+      }
+
+      // Baseline entries identify violations by the lines that were validated
+      this.baselineManager.useContents(stagedContents);
+      let baselineComparison: IBaselineComparison | null = null;
+      let baselinePath: string | null = null;
+      if (this.options.baseline) {
+        baselinePath = this.baselineManager.resolvePath(this.options.baseline);
+        baselineComparison = this.applyBaseline(baselinePath, zoneResults);
+        totalErrors = zoneResults.reduce((sum, z) => sum + z.errorsCount, 0);
+        totalWarnings = zoneResults.reduce(
+          (sum, z) => sum + z.warningsCount,
+          0
+        );
       }
 
       const result = createSummary(
@@ -179,6 +233,12 @@ export class FrontendStandardsChecker {
 
       // Pasar la opción al reporter
       this.reporter.includeCollaborators = includeCollaborators;
+      this.reporter.runInfo = {
+        toolVersion: getToolVersion(this.options.rootDir),
+        configHash: hashConfiguration(config, this.getRuleSelection()),
+        startedAt: new Date(startTime).toISOString(),
+        durationMs: result.summary.processingTime,
+      };
       // Generate the report and get processed error/warning counts
       const reportResult = await generateReport(
         this.reporter,
@@ -204,6 +264,10 @@ export class FrontendStandardsChecker {
         }
       );
 
+      if (baselineComparison && baselinePath) {
+        await this.maybePruneBaseline(baselinePath, baselineComparison);
+      }
+
       // Return result, but override totalErrors/totalWarnings to match processed counts
       return {
         ...result,
@@ -216,6 +280,352 @@ export class FrontendStandardsChecker {
     }
   }
 
+  /**
+   * Load the configuration, analyze the project and initialize the rule
+   * engines of the project and of the zones with config files of their own
+   */
+  private async prepareValidation(): Promise<{
+    config: IStandardsConfiguration;
+    projectInfo: IProjectInfo;
+    zones: string[];
+    zoneSetups: Map<string, IZoneSetup>;
+  }> {
+    const config = await loadAndLogConfig(
+      this.configLoader,
+      this.options,
+      this.logger
+    );
+    if (this.options.format) {
+      config.outputFormat = this.options.format;
+    }
+    // Fail on unusable formats before validating rather than after
+    this.reporter.resolveFormatters(config);
+    const projectInfo = await analyzeProject(
+      this.projectAnalyzer,
+      config,
+      this.logger,
+      this.options
+    );
+    if (!config.profile) {
+      this.logger.info(
+        `💡 Suggested rule profile for this project: profile: ${JSON.stringify(
+          this.projectAnalyzer.suggestProfile()
+        )}`
+      );
+    }
+    const zones = this.determineZones(projectInfo, config);
+    this.logger.info(`🎯 Zones to validate: ${zones.join(', ')}`);
+
+    const initOptions = {
+      ...this.getRuleSelection(),
+      rootDir: this.options.rootDir,
+      ...this.getProjectContext(projectInfo),
+    };
+    this.ruleEngine.initialize(config, initOptions);
+
+    const zoneSetups = new Map<string, IZoneSetup>();
+    for (const zone of zones) {
+      const zoneConfig = await this.configLoader.loadZone(
+        zone,
+        this.options.config ?? null,
+        { strict: this.options.strictConfig ?? false }
+      );
+      if (!zoneConfig) continue;
+
+      const ruleEngine = new RuleEngine(this.logger);
+      ruleEngine.initialize(zoneConfig, initOptions);
+      zoneSetups.set(zone, { config: zoneConfig, ruleEngine });
+    }
+    this.checkRuleSelection([
+      config,
+      ...[...zoneSetups.values()].map((zoneSetup) => zoneSetup.config),
+    ]);
+
+    return { config, projectInfo, zones, zoneSetups };
+  }
+
+  /**
+   * Reject --rule, --skip-rule and --only-category values that match no
+   * rule or only rules the configuration turns off, so that a typo fails the
+   * run instead of silently checking nothing
+   */
+  private checkRuleSelection(configs: IStandardsConfiguration[]): void {
+    const { onlyCategory = [], rule = [], skipRule = [] } = this.options;
+    if (onlyCategory.length + rule.length + skipRule.length === 0) return;
+
+    const rules = [
+      ...this.configLoader.getAllDefaultRules(),
+      ...configs.flatMap((config) => config.rules ?? []),
+    ];
+    const unknownRules = [...rule, ...skipRule].filter(
+      (ref) => !rules.some((candidate) => matchesRule(candidate, ref))
+    );
+    if (unknownRules.length > 0) {
+      throw new Error(`Unknown rules: ${unknownRules.join(', ')}`);
+    }
+    const disabledRules = [...rule, ...skipRule].filter(
+      (ref) => !configs.some((config) => this.isRuleEnabled(config, ref))
+    );
+    if (disabledRules.length > 0) {
+      throw new Error(
+        `Rules disabled in the configuration: ${disabledRules.join(', ')}`
+      );
+    }
+
+    const categories = new Set<string>(
+      rules.map((candidate) => candidate.category ?? 'content')
+    );
+    const unknownCategories = onlyCategory.filter(
+      (category) => !categories.has(category)
+    );
+    if (unknownCategories.length > 0) {
+      throw new Error(
+        `Unknown categories: ${unknownCategories.join(
+          ', '
+        )}. Available categories: ${[...categories].sort().join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Whether a config runs a rule: it lists the rule, in its rules or in an
+   * override, or the additional validators report it, and doesn't turn it off
+   */
+  private isRuleEnabled(config: IStandardsConfiguration, ref: string): boolean {
+    const definition = [
+      ...(config.rules ?? []),
+      ...(config.overrides ?? []).flatMap((override) => override.rules),
+      ...ADDITIONAL_VALIDATOR_RULES,
+    ].find((candidate) => matchesRule(candidate, ref));
+    return (
+      definition !== undefined &&
+      !(config.disabledRules ?? []).some((disabledRef) =>
+        matchesRule(definition, disabledRef)
+      )
+    );
+  }
+
+  /**
+   * Result cache configured by `cache` in the config; --no-cache disables it
+   */
+  private createResultCache(
+    config: IStandardsConfiguration,
+    zoneSetups: Map<string, IZoneSetup>
+  ): ResultCache | null {
+    const cacheConfig = (config as IAdvancedConfiguration).cache;
+    if (!cacheConfig?.enabled || this.options.cache === false) return null;
+
+    return new ResultCache(this.options.rootDir, this.logger, {
+      toolVersion: getToolVersion(this.options.rootDir),
+      rulesetHash: hashRuleset(
+        [
+          config,
+          ...[...zoneSetups.values()].map((zoneSetup) => zoneSetup.config),
+        ],
+        this.getRuleSelection()
+      ),
+      strategy: cacheConfig.strategy ?? 'file',
+      ...(cacheConfig.ttl !== undefined ? { ttl: cacheConfig.ttl } : {}),
+    });
+  }
+
+  /**
+   * Worker pool configured by `performance`. Files are validated in the main
+   * thread unless more than one worker or a per-file timeout is requested.
+   */
+  private createValidationPool(
+    config: IStandardsConfiguration,
+    projectContext: Pick<IRuleEngineInitOptions, 'projectType' | 'zones'>
+  ): ValidationPool | null {
+    const performance = (config as IAdvancedConfiguration).performance;
+    const size = performance?.maxConcurrentFiles ?? 1;
+    if (size <= 1 && performance?.timeoutMs === undefined) return null;
+
+    const workerScript = resolveWorkerScript(this.options.rootDir);
+    if (!workerScript) {
+      this.logger.debug(
+        'Validation worker not found, validating files sequentially'
+      );
+      return null;
+    }
+
+    this.logger.debug(`Validating files with ${Math.max(size, 1)} workers`);
+    return new ValidationPool(this.logger, {
+      workerScript,
+      workerData: {
+        rootDir: this.options.rootDir,
+        configPath: this.options.config ?? null,
+        verbose: this.logger.verbose,
+        selection: this.getRuleSelection(),
+        ...projectContext,
+      },
+      size: Math.max(size, 1),
+      timeoutMs: performance?.timeoutMs ?? DEFAULT_FILE_TIMEOUT_MS,
+    });
+  }
+
+  /**
+   * Validate every file in the active zones, then keep re-validating the
+   * files that change. Editing the config file reloads everything.
+   * @returns The running watcher; call stop() to end watch mode
+   */
+  async watch(): Promise<Watcher> {
+    const watcher = new Watcher(
+      this.options.rootDir,
+      this.logger,
+      this.ruleEngine,
+      this.fileScanner,
+      {
+        configPath: this.configLoader.resolveConfigPath(
+          this.options.config ?? null
+        ),
+        load: async () => {
+          const { config, zones, zoneSetups } = await this.prepareValidation();
+          return { config, zones, zoneSetups };
+        },
+      }
+    );
+    await watcher.start();
+    return watcher;
+  }
+
+  /**
+   * Run a full validation and snapshot every violation into a baseline file
+   * @returns Path of the written baseline and number of entries
+   */
+  async createBaseline(
+    outputPath?: string | null
+  ): Promise<{ path: string; entries: number; violations: number }> {
+    const result = await this.run();
+    const zoneErrors: Record<string, IValidationError[]> = {};
+    result.zones.forEach((zone) => {
+      zoneErrors[zone.zone] = zone.errors;
+    });
+
+    const baseline = this.baselineManager.create(zoneErrors);
+    const baselinePath = this.baselineManager.resolvePath(outputPath);
+    this.baselineManager.save(baselinePath, baseline);
+
+    return {
+      path: baselinePath,
+      entries: baseline.entries.length,
+      violations: baseline.entries.reduce((sum, e) => sum + e.count, 0),
+    };
+  }
+
+  /**
+   * Filter baselined violations out of the zone results (mutates them)
+   */
+  private applyBaseline(
+    baselinePath: string,
+    zoneResults: IZoneResult[]
+  ): IBaselineComparison {
+    const baseline = this.baselineManager.load(baselinePath);
+    const zoneErrors: Record<string, IValidationError[]> = {};
+    zoneResults.forEach((zone) => {
+      zoneErrors[zone.zone] = zone.errors;
+    });
+
+    const comparison = this.baselineManager.apply(
+      zoneErrors,
+      baseline,
+      zoneResults.flatMap((zone) => zone.files ?? [])
+    );
+
+    zoneResults.forEach((zone) => {
+      zone.errors = comparison.zoneErrors[zone.zone] ?? [];
+      const counts = countSeverities(zone.errors);
+      zone.errorsCount = counts.errorsCount;
+      zone.warningsCount = counts.warningsCount;
+    });
+
+    const fixedCount = comparison.fixed.reduce((sum, e) => sum + e.count, 0);
+    this.reporter.baselineSummary = {
+      path: baselinePath,
+      suppressed: comparison.suppressed,
+      fixed: fixedCount,
+    };
+    this.logger.info(
+      `📌 Baseline: ${comparison.suppressed} suppressed, ${fixedCount} fixed since baseline`
+    );
+
+    return comparison;
+  }
+
+  /**
+   * Offer to remove fixed entries from the baseline file
+   */
+  private async maybePruneBaseline(
+    baselinePath: string,
+    comparison: IBaselineComparison
+  ): Promise<void> {
+    if (comparison.fixed.length === 0) return;
+
+    let prune = this.options.pruneBaseline ?? false;
+    if (!prune && process.stdout.isTTY) {
+      try {
+        const inquirer = await import('inquirer');
+        const answer = await inquirer.default.prompt([
+          {
+            type: 'confirm',
+            name: 'prune',
+            message: `Remove ${comparison.fixed.length} fixed entries from the baseline?`,
+            default: true,
+          },
+        ]);
+        prune = answer.prune;
+      } catch (e) {
+        this.logger.warn('Could not prompt for baseline pruning', e);
+      }
+    }
+
+    if (!prune) {
+      this.logger.info(
+        '💡 Run with --prune-baseline to remove fixed entries from the baseline'
+      );
+      return;
+    }
+
+    const baseline = this.baselineManager.load(baselinePath);
+    this.baselineManager.save(
+      baselinePath,
+      this.baselineManager.prune(baseline, comparison.fixed)
+    );
+    this.logger.info(`🧹 Baseline pruned: ${baselinePath}`);
+  }
+
+  /**
+   * Categories and rules to run, from the skip and filter options
+   */
+  private getRuleSelection(): IRuleSelection {
+    const { skipStructure, skipNaming, skipContent } = this.options;
+    const { onlyCategory, rule, skipRule } = this.options;
+    return {
+      ...(skipStructure ? { skipStructure } : {}),
+      ...(skipNaming ? { skipNaming } : {}),
+      ...(skipContent ? { skipContent } : {}),
+      ...(onlyCategory?.length ? { onlyCategories: onlyCategory } : {}),
+      ...(rule?.length ? { onlyRules: rule } : {}),
+      ...(skipRule?.length ? { skipRules: skipRule } : {}),
+    };
+  }
+
+  /**
+   * Project type and zone types the rules' `appliesTo.frameworks` are
+   * matched against
+   */
+  private getProjectContext(
+    projectInfo: IProjectInfo | { zones: string[] | IZoneInfo[] }
+  ): Pick<IRuleEngineInitOptions, 'projectType' | 'zones'> {
+    // Zone names only carry no type, so the project type is used for them
+    const zones = (projectInfo.zones as (string | IZoneInfo)[]).filter(
+      (zone): zone is IZoneInfo => typeof zone === 'object'
+    );
+    return 'projectType' in projectInfo
+      ? { projectType: projectInfo.projectType, zones }
+      : { zones };
+  }
+
   /**
    * Determine which zones to validate based on project structure and options
    */
@@ -248,6 +658,24 @@ export class FrontendStandardsChecker {
   }
 }
 
+/**
+ * Type a configuration file's export, e.g.
+ * `export default defineConfig({ rules: { 'content/no-var': 'warning' } })`
+ */
+export function defineConfig(
+  config: IStandardsConfigurationInput
+): IStandardsConfigurationInput {
+  return config;
+}
+
 // Export default class and types
 export default FrontendStandardsChecker;
 export * from './types/standardConfiguration.type.js';
+export type * from './types/jsonReport.type.js';
+export type {
+  IStandardsConfigurationInput,
+  IRulesObjectFormat,
+  IConfigOverride,
+} from './types/ruleEngine.type.js';
+export type * from './types/ruleOptions.type.js';
+export type * from './types/configValidation.type.js';
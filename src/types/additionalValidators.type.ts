@@ -12,7 +12,8 @@ export interface INamingRule {
 }
 
 export interface IValidationError {
-  rule: string;
+  rule: string; // Display name
+  ruleId?: string;
   message: string;
   filePath: string;
   line?: number;
@@ -0,0 +1,27 @@
+import type { IValidationError } from './additionalValidators.type';
+
+export interface IBaselineEntry {
+  rule: string;
+  ruleId?: string; // Missing in baselines written before rules had IDs
+  filePath: string; // Relative to the project root, forward slashes
+  fingerprint: string;
+  count: number;
+}
+
+export interface IBaselineFile {
+  version: 1;
+  createdAt: string;
+  entries: IBaselineEntry[];
+}
+
+export interface IBaselineComparison {
+  zoneErrors: Record<string, IValidationError[]>;
+  suppressed: number;
+  fixed: IBaselineEntry[];
+}
+
+export interface IBaselineSummary {
+  path: string;
+  suppressed: number;
+  fixed: number;
+}
@@ -0,0 +1,22 @@
+import type { IValidationError } from './additionalValidators.type';
+
+export interface ICacheEntry {
+  hash: string; // Content hash of the file
+  cachedAt: number;
+  errors: IValidationError[];
+}
+
+export interface ICacheFile {
+  version: 1;
+  toolVersion: string;
+  rulesetHash: string;
+  entries: Record<string, ICacheEntry>; // Keyed by project relative path
+}
+
+export interface IResultCacheOptions {
+  toolVersion: string;
+  rulesetHash: string;
+  strategy?: 'memory' | 'file';
+  ttl?: number; // Milliseconds an entry stays valid
+  cacheDir?: string;
+}
@@ -0,0 +1,42 @@
+import type { IRuleOptions } from './ruleOptions.type';
+import type { IRuleSeverity } from './ruleEngine.type';
+import type { IZoneConfiguration } from './reporter.type';
+import type { IRuleProfileName } from './ruleProfile.type';
+
+// default: unchanged built-in rule; modified: built-in rule whose severity,
+// options or check the configuration changed; custom: not a built-in rule
+export type IRuleOrigin = 'default' | 'modified' | 'custom';
+
+export interface IRuleSummary {
+  id: string;
+  name: string;
+  category: string;
+  severity: IRuleSeverity;
+  origin: IRuleOrigin;
+  options?: IRuleOptions; // Effective values, for rules with options
+}
+
+export interface IOverrideSummary {
+  files: string[];
+  excludedFiles?: string[];
+  rules: string[]; // IDs of the rules the override adds or changes
+  disabledRules: string[];
+}
+
+export interface IFileRulesSummary {
+  path: string; // Relative to the project root
+  zone?: string; // Zone whose own config files apply to the file
+  skipped?: string; // Why the file isn't validated
+  rules: IRuleSummary[];
+}
+
+export interface IEffectiveConfiguration {
+  configPath: string | null; // null when the defaults are used
+  profile: IRuleProfileName[];
+  rules: IRuleSummary[];
+  zones: IZoneConfiguration;
+  extensions: string[];
+  ignorePatterns: string[];
+  overrides: IOverrideSummary[];
+  file?: IFileRulesSummary;
+}
@@ -0,0 +1,20 @@
+export type IConfigProblemKind =
+  | 'unknown-key'
+  | 'unknown-rule'
+  | 'invalid-severity'
+  | 'invalid-option'
+  | 'invalid-value'
+  | 'missing-zone';
+
+export interface IConfigProblem {
+  kind: IConfigProblemKind;
+  path: string; // Location in the config, e.g. 'zones.customZones[0]'
+  message: string;
+}
+
+export interface IConfigLoadOptions {
+  // Fail on configuration problems instead of warning and using defaults
+  strict?: boolean;
+}
+
+export type IJsonSchema = Record<string, unknown>;
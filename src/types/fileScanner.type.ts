@@ -7,18 +7,26 @@ export interface IFileScanner {
   scanZone(zone: string, options: IScanOptions): Promise<IFileInfo[]>;
   scanDirectory(dirPath: string, options: IScanOptions): Promise<IFileInfo[]>;
   loadGitignorePatterns(): Promise<IGitIgnorePattern[]>;
-  isIgnored(filePath: string, patterns: IGitIgnorePattern[]): boolean;
+  resetGitignorePatterns(): void;
+  isIgnored(
+    filePath: string,
+    patterns: IGitIgnorePattern[],
+    ignorePatterns?: string[],
+    isDirectory?: boolean
+  ): boolean;
 }
 
 export interface IGitIgnorePattern {
   pattern: string;
   isNegation: boolean;
   isDirectory: boolean;
+  baseDir?: string; // Directory of the ignore file relative to the root
 }
 
 export interface IScanOptions {
   extensions: string[];
   ignorePatterns: string[];
+  excludePatterns?: string[]; // zones.excludePatterns, matched like ignorePatterns
   zones?: string[];
   includePackages: boolean;
   customZones: string[];
@@ -0,0 +1,18 @@
+/**
+ * Replace content[start, end) with text. Offsets are character offsets in the
+ * content passed to the rule's fix function.
+ */
+export interface ITextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface IFixResult {
+  filePath: string;
+  originalContent: string;
+  fixedContent: string;
+  changed: boolean;
+  appliedRules: string[];
+  passes: number;
+}
@@ -0,0 +1,27 @@
+import type { IValidationError } from './additionalValidators.type';
+import type { IProjectAnalysisResult } from './projectAnalizer.type';
+import type { IBaselineSummary } from './baseline.type';
+import type { IReportRunInfo } from './jsonReport.type';
+import type {
+  IProcessedReportData,
+  IStandardsConfiguration,
+} from './reporter.type';
+
+export interface IFormatterContext {
+  // Reportable violations per zone (no Jest files or "present" markers)
+  zoneErrors: Record<string, IValidationError[]>;
+  // Validated files per zone
+  zoneFiles: Record<string, string[]>;
+  reportData: IProcessedReportData;
+  projectInfo: IProjectAnalysisResult;
+  config: IStandardsConfiguration;
+  rootDir: string;
+  run?: IReportRunInfo | null;
+  baseline?: IBaselineSummary | null;
+}
+
+export interface IReportFormatter {
+  name: string;
+  extension: string; // Appended to the report base name, e.g. ".sarif"
+  format(context: IFormatterContext): string | Promise<string>;
+}
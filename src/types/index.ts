@@ -4,3 +4,16 @@ export * from './reporter.type';
 export * from './ruleEngine.type';
 export * from './fileScanner.type';
 export * from './standardConfiguration.type';
+export * from './suppression.type';
+export * from './baseline.type';
+export * from './sarif.type';
+export * from './formatter.type';
+export * from './jsonReport.type';
+export * from './fix.type';
+export * from './watcher.type';
+export * from './cache.type';
+export * from './validationPool.type';
+export * from './ruleOptions.type';
+export * from './configValidation.type';
+export * from './configPrint.type';
+export * from './ruleProfile.type';
@@ -0,0 +1,62 @@
+import type { IBaselineSummary } from './baseline.type';
+
+export interface IReportRunInfo {
+  toolVersion: string;
+  configHash: string;
+  startedAt: string; // ISO date
+  durationMs: number;
+}
+
+export interface IJsonReportViolation {
+  rule: string;
+  ruleId: string | null;
+  category: string | null;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  zone: string;
+  filePath: string; // Relative to the project root, forward slashes
+  line: number | null;
+  column: number | null;
+}
+
+export interface IJsonReportZoneSummary {
+  files: number;
+  errors: number;
+  warnings: number;
+  infos: number;
+}
+
+/**
+ * Machine-readable report written by the "json" output format.
+ * Breaking changes bump schemaVersion.
+ */
+export interface IJsonReport {
+  schemaVersion: 1;
+  tool: {
+    name: 'frontend-standards-checker';
+    version: string;
+  };
+  run: {
+    startedAt: string | null;
+    durationMs: number | null;
+    configHash: string | null;
+  };
+  project: {
+    name: string;
+    type: string;
+    isMonorepo: boolean;
+    zones: string[];
+  };
+  summary: {
+    totalFiles: number;
+    totalErrors: number;
+    totalWarnings: number;
+    totalInfos: number;
+    errorsByRule: Record<string, number>;
+    warningsByRule: Record<string, number>;
+    infosByRule: Record<string, number>;
+    zones: Record<string, IJsonReportZoneSummary>;
+  };
+  baseline: IBaselineSummary | null;
+  violations: IJsonReportViolation[];
+}
@@ -1,4 +1,5 @@
 import { IValidationError } from './additionalValidators.type';
+import type { IRuleProfileName } from './ruleProfile.type';
 
 export interface LogLevel {
   ERROR: 0;
@@ -22,6 +23,7 @@ export interface IProjectAnalyzer {
   logger: ILogger;
   analyze(config?: IMonorepoZoneConfig): Promise<IProjectAnalysisResult>;
   detectProjectType(projectPath?: string): IProjectInfo['projectType'];
+  suggestProfile(projectPath?: string): IRuleProfileName[];
   detectZones(): Promise<string[]>;
   isMonorepo(): boolean;
   detectMonorepoZones(zoneConfig?: IMonorepoZoneConfig): Promise<IZoneInfo[]>;
@@ -54,7 +56,14 @@ export interface IProjectAnalysisResult {
 
 export interface IProjectInfo {
   isMonorepo: boolean;
-  projectType: 'react' | 'next' | 'node' | 'angular' | 'vue' | 'generic';
+  projectType:
+    | 'react'
+    | 'react-native'
+    | 'next'
+    | 'node'
+    | 'angular'
+    | 'vue'
+    | 'generic';
   zones: string[];
   packageJson?: any;
   rootPath: string;
@@ -1,5 +1,13 @@
-import type { ILogger, IProjectAnalysisResult } from './projectAnalizer.type';
+import type {
+  ILogger,
+  IProjectAnalysisResult,
+  IProjectInfo,
+} from './projectAnalizer.type';
 import type { IValidationError } from './additionalValidators.type';
+import type { IReportFormatter } from './formatter.type';
+import type { ITextEdit } from './fix.type';
+import type { IRuleOptions, IRuleOptionsSchema } from './ruleOptions.type';
+import type { IRuleProfileSelection } from './ruleProfile.type';
 
 export interface IReporter {
   rootDir: string;
@@ -8,7 +16,8 @@ export interface IReporter {
   generate(
     zoneErrors: Record<string, IValidationError[]>,
     projectInfo: IProjectAnalysisResult,
-    config: IStandardsConfiguration
+    config: IStandardsConfiguration,
+    zoneFiles?: Record<string, string[]>
   ): Promise<IReportGenerationResult>;
   processErrors(
     zoneErrors: Record<string, IValidationError[]>
@@ -22,7 +31,7 @@ export interface IReporter {
     projectInfo: IProjectAnalysisResult,
     config: IStandardsConfiguration
   ): Promise<string>;
-  saveReport(content: string): Promise<void>;
+  saveReport(content: string, filePath?: string): Promise<void>;
   generateQuickSummary(reportData: IProcessedReportData): string;
   exportJson(
     reportData: IProcessedReportData,
@@ -44,18 +53,32 @@ export interface IReporter {
 }
 
 export interface IStandardsConfiguration {
+  profile?: IRuleProfileSelection; // Profile the default rules were taken from
   rules?: IValidationRule[];
   zones?: IZoneConfiguration;
   merge?: boolean;
   extensions?: string[];
   ignorePatterns?: string[];
   verbose?: boolean;
-  outputFormat?: IOutputFormat;
+  outputFormat?: IOutputFormat | IOutputFormat[];
+  formatters?: IReportFormatter[]; // Custom formatters selectable by name in outputFormat
   onlyChangedFiles?: boolean; // Nueva opción para verificar solo archivos modificados en el commit
+  overrides?: IRuleOverride[]; // Rule changes for files matching glob patterns
+  // IDs or names of rules turned off, for the rules reported by the
+  // additional validators, which run whether or not they are configured
+  disabledRules?: string[];
+}
+
+export interface IRuleOverride {
+  files: string[]; // Globs relative to the project root
+  excludedFiles?: string[];
+  rules: IValidationRule[]; // Rules added or reconfigured for matching files
+  disabledRules: string[]; // IDs or names of rules turned off for matching files
 }
 
 export interface IReportGenerationResult {
-  logFile: string;
+  logFile: string; // First written report, "-" when streamed to stdout
+  outputFiles?: string[];
   totalErrors: number;
   totalWarnings: number;
   totalInfos: number;
@@ -89,11 +112,32 @@ export interface ISummaryItem {
   percentage: string;
 }
 
+// Conditions a file has to meet for a rule to run on it, all of them
+export interface IRuleAppliesTo {
+  // Types of the file's zone, or of the project when the zone's type is
+  // generic; rules run everywhere when no type is known
+  frameworks?: IProjectInfo['projectType'][];
+  extensions?: string[]; // e.g. ['.tsx']
+  files?: string[]; // Globs relative to the project root
+  // Globs of files the rule skips in zones of a type, e.g. SVG components in
+  // React Native
+  excludedFiles?: Partial<Record<IProjectInfo['projectType'], string[]>>;
+}
+
 export interface IValidationRule {
-  name: string;
+  // Stable namespaced ID, e.g. 'content/no-console-log'. Rules without one
+  // get a 'custom/' ID derived from the name when the config is loaded.
+  id?: string;
+  name: string; // Display name
+  aliases?: string[]; // Deprecated references that still resolve to the rule
+  // Options the rule accepts, with their defaults
+  optionsSchema?: IRuleOptionsSchema;
+  // Configured option values, merged over the schema defaults
+  options?: IRuleOptions;
   check: (
     content: string,
-    filePath: string
+    filePath: string,
+    options?: IRuleOptions
   ) => boolean | number[] | Promise<boolean> | Promise<number[]>;
   message: string;
   category?:
@@ -108,6 +152,14 @@ export interface IValidationRule {
     | 'react'
     | 'imports';
   severity?: 'error' | 'warning' | 'info';
+  // Only run the rule on matching files; every rule applies by default
+  appliesTo?: IRuleAppliesTo;
+  // Optional auto-fix: text edits that resolve the violations in content
+  fix?: (
+    content: string,
+    filePath: string,
+    options?: IRuleOptions
+  ) => ITextEdit[];
 }
 
 export interface IZoneConfiguration {
@@ -117,4 +169,7 @@ export interface IZoneConfiguration {
   onlyZone?: string; // Nueva opción: revisar solo una zona específica
 }
 
-export type IOutputFormat = 'text' | 'json' | 'both';
+export type IBuiltInOutputFormat = 'text' | 'json' | 'both' | 'sarif' | 'junit';
+
+// Built-in format names, custom formatter names or a comma separated list
+export type IOutputFormat = IBuiltInOutputFormat | (string & {});
@@ -1,4 +1,8 @@
-import type { ILogger, IProjectInfo } from './projectAnalizer.type.ts';
+import type {
+  ILogger,
+  IProjectInfo,
+  IZoneInfo,
+} from './projectAnalizer.type.ts';
 import type {
   IValidationRule,
   IStandardsConfiguration,
@@ -6,11 +10,27 @@ import type {
   IOutputFormat,
 } from './reporter.type.js';
 import type { IValidationError } from './additionalValidators.type';
+import type { IReportFormatter } from './formatter.type';
+import type { IFixResult } from './fix.type';
+import type { IRuleOptions } from './ruleOptions.type';
+import type { IRuleProfileSelection } from './ruleProfile.type';
+import type { IAdvancedConfiguration } from './standardConfiguration.type';
 
-export interface IRuleEngineInitOptions {
+// Which rules run; rules are referenced by ID, display name or alias
+export interface IRuleSelection {
   skipStructure?: boolean;
   skipNaming?: boolean;
   skipContent?: boolean;
+  onlyCategories?: string[];
+  onlyRules?: string[];
+  skipRules?: string[];
+}
+
+export interface IRuleEngineInitOptions extends IRuleSelection {
+  rootDir?: string; // Override globs are matched relative to it
+  // Types rules with appliesTo.frameworks are matched against
+  projectType?: IProjectInfo['projectType'];
+  zones?: IZoneInfo[]; // Files use the type of the innermost zone
 }
 
 export interface IRuleEngine {
@@ -21,7 +41,12 @@ export interface IRuleEngine {
     config: IStandardsConfiguration,
     options?: IRuleEngineInitOptions
   ): void;
-  validateFile(filePath: string): Promise<IValidationError[]>;
+  getRulesForFile(filePath: string): IValidationRule[];
+  validateFile(
+    filePath: string,
+    fileContent?: string
+  ): Promise<IValidationError[]>;
+  fixFile(filePath: string, content?: string): Promise<IFixResult>;
   validate(
     content: string,
     filePath: string,
@@ -29,15 +54,33 @@ export interface IRuleEngine {
   ): Promise<IValidationError[]>;
 }
 
-export interface IStandardsConfigurationInput {
+export interface IStandardsConfigurationInput
+  extends Pick<IAdvancedConfiguration, 'hooks' | 'cache' | 'performance'> {
+  // JSON Schema for editor completion, ignored by the checker
+  $schema?: string;
+  // Presets to build on: package names or paths relative to the config file
+  extends?: string | string[];
+  // In a zone config: don't merge the configs of parent directories
+  root?: boolean;
+  // Built-in rule profile, optionally with framework layers
+  profile?: IRuleProfileSelection;
   rules?: IValidationRule[] | IRulesObjectFormat;
   zones?: IZoneConfiguration;
   merge?: boolean;
   extensions?: string[];
   ignorePatterns?: string[];
   verbose?: boolean;
-  outputFormat?: IOutputFormat;
+  outputFormat?: IOutputFormat | IOutputFormat[];
+  formatters?: IReportFormatter[];
   onlyChangedFiles?: boolean; // Nueva opción para verificar solo archivos modificados en el commit
+  overrides?: IConfigOverride[];
+}
+
+// ESLint-style rule changes for the files matching `files`
+export interface IConfigOverride {
+  files: string[];
+  excludedFiles?: string[];
+  rules: IValidationRule[] | IRulesObjectFormat;
 }
 
 export interface IValidatorContext {
@@ -47,6 +90,9 @@ export interface IValidatorContext {
   config: IStandardsConfiguration;
 }
 
+export type IRuleSeverity = 'error' | 'warning' | 'info';
+
 export interface IRulesObjectFormat {
-  [ruleName: string]: boolean | 'error' | 'warning' | 'info';
+  // Enable, set the severity, or set the severity and options of a rule
+  [ruleName: string]: boolean | IRuleSeverity | [IRuleSeverity, IRuleOptions];
 }
@@ -0,0 +1,20 @@
+export type IRuleOptionType = 'number' | 'boolean' | 'string' | 'string[]';
+
+export type IRuleOptionValue = number | boolean | string | string[];
+
+// Option values passed to a rule's check, keyed by option name
+export type IRuleOptions = Record<string, IRuleOptionValue>;
+
+export interface IRuleOptionDefinition {
+  type: IRuleOptionType;
+  default: IRuleOptionValue;
+  description?: string;
+}
+
+// Options a rule accepts, keyed by option name
+export type IRuleOptionsSchema = Record<string, IRuleOptionDefinition>;
+
+export interface IRuleOptionsValidation {
+  options: IRuleOptions; // Valid options only
+  problems: string[];
+}
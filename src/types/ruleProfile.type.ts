@@ -0,0 +1,25 @@
+import type { IValidationRule } from './reporter.type';
+import type { IRuleSeverity } from './ruleEngine.type';
+
+export type IBaseRuleProfileName = 'recommended' | 'strict' | 'legacy';
+
+export type IRuleProfileLayerName = 'next' | 'react-native' | 'library';
+
+export type IRuleProfileName = IBaseRuleProfileName | IRuleProfileLayerName;
+
+// At most one base profile, plus any number of layers applied in order
+export type IRuleProfileSelection = IRuleProfileName | IRuleProfileName[];
+
+// Decides which default rules are enabled and with which severity
+export interface IBaseRuleProfile {
+  description: string;
+  enabled: (rule: IValidationRule) => boolean;
+  severity: (rule: IValidationRule) => IRuleSeverity;
+}
+
+// Adjusts a base profile for a kind of project. `true` enables a rule with
+// the severity the base profile gives it; `false` disables it.
+export interface IRuleProfileLayer {
+  description: string;
+  rules: Record<string, boolean | IRuleSeverity>;
+}
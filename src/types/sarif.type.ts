@@ -0,0 +1,38 @@
+export type ISarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface ISarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: ISarifLevel };
+  properties?: { category?: string };
+}
+
+export interface ISarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: ISarifLevel;
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number; startColumn?: number };
+    };
+  }[];
+}
+
+export interface ISarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: ISarifReportingDescriptor[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: ISarifResult[];
+  }[];
+}
@@ -1,9 +1,17 @@
 import { RuleEngine } from '../core/rule-engine';
 import { FileScanner } from '../utils/file-scanner';
+import { ResultCache } from '../core/result-cache';
+import { ValidationPool } from '../core/validation-pool';
 import { Logger } from '../utils/logger';
 import { IValidationError } from './additionalValidators.type';
+import { IRuleOptions } from './ruleOptions.type';
+import { IConfigLoadOptions, IConfigProblem } from './configValidation.type';
 import { LogLevel, ILogger, IProjectInfo } from './projectAnalizer.type';
-import { IValidationRule, IStandardsConfiguration } from './reporter.type';
+import {
+  IValidationRule,
+  IStandardsConfiguration,
+  IOutputFormat,
+} from './reporter.type';
 import {
   IStandardsConfigurationInput,
   IValidatorContext,
@@ -24,6 +32,7 @@ export interface IZoneResult {
   errors: IValidationError[];
   warningsCount: number;
   errorsCount: number;
+  files?: string[];
 }
 
 export interface IValidationResult {
@@ -53,6 +62,7 @@ export interface IReporterOptions {
 
 export interface ICliOptions {
   zones?: string[];
+  files?: string[]; // Files, directories or globs to validate, instead of staged files
   config?: string | null;
   output?: string | null;
   verbose?: boolean;
@@ -60,14 +70,29 @@ export interface ICliOptions {
   skipStructure?: boolean;
   skipNaming?: boolean;
   skipContent?: boolean;
+  onlyCategory?: string[];
+  rule?: string[];
+  skipRule?: string[];
   version?: boolean;
   help?: boolean;
   onlyChangedFiles?: boolean;
   allFiles?: boolean;
+  baseline?: string | null;
+  pruneBaseline?: boolean;
+  format?: IOutputFormat;
+  fix?: boolean;
+  fixDryRun?: boolean;
+  watch?: boolean;
+  cache?: boolean;
+  strictConfig?: boolean;
 }
 
 export type IAsyncValidationRule = Omit<IValidationRule, 'check'> & {
-  check: (content: string, filePath: string) => Promise<boolean>;
+  check: (
+    content: string,
+    filePath: string,
+    options?: IRuleOptions
+  ) => Promise<boolean>;
 };
 
 export type IRuleFactory = (config?: any) => IValidationRule;
@@ -108,12 +133,12 @@ export interface IAdvancedConfiguration extends IStandardsConfiguration {
   };
   cache?: {
     enabled: boolean;
-    ttl?: number;
+    ttl?: number; // Milliseconds
     strategy?: 'memory' | 'file';
   };
   performance?: {
-    maxConcurrentFiles?: number;
-    timeoutMs?: number;
+    maxConcurrentFiles?: number; // Worker threads validating files in parallel
+    timeoutMs?: number; // Per file; a slower file fails validation
   };
 }
 
@@ -151,7 +176,16 @@ export interface IConfigLoader {
   rootDir: string;
   logger: ILogger;
   configFileName: string;
-  load(customConfigPath?: string | null): Promise<IStandardsConfiguration>;
+  load(
+    customConfigPath?: string | null,
+    options?: IConfigLoadOptions
+  ): Promise<IStandardsConfiguration>;
+  validate(customConfigPath?: string | null): Promise<IConfigProblem[]>;
+  loadZone(
+    zone: string,
+    customConfigPath?: string | null,
+    options?: IConfigLoadOptions
+  ): Promise<IStandardsConfiguration | null>;
   mergeWithDefaults(
     customConfig: IConfigurationExport
   ): IStandardsConfiguration;
@@ -159,6 +193,12 @@ export interface IConfigLoader {
   getDefaultRules(): IDefaultRulesStructure;
 }
 
+// Configuration and rule engine of a zone with config files of its own
+export interface IZoneSetup {
+  config: IStandardsConfiguration;
+  ruleEngine: RuleEngine;
+}
+
 export interface IProcessZoneOptions {
   zone: string;
   config: IStandardsConfiguration;
@@ -170,4 +210,8 @@ export interface IProcessZoneOptions {
   fileScanner: FileScanner;
   ruleEngine: RuleEngine;
   projectInfo: IProjectInfo;
+  cache?: ResultCache | null;
+  pool?: ValidationPool | null;
+  // Receives the staged content validated for files, by path
+  stagedContents?: Map<string, string>;
 }
@@ -0,0 +1,21 @@
+export type ISuppressionKind =
+  | 'disable-next-line'
+  | 'disable-line'
+  | 'disable'
+  | 'enable'
+  | 'disable-file';
+
+export interface ISuppressionDirective {
+  kind: ISuppressionKind;
+  rules: string[]; // Empty means every rule
+  line: number; // 1-based line where the directive comment lives
+}
+
+export interface ISuppressionRange {
+  directive: ISuppressionDirective;
+  rule: string | null; // null means every rule
+  startLine: number;
+  endLine: number;
+  fileLevel: boolean;
+  used: boolean;
+}
@@ -0,0 +1,31 @@
+import type { IValidationError } from './additionalValidators.type';
+import type { IProjectInfo, IZoneInfo } from './projectAnalizer.type';
+import type { IRuleSelection } from './ruleEngine.type';
+
+export interface IValidationWorkerData {
+  rootDir: string;
+  configPath: string | null;
+  verbose: boolean;
+  selection?: IRuleSelection;
+  projectType?: IProjectInfo['projectType'];
+  zones?: IZoneInfo[];
+}
+
+export interface IValidationTask {
+  id: number;
+  filePath: string;
+  zone?: string; // Zone of the file, whose config files apply to it
+  content?: string; // Validated instead of the file on disk
+}
+
+export type IValidationWorkerMessage =
+  | { type: 'result'; id: number; errors: IValidationError[] }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'log'; level: 'error' | 'warn' | 'debug'; message: string };
+
+export interface IValidationPoolOptions {
+  workerScript: string;
+  workerData: IValidationWorkerData;
+  size: number; // Maximum number of workers
+  timeoutMs: number; // Per file
+}
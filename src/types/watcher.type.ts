@@ -0,0 +1,20 @@
+import type { IValidationError } from './additionalValidators.type';
+import type { IStandardsConfiguration } from './reporter.type';
+import type { IZoneSetup } from './standardConfiguration.type';
+
+export interface IWatchContext {
+  config: IStandardsConfiguration;
+  zones: string[];
+  zoneSetups?: Map<string, IZoneSetup>; // Zones with config files of their own
+}
+
+export interface IWatcherOptions {
+  configPath: string; // Absolute path, changes trigger a full reload
+  load: () => Promise<IWatchContext>; // Loads the config and initializes the rule engine
+  debounceMs?: number;
+}
+
+export interface IViolationDiff {
+  added: IValidationError[];
+  resolved: IValidationError[];
+}
@@ -169,9 +169,12 @@ describe('FileScanner', () => {
 
   it('loadGitignorePatterns returns [] if no .gitignore exists', async () => {
     jest.spyOn(fs, 'existsSync').mockReturnValue(false);
+    jest.spyOn(fs.promises, 'readdir').mockResolvedValue([]);
     const patterns = await scanner.loadGitignorePatterns();
     expect(patterns).toEqual([]);
-    expect(logger.debug).toHaveBeenCalledWith('No .gitignore file found');
+    expect(logger.debug).toHaveBeenCalledWith(
+      'No .gitignore or .standardsignore file found'
+    );
   });
 
   it('loadGitignorePatterns parses patterns from .gitignore', async () => {
@@ -181,6 +184,7 @@ describe('FileScanner', () => {
     jest
       .spyOn(fs.promises, 'readFile')
       .mockResolvedValue('node_modules\n!keep.js\nfoo/\n');
+    jest.spyOn(fs.promises, 'readdir').mockResolvedValue([]);
     const patterns = await scanner.loadGitignorePatterns();
     expect(patterns.length).toBe(3);
     expect(patterns[0]?.pattern).toBe('node_modules');
@@ -188,6 +192,23 @@ describe('FileScanner', () => {
     expect(patterns[2]?.isDirectory).toBe(true);
   });
 
+  it('loadGitignorePatterns reads the ignore files again after a reset', async () => {
+    const existsSync = jest.spyOn(fs, 'existsSync').mockReturnValue(false);
+    jest.spyOn(fs.promises, 'readdir').mockResolvedValue([]);
+    await scanner.loadGitignorePatterns();
+    const calls = existsSync.mock.calls.length;
+    // No ignore file is cached as well
+    await scanner.loadGitignorePatterns();
+    expect(existsSync).toHaveBeenCalledTimes(calls);
+
+    existsSync.mockImplementation((p) => p === '/root/.gitignore');
+    jest.spyOn(fs.promises, 'readFile').mockResolvedValue('dist\n');
+    scanner.resetGitignorePatterns();
+    const patterns = await scanner.loadGitignorePatterns();
+    expect(patterns.map((p) => p.pattern)).toEqual(['dist']);
+    expect(scanner.gitignorePatterns).toEqual(patterns);
+  });
+
   it('isIgnored returns true for default ignore patterns', () => {
     const patterns: any[] = [];
     expect(scanner.isIgnored('node_modules/foo.js', patterns)).toBe(true);
@@ -202,51 +223,108 @@ describe('FileScanner', () => {
     expect(scanner.isIgnored('foo/other.js', patterns)).toBe(false);
   });
 
-  it('matchesPattern returns true for substring or prefix', () => {
+  it('matchesPattern matches paths and their directories as globs', () => {
+    const matches = (filePath: string, patterns: string[]) =>
+      (scanner as any).matchesPattern(filePath, patterns);
+    expect(matches('node_modules/foo.js', ['node_modules'])).toBe(true);
+    expect(matches('tmp/bar.js', ['tmp'])).toBe(true);
+    expect(matches('src/foo.js', ['tmp'])).toBe(false);
+    // Whole names only, no substrings
+    expect(matches('src/tmpl.ts', ['tmp'])).toBe(false);
+    expect(matches('apps/web/dist/main.js', ['dist'])).toBe(true);
+    expect(matches('src/__generated__/types.ts', ['**/__generated__/**'])).toBe(
+      true
+    );
+    expect(matches('src/generated.ts', ['**/__generated__/**'])).toBe(false);
+    expect(matches('src/legacy/a.ts', ['src/[lm]*/**'])).toBe(true);
+    expect(matches('src/modern/a.ts', ['src/[!m]*/**'])).toBe(false);
+    // Negation re-includes a path
+    expect(matches('src/keep.gen.ts', ['*.gen.ts', '!keep.gen.ts'])).toBe(
+      false
+    );
+    // Edge: empty path
+    expect(matches('', ['foo'])).toBe(false);
+  });
+
+  it('matchesPattern warns about invalid globs', () => {
+    expect((scanner as any).matchesPattern('foo.js', ['[abc'])).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Invalid ignore pattern'),
+      expect.any(Error)
+    );
+  });
+
+  it('isIgnored applies configured ignore and exclude patterns', () => {
+    expect(scanner.isIgnored('src/__generated__/api.ts', [])).toBe(false);
     expect(
-      (scanner as any).matchesPattern('node_modules/foo.js', 'node_modules')
+      scanner.isIgnored('src/__generated__/api.ts', [], ['**/__generated__/**'])
     ).toBe(true);
-    expect((scanner as any).matchesPattern('tmp/bar.js', 'tmp')).toBe(true);
-    expect((scanner as any).matchesPattern('src/foo.js', 'tmp')).toBe(false);
-    // Edge: empty pattern
-    expect((scanner as any).matchesPattern('foo.js', '')).toBe(true);
-    // Edge: empty path
-    expect((scanner as any).matchesPattern('', 'foo')).toBe(false);
+    expect(scanner.isIgnored('src/tmpl.ts', [])).toBe(false);
+  });
+
+  it('scanDirectory skips files matching excludePatterns', async () => {
+    jest.spyOn(fs.promises, 'readdir').mockImplementation((async (
+      dir: string
+    ) =>
+      dir === '/root/src'
+        ? [
+            {
+              name: 'index.ts',
+              isDirectory: () => false,
+              isFile: () => true,
+            },
+            {
+              name: '__generated__',
+              isDirectory: () => true,
+              isFile: () => false,
+            },
+          ]
+        : [
+            {
+              name: 'api.ts',
+              isDirectory: () => false,
+              isFile: () => true,
+            },
+          ]) as any);
+    jest.spyOn(fs.promises, 'readFile').mockResolvedValue('content');
+    jest.spyOn(scanner, 'loadGitignorePatterns').mockResolvedValue([]);
+    const files = await scanner.scanDirectory('/root/src', {
+      extensions: ['.ts'],
+      ignorePatterns: [],
+      excludePatterns: ['**/__generated__/**'],
+      customZones: [],
+      includePackages: false,
+    });
+    expect(files.map((file) => file.path)).toEqual(['src/index.ts']);
   });
 
   it('matchesGitignorePattern handles directory and file patterns', () => {
-    // Directory pattern
+    // Directory pattern, matched against the parents of a path by isIgnored
     expect(
-      (scanner as any).matchesGitignorePattern('foo/bar/baz.js', 'foo', true)
+      scanner.isIgnored('foo/bar/baz.js', [
+        { pattern: 'foo', isNegation: false, isDirectory: true },
+      ])
     ).toBe(true);
     // File pattern
-    expect(
-      (scanner as any).matchesGitignorePattern('foo.js', 'foo.js', false)
-    ).toBe(true);
+    expect((scanner as any).matchesGitignorePattern('foo.js', 'foo.js')).toBe(
+      true
+    );
     // Pattern with *
     expect(
-      (scanner as any).matchesGitignorePattern('foo/bar.js', 'foo/*.js', false)
+      (scanner as any).matchesGitignorePattern('foo/bar.js', 'foo/*.js')
     ).toBe(true);
     // Pattern with ?
     expect(
-      (scanner as any).matchesGitignorePattern('foo/a.js', 'foo/?.js', false)
+      (scanner as any).matchesGitignorePattern('foo/a.js', 'foo/?.js')
     ).toBe(true);
     // Pattern with invalid regex
-    expect((scanner as any).matchesGitignorePattern('foo.js', '[', false)).toBe(
-      false
-    );
+    expect((scanner as any).matchesGitignorePattern('foo.js', '[')).toBe(false);
     // Edge: empty pattern
-    expect((scanner as any).matchesGitignorePattern('foo.js', '', false)).toBe(
-      false
-    );
+    expect((scanner as any).matchesGitignorePattern('foo.js', '')).toBe(false);
     // Edge: empty path
-    expect((scanner as any).matchesGitignorePattern('', 'foo.js', false)).toBe(
-      false
-    );
+    expect((scanner as any).matchesGitignorePattern('', 'foo.js')).toBe(false);
     // Edge: pattern with only *
-    expect((scanner as any).matchesGitignorePattern('foo.js', '*', false)).toBe(
-      true
-    );
+    expect((scanner as any).matchesGitignorePattern('foo.js', '*')).toBe(true);
   });
 
   it('isIgnored handles negation patterns', () => {
@@ -254,8 +332,8 @@ describe('FileScanner', () => {
       { pattern: 'foo/', isNegation: false, isDirectory: true },
       { pattern: 'foo/bar.js', isNegation: true, isDirectory: false },
     ];
-    // Should be ignored by directory, but not by negation
-    expect(scanner.isIgnored('foo/bar.js', patterns)).toBe(false);
+    // A file can not be re-included when its directory is ignored
+    expect(scanner.isIgnored('foo/bar.js', patterns)).toBe(true);
     // Should be ignored by directory (el método actual solo ignora si el path es exactamente igual al patrón de directorio)
     expect(
       scanner.isIgnored('foo/', patterns.filter(Boolean).slice(0, 1))
@@ -266,6 +344,102 @@ describe('FileScanner', () => {
     ).toBe(false);
   });
 
+  it('isIgnored follows gitignore rules', () => {
+    const patterns = [
+      { pattern: '/generated', isNegation: false, isDirectory: false },
+      { pattern: 'out', isNegation: false, isDirectory: true },
+      { pattern: 'docs/**/*.md', isNegation: false, isDirectory: false },
+      { pattern: '*.snap.ts', isNegation: false, isDirectory: false },
+      { pattern: 'keep.snap.ts', isNegation: true, isDirectory: false },
+    ];
+    // Anchored patterns only match relative to the ignore file
+    expect(scanner.isIgnored('generated/a.ts', patterns)).toBe(true);
+    expect(scanner.isIgnored('src/generated/a.ts', patterns)).toBe(false);
+    // Directory-only patterns do not match files
+    expect(scanner.isIgnored('src/out/a.ts', patterns)).toBe(true);
+    expect(scanner.isIgnored('src/out', patterns)).toBe(false);
+    expect(scanner.isIgnored('src/out', patterns, [], true)).toBe(true);
+    expect(scanner.isIgnored('docs/a/b/readme.md', patterns)).toBe(true);
+    // Later negations re-include files
+    expect(scanner.isIgnored('src/a.snap.ts', patterns)).toBe(true);
+    expect(scanner.isIgnored('src/keep.snap.ts', patterns)).toBe(false);
+  });
+
+  it('isIgnored scopes patterns of nested ignore files to their directory', () => {
+    const patterns = [
+      { pattern: '*.gen.ts', isNegation: false, isDirectory: false },
+      {
+        pattern: '/src/api.gen.ts',
+        isNegation: true,
+        isDirectory: false,
+        baseDir: 'packages/ui',
+      },
+      {
+        pattern: 'fixtures',
+        isNegation: false,
+        isDirectory: true,
+        baseDir: 'packages/ui',
+      },
+    ];
+    expect(scanner.isIgnored('src/api.gen.ts', patterns)).toBe(true);
+    expect(scanner.isIgnored('packages/ui/src/api.gen.ts', patterns)).toBe(
+      false
+    );
+    expect(scanner.isIgnored('packages/ui/src/fixtures/a.ts', patterns)).toBe(
+      true
+    );
+    expect(scanner.isIgnored('packages/web/fixtures/a.ts', patterns)).toBe(
+      false
+    );
+  });
+
+  it('loadGitignorePatterns reads nested .gitignore and .standardsignore files', async () => {
+    const files: Record<string, string> = {
+      '/root/.gitignore': '# comment\n\\#hash.ts\nignored/\n',
+      '/root/.standardsignore': '*.gen.ts\n',
+      '/root/packages/ui/.gitignore': '!/src/api.gen.ts\n',
+      '/root/ignored/.gitignore': 'never-read\n',
+    };
+    const directories: Record<string, string[]> = {
+      '/root': ['packages', 'ignored'],
+      '/root/packages': ['ui'],
+    };
+    jest.spyOn(fs, 'existsSync').mockImplementation((p) => String(p) in files);
+    jest
+      .spyOn(fs.promises, 'readFile')
+      .mockImplementation((async (p: string) => files[p]) as any);
+    jest.spyOn(fs.promises, 'readdir').mockImplementation((async (
+      dir: string
+    ) =>
+      (directories[dir] ?? []).map((name) => ({
+        name,
+        isDirectory: () => true,
+      }))) as any);
+
+    const patterns = await scanner.loadGitignorePatterns();
+    expect(patterns).toEqual([
+      {
+        pattern: '#hash.ts',
+        isNegation: false,
+        isDirectory: false,
+        baseDir: '',
+      },
+      { pattern: 'ignored', isNegation: false, isDirectory: true, baseDir: '' },
+      {
+        pattern: '*.gen.ts',
+        isNegation: false,
+        isDirectory: false,
+        baseDir: '',
+      },
+      {
+        pattern: '/src/api.gen.ts',
+        isNegation: true,
+        isDirectory: false,
+        baseDir: 'packages/ui',
+      },
+    ]);
+  });
+
   it('scanDirectory skips files without valid extension', async () => {
     jest.spyOn(fs.promises, 'readdir').mockResolvedValue([
       {
@@ -335,6 +509,42 @@ describe('FileScanner', () => {
     jest.dontMock('child_process');
   });
 
+  it('getFilesInCommit lists staged files that were not deleted', async () => {
+    jest.resetModules();
+    const exec = jest.fn((_cmd: string, _opts: any, cb: Function) =>
+      cb(null, 'src/a.ts\nsrc/b.ts\n')
+    );
+    jest.doMock('child_process', () => ({ exec }));
+    const { FileScanner: FileScannerMock } = await import('../file-scanner');
+    const scanner2 = new FileScannerMock(rootDir, logger);
+    const files = await scanner2.getFilesInCommit();
+    expect(exec.mock.calls[0]?.[0]).toBe(
+      'git diff --name-only --cached --diff-filter=ACMR'
+    );
+    expect(files).toEqual(['/root/src/a.ts', '/root/src/b.ts']);
+    jest.dontMock('child_process');
+  });
+
+  it('readStagedContent reads the file from the git index', async () => {
+    jest.resetModules();
+    const execFile = jest.fn(
+      (_file: string, args: string[], _opts: any, cb: Function) =>
+        args[1] === ':./src/a.ts'
+          ? cb(null, 'staged content')
+          : cb(new Error('does not exist in the index'), '')
+    );
+    jest.doMock('child_process', () => ({ execFile }));
+    const { FileScanner: FileScannerMock } = await import('../file-scanner');
+    const scanner2 = new FileScannerMock(rootDir, logger);
+
+    expect(await scanner2.readStagedContent('src/a.ts')).toBe('staged content');
+    expect(execFile.mock.calls[0]?.[2]).toEqual(
+      expect.objectContaining({ cwd: rootDir })
+    );
+    expect(await scanner2.readStagedContent('src/new.ts')).toBeNull();
+    jest.dontMock('child_process');
+  });
+
   it('determineZone returns custom zone and package zone', () => {
     const options: any = {
       customZones: ['custom'],
@@ -357,6 +567,19 @@ describe('FileScanner', () => {
     expect((scanner as any).determineZone('foo.js', options)).toBe('.');
   });
 
+  it('determineZone matches glob zones', () => {
+    const options: any = {
+      customZones: ['apps/*/src'],
+      includePackages: false,
+    };
+    expect(
+      (scanner as any).determineZone('apps/web/src/page.tsx', options)
+    ).toBe('apps/web/src');
+    expect(
+      (scanner as any).determineZone('apps/web/test/page.tsx', options)
+    ).toBe('apps/web');
+  });
+
   it('isIgnored handles invalid gitignore pattern', () => {
     const patterns = [{ pattern: '[', isNegation: false, isDirectory: false }];
     expect(scanner.isIgnored('foo.js', patterns)).toBe(false);
@@ -91,4 +91,15 @@ describe('Logger', () => {
     expect(spyLog).toHaveBeenCalledTimes(1);
     expect(spyLog).toHaveBeenCalledWith(expect.stringContaining('debug once'));
   });
+
+  it('writes info and debug to stderr when useStderr is set', () => {
+    const stderrLogger = new Logger(true, true);
+    stderrLogger.info('info msg');
+    stderrLogger.withPrefix('child').debug('debug msg');
+    expect(spyLog).not.toHaveBeenCalled();
+    expect(spyError).toHaveBeenCalledWith(expect.stringContaining('info msg'));
+    expect(spyError).toHaveBeenCalledWith(
+      expect.stringContaining('[child] debug msg')
+    );
+  });
 });
@@ -8,6 +8,10 @@ import type {
   IGitIgnorePattern,
   IFileScanResult,
 } from '../types/index.js';
+import { globToRegExp, matchesIgnoreGlob } from '../helpers/glob.helper.js';
+
+// Ignore files read in every directory, later ones take precedence
+export const IGNORE_FILES = ['.gitignore', '.standardsignore'];
 
 /**
  * File scanner utility for finding and filtering project files
@@ -16,6 +20,7 @@ export class FileScanner implements IFileScanner {
   public readonly rootDir: string;
   public readonly logger: ILogger;
   public readonly gitignorePatterns: IGitIgnorePattern[] = [];
+  private gitignoreLoaded = false;
   private readonly defaultIgnorePatterns: string[];
 
   constructor(rootDir: string, logger: ILogger) {
@@ -55,6 +60,7 @@ export class FileScanner implements IFileScanner {
       ...this.defaultIgnorePatterns,
       ...gitIgnorePatterns.map((p) => p.pattern),
       ...options.ignorePatterns,
+      ...(options.excludePatterns ?? []),
     ];
 
     this.logger.debug(`Loading .gitignore patterns from: ${this.rootDir}`);
@@ -90,7 +96,14 @@ export class FileScanner implements IFileScanner {
         const relativePath = path.relative(this.rootDir, fullPath);
 
         // Check if path should be ignored
-        if (this.isIgnored(relativePath, gitIgnorePatterns)) {
+        if (
+          this.isIgnored(
+            relativePath,
+            gitIgnorePatterns,
+            [...options.ignorePatterns, ...(options.excludePatterns ?? [])],
+            entry.isDirectory()
+          )
+        ) {
           continue;
         }
 
@@ -126,79 +139,173 @@ export class FileScanner implements IFileScanner {
   }
 
   /**
-   * Load gitignore patterns from .gitignore file
+   * Load the patterns of the .gitignore and .standardsignore files of the
+   * root and its subdirectories, parents before children so that patterns
+   * of deeper files take precedence
    * @returns Array of gitignore patterns
    */
   async loadGitignorePatterns(): Promise<IGitIgnorePattern[]> {
-    if (this.gitignorePatterns.length > 0) {
+    if (this.gitignoreLoaded) {
       return this.gitignorePatterns;
     }
 
-    const gitignorePath = path.join(this.rootDir, '.gitignore');
+    const patterns: IGitIgnorePattern[] = [];
+    await this.collectIgnoreFiles('', patterns);
 
-    if (!fs.existsSync(gitignorePath)) {
-      this.logger.debug('No .gitignore file found');
-      return [];
+    if (patterns.length === 0) {
+      this.logger.debug('No .gitignore or .standardsignore file found');
+    }
+
+    // Cache the patterns, including the absence of any
+    this.gitignorePatterns.push(...patterns);
+    this.gitignoreLoaded = true;
+
+    return patterns;
+  }
+
+  /**
+   * Drop the cached ignore patterns so that the next load reads the ignore
+   * files again, e.g. after one of them changed
+   */
+  resetGitignorePatterns(): void {
+    this.gitignorePatterns.length = 0;
+    this.gitignoreLoaded = false;
+  }
+
+  /**
+   * Add the patterns of a directory's ignore files and of the directories
+   * below it that are not ignored
+   * @param dir Directory relative to the root
+   * @param patterns Patterns collected so far
+   */
+  private async collectIgnoreFiles(
+    dir: string,
+    patterns: IGitIgnorePattern[]
+  ): Promise<void> {
+    const dirPath = path.join(this.rootDir, dir);
+
+    for (const ignoreFile of IGNORE_FILES) {
+      const ignorePath = path.join(dirPath, ignoreFile);
+      if (!fs.existsSync(ignorePath)) continue;
+
+      try {
+        const content = await fs.promises.readFile(ignorePath, 'utf8');
+        patterns.push(...this.parseIgnoreFile(content, dir));
+      } catch (error) {
+        this.logger.error(`Error reading ${ignoreFile} file:`, error);
+      }
     }
 
+    let entries: fs.Dirent[];
     try {
-      const content = await fs.promises.readFile(gitignorePath, 'utf8');
-      const lines = content
-        .split('\n')
-        .map((line) => line.trim())
-        .filter((line) => line && !line.startsWith('#'));
-
-      const patterns: IGitIgnorePattern[] = lines.map((line) => {
-        const isNegation = line.startsWith('!');
-        const pattern = isNegation ? line.slice(1) : line;
-        const isDirectory = pattern.endsWith('/');
-
-        return {
-          pattern: isDirectory ? pattern.slice(0, -1) : pattern,
-          isNegation,
-          isDirectory,
-        };
-      });
+      entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return;
+    }
 
-      // Cache the patterns
-      this.gitignorePatterns.push(...patterns);
+    for (const entry of entries) {
+      if (!entry?.isDirectory?.()) continue;
+      const subDir = dir ? `${dir}/${entry.name}` : entry.name;
+      // Git does not read ignore files inside ignored directories
+      if (this.isIgnored(subDir, patterns, [], true)) continue;
+      await this.collectIgnoreFiles(subDir, patterns);
+    }
+  }
 
-      return patterns;
-    } catch (error) {
-      this.logger.error('Error reading .gitignore file:', error);
-      return [];
+  /**
+   * Parse the lines of a .gitignore style file
+   * @param content File content
+   * @param baseDir Directory of the file relative to the root
+   * @returns Patterns in file order
+   */
+  private parseIgnoreFile(
+    content: string,
+    baseDir: string
+  ): IGitIgnorePattern[] {
+    const patterns: IGitIgnorePattern[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      // Trailing spaces are ignored unless escaped with a backslash
+      const line = rawLine.replace(/(?<!\\)\s+$/, '');
+      if (!line || line.startsWith('#')) continue;
+
+      const isNegation = line.startsWith('!');
+      let pattern = isNegation ? line.slice(1) : line;
+      // "\#" and "\!" start patterns with a literal # or !
+      pattern = pattern.replace(/^\\([#!])/, '$1').replace(/\\ /g, ' ');
+      const isDirectory = pattern.endsWith('/');
+      if (isDirectory) pattern = pattern.replace(/\/+$/, '');
+      if (!pattern) continue;
+
+      patterns.push({ pattern, isNegation, isDirectory, baseDir });
     }
+
+    return patterns;
   }
 
   /**
    * Check if a file path should be ignored based on patterns
    * @param filePath File path to check
    * @param patterns Array of gitignore patterns
+   * @param ignorePatterns Globs of the configuration, e.g. ignorePatterns
+   * and zones.excludePatterns; `!` patterns re-include paths
+   * @param isDirectory Whether the path is a directory, which directory-only
+   * patterns like `build/` require
    * @returns True if file should be ignored
    */
-  isIgnored(filePath: string, patterns: IGitIgnorePattern[]): boolean {
+  isIgnored(
+    filePath: string,
+    patterns: IGitIgnorePattern[],
+    ignorePatterns: string[] = [],
+    isDirectory = false
+  ): boolean {
     // Normalize path separators
     const normalizedPath = filePath.replace(/\\/g, '/');
 
-    // Check default ignore patterns first
-    for (const pattern of this.defaultIgnorePatterns) {
-      if (this.matchesPattern(normalizedPath, pattern)) {
-        return true;
-      }
+    // Check default and configured ignore patterns first
+    if (
+      this.matchesPattern(normalizedPath, [
+        ...this.defaultIgnorePatterns,
+        ...ignorePatterns,
+      ])
+    ) {
+      return true;
     }
 
-    let ignored = false;
+    // A file can not be re-included when one of its directories is ignored
+    const segments = normalizedPath.split('/').filter(Boolean);
+    return segments.some((_, index) =>
+      this.matchesGitignorePatterns(
+        segments.slice(0, index + 1).join('/'),
+        index < segments.length - 1 ||
+          isDirectory ||
+          normalizedPath.endsWith('/'),
+        patterns
+      )
+    );
+  }
 
-    // Process gitignore patterns
-    for (const { pattern, isNegation, isDirectory } of patterns) {
-      const matches = this.matchesGitignorePattern(
-        normalizedPath,
-        pattern,
-        isDirectory
-      );
+  /**
+   * Whether the last gitignore pattern matching a path ignores it
+   * @param filePath Path relative to the root
+   * @param isDirectory Whether the path is a directory
+   * @param patterns Gitignore patterns, parents' files first
+   * @returns True if ignored
+   */
+  private matchesGitignorePatterns(
+    filePath: string,
+    isDirectory: boolean,
+    patterns: IGitIgnorePattern[]
+  ): boolean {
+    let ignored = false;
 
-      if (matches) {
-        ignored = !isNegation;
+    for (const entry of patterns) {
+      // Patterns ending with a slash only match directories
+      if (entry.isDirectory && !isDirectory) continue;
+      if (
+        this.matchesGitignorePattern(filePath, entry.pattern, entry.baseDir)
+      ) {
+        ignored = !entry.isNegation;
       }
     }
 
@@ -206,52 +313,51 @@ export class FileScanner implements IFileScanner {
   }
 
   /**
-   * Check if path matches a simple pattern
+   * Check if path or one of its directories matches ignore globs
    * @param filePath File path to check
-   * @param pattern Pattern to match
+   * @param patterns Globs to match, in order
    * @returns True if matches
    */
-  private matchesPattern(filePath: string, pattern: string): boolean {
-    // Simple pattern matching for default ignore patterns
-    return filePath.includes(pattern) || filePath.startsWith(pattern);
+  private matchesPattern(filePath: string, patterns: string[]): boolean {
+    try {
+      return matchesIgnoreGlob(filePath, patterns);
+    } catch (error) {
+      this.logger.warn(`Invalid ignore pattern:`, error);
+      return false;
+    }
   }
 
   /**
    * Check if path matches a gitignore pattern
-   * @param filePath File path to check
+   * @param filePath File path relative to the root
    * @param pattern Gitignore pattern
-   * @param isDirectory Whether pattern is for directories only
+   * @param baseDir Directory of the ignore file relative to the root
    * @returns True if matches
    */
   private matchesGitignorePattern(
     filePath: string,
     pattern: string,
-    isDirectory: boolean
+    baseDir = ''
   ): boolean {
-    // Convert gitignore pattern to regex
-    let regexPattern = pattern
-      .replace(/\./g, '\\.')
-      .replace(/\*\*/g, '.*')
-      .replace(/\*/g, '[^/]*')
-      .replace(/\?/g, '[^/]');
-
-    // Handle directory patterns
-    if (isDirectory) {
-      regexPattern += '(/.*)?$';
-    } else {
-      regexPattern += '$';
-    }
+    if (!pattern || !filePath) return false;
 
-    // Handle patterns that start with /
-    if (pattern.startsWith('/')) {
-      regexPattern = '^' + regexPattern.slice(1);
-    } else {
-      regexPattern = '(^|/)' + regexPattern;
+    const normalizedBase = baseDir.replace(/\/$/, '');
+    if (normalizedBase && !filePath.startsWith(`${normalizedBase}/`)) {
+      return false;
     }
+    const relativePath = normalizedBase
+      ? filePath.slice(normalizedBase.length + 1)
+      : filePath;
+
+    // Patterns with a leading or inner slash are relative to the ignore
+    // file's directory, others match a name at any depth below it
+    const trimmed = pattern.replace(/\/$/, '');
+    const isAnchored = trimmed.includes('/');
 
     try {
-      const regex = new RegExp(regexPattern);
-      return regex.test(filePath);
+      return globToRegExp(
+        isAnchored ? trimmed.replace(/^\//, '') : trimmed
+      ).test(isAnchored ? relativePath : path.posix.basename(relativePath));
     } catch (error) {
       this.logger.warn(`Invalid gitignore pattern: ${pattern}`, error);
       return false;
@@ -267,10 +373,16 @@ export class FileScanner implements IFileScanner {
   private determineZone(filePath: string, options: IScanOptions): string {
     const pathParts = filePath.split('/');
 
-    // Check for specific zones
-    for (const zone of [...(options.zones ?? []), ...options.customZones]) {
-      if (filePath.startsWith(zone)) {
-        return zone;
+    // Check for specific zones, which may be globs like `apps/*/src`
+    for (const zonePattern of [
+      ...(options.zones ?? []),
+      ...options.customZones,
+    ]) {
+      const zone = zonePattern.replace(/\/$/, '');
+      const zoneDepth = zone.split('/').length;
+      const prefix = pathParts.slice(0, zoneDepth).join('/');
+      if (pathParts.length > zoneDepth && globToRegExp(zone).test(prefix)) {
+        return prefix;
       }
     }
 
@@ -317,7 +429,8 @@ export class FileScanner implements IFileScanner {
 
       return new Promise<string[]>((resolve) => {
         exec(
-          'git diff --name-only --cached',
+          // Deleted files are left out, there is nothing to validate
+          'git diff --name-only --cached --diff-filter=ACMR',
           { cwd: this.rootDir },
           (error, stdout) => {
             if (error) {
@@ -346,6 +459,43 @@ export class FileScanner implements IFileScanner {
       return [];
     }
   }
+
+  /**
+   * Read the staged version of a file from the git index
+   * @param filePath File path relative to the root
+   * @returns Staged content, or null when the file is not in the index
+   */
+  async readStagedContent(filePath: string): Promise<string | null> {
+    try {
+      const { execFile } = await import('child_process');
+      const indexPath = `:./${filePath.replace(/\\/g, '/')}`;
+
+      return new Promise<string | null>((resolve) => {
+        execFile(
+          'git',
+          ['show', indexPath],
+          { cwd: this.rootDir, maxBuffer: 64 * 1024 * 1024 },
+          (error, stdout) => {
+            if (error) {
+              this.logger.debug(
+                `No staged version of ${filePath}: ${error.message}`
+              );
+              resolve(null);
+              return;
+            }
+            resolve(stdout);
+          }
+        );
+      });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Failed to read staged file ${filePath}: ${errorMessage}`
+      );
+      return null;
+    }
+  }
 }
 
 /**
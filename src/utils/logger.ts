@@ -7,9 +7,12 @@ export class Logger implements ILogger {
   public readonly verbose: boolean;
   public readonly levels: LogLevel;
   public readonly currentLevel: number;
+  // Send info/debug output to stderr, e.g. when the report is streamed to stdout
+  public readonly useStderr: boolean;
 
-  constructor(verbose = false) {
+  constructor(verbose = false, useStderr = false) {
     this.verbose = verbose;
+    this.useStderr = useStderr;
     this.levels = {
       ERROR: 0,
       WARN: 1,
@@ -54,9 +57,10 @@ export class Logger implements ILogger {
    */
   info(message: string, details: any = null): void {
     if (this.currentLevel >= this.levels.INFO) {
-      console.log(`ℹ️  ${message}`);
+      const write = this.useStderr ? console.error : console.log;
+      write(`ℹ️  ${message}`);
       if (details && this.verbose) {
-        console.log(details);
+        write(details);
       }
     }
   }
@@ -68,9 +72,10 @@ export class Logger implements ILogger {
    */
   debug(message: string, details: any = null): void {
     if (this.currentLevel >= this.levels.DEBUG) {
-      console.log(`🐛 ${message}`);
+      const write = this.useStderr ? console.error : console.log;
+      write(`🐛 ${message}`);
       if (details) {
-        console.log(details);
+        write(details);
       }
     }
   }
@@ -81,7 +86,7 @@ export class Logger implements ILogger {
    * @returns New logger instance with prefix
    */
   withPrefix(prefix: string): Logger {
-    const childLogger = new Logger(this.verbose);
+    const childLogger = new Logger(this.verbose, this.useStderr);
 
     // Override methods to include prefix
     const originalError = childLogger.error.bind(childLogger);